@@ -1,3 +1,4 @@
+import { execSync } from 'child_process';
 import { describe, expect, it } from 'vitest';
 import { withRepo, createTestFiles, createCommit, getHeadCommit } from './utils/repo';
 import { startTestServer, closeTestServer } from './utils/server';
@@ -32,6 +33,32 @@ describe('server API integration', () => {
     });
   }, 30000);
 
+  it('GET /api/tree summarizes languages', async () => {
+    await withRepo(async (repoPath) => {
+      await createTestFiles(repoPath, {
+        'src/index.ts': 'export const a = 1;\n',
+        'src/util.ts': 'export const b = 2;\n',
+        'README.md': '# Project\n'
+      });
+      createCommit(repoPath, 'initial commit');
+
+      const { server, url } = await startTestServer(repoPath);
+
+      try {
+        const response = await fetch(`${url}/api/tree`);
+        expect(response.ok).toBe(true);
+
+        const data = await response.json();
+        expect(data.languages).toEqual([
+          { language: 'TypeScript', files: 2, bytes: 40 },
+          { language: 'Markdown', files: 1, bytes: 10 }
+        ]);
+      } finally {
+        await closeTestServer(server);
+      }
+    });
+  }, 30000);
+
   it('GET /api/tree with ref parameter returns tree for specific commit', async () => {
     await withRepo(async (repoPath) => {
       await createTestFiles(repoPath, {
@@ -134,5 +161,111 @@ describe('server API integration', () => {
       }
     });
   }, 30000);
-});
 
+  it('GET /api/tree and /api/diff return 400 for a root that is not a directory', async () => {
+    await withRepo(async (repoPath) => {
+      await createTestFiles(repoPath, {
+        'src/index.ts': 'index',
+        'README.md': 'readme'
+      });
+      createCommit(repoPath, 'initial commit');
+      const commit = getHeadCommit(repoPath);
+
+      const { server, url } = await startTestServer(repoPath);
+
+      try {
+        const missing = await fetch(`${url}/api/tree?ref=${commit}&root=does/not/exist`);
+        expect(missing.status).toBe(400);
+        expect((await missing.json()).error).toContain('does/not/exist');
+
+        const file = await fetch(`${url}/api/diff?base=${commit}&head=${commit}&root=README.md`);
+        expect(file.status).toBe(400);
+        expect((await file.json()).error).toContain('README.md');
+      } finally {
+        await closeTestServer(server);
+      }
+    });
+  }, 30000);
+
+  it('GET /api/diff returns a merged tree tagged with change status', async () => {
+    await withRepo(async (repoPath) => {
+      await createTestFiles(repoPath, {
+        'file1.txt': 'content1'
+      });
+      createCommit(repoPath, 'first commit');
+      const firstCommit = getHeadCommit(repoPath);
+
+      await createTestFiles(repoPath, {
+        'dir/file2.txt': 'content2'
+      });
+      createCommit(repoPath, 'second commit');
+      const secondCommit = getHeadCommit(repoPath);
+
+      const { server, url } = await startTestServer(repoPath);
+
+      try {
+        const response = await fetch(`${url}/api/diff?base=${firstCommit}&head=${secondCommit}`);
+        expect(response.ok).toBe(true);
+
+        const data = await response.json();
+        expect(data.summary).toEqual({ added: 1, removed: 0, modified: 0, renamed: 0, unchanged: 1 });
+        const dirNode = data.tree.children.find((child: any) => child.name === 'dir');
+        expect(dirNode.change.status).toBe('added');
+
+        const missing = await fetch(`${url}/api/diff?base=${firstCommit}`);
+        expect(missing.status).toBe(400);
+      } finally {
+        await closeTestServer(server);
+      }
+    });
+  }, 30000);
+
+  it('GET /api/refs lists branches, tags and recent commits', async () => {
+    await withRepo(async (repoPath) => {
+      await createTestFiles(repoPath, {
+        'file1.txt': 'content1'
+      });
+      createCommit(repoPath, 'initial commit');
+      const commit = getHeadCommit(repoPath);
+      execSync('git tag v1.0.0', { cwd: repoPath });
+
+      const { server, url } = await startTestServer(repoPath);
+
+      try {
+        const response = await fetch(`${url}/api/refs`);
+        expect(response.ok).toBe(true);
+
+        const data = await response.json();
+        expect(data.branches).toEqual([expect.objectContaining({ name: data.head, hash: commit })]);
+        expect(data.tags).toEqual([expect.objectContaining({ name: 'v1.0.0', hash: commit })]);
+        expect(data.commits).toEqual([expect.objectContaining({ hash: commit, subject: 'initial commit' })]);
+      } finally {
+        await closeTestServer(server);
+      }
+    });
+  }, 30000);
+
+  it('GET /api/commits lists history oldest first', async () => {
+    await withRepo(async (repoPath) => {
+      await createTestFiles(repoPath, { 'file1.txt': 'content1' });
+      createCommit(repoPath, 'first commit');
+      const firstCommit = getHeadCommit(repoPath);
+      await createTestFiles(repoPath, { 'file2.txt': 'content2' });
+      createCommit(repoPath, 'second commit');
+      const secondCommit = getHeadCommit(repoPath);
+
+      const { server, url } = await startTestServer(repoPath);
+
+      try {
+        const response = await fetch(`${url}/api/commits`);
+        expect(response.ok).toBe(true);
+        expect(await response.json()).toEqual({ commits: [firstCommit, secondCommit] });
+
+        const invalid = await fetch(`${url}/api/commits?ref=invalid-ref-12345`);
+        expect(invalid.status).toBe(400);
+      } finally {
+        await closeTestServer(server);
+      }
+    });
+  }, 30000);
+});
@@ -1,5 +1,5 @@
 import puppeteer, { type Browser, type Page } from 'puppeteer';
-import { RADIAL_TREE_SVG_SELECTOR, RADIAL_TREE_LINK_SELECTOR } from '@octotree/core';
+import { RADIAL_TREE_RENDERED_SELECTOR } from '@octotree/core';
 import { DEFAULT_DEVICE_SCALE } from './constants';
 
 export interface CaptureFrameOptions {
@@ -25,13 +25,8 @@ export const captureFrame = async ({
     waitUntil: 'load',
     timeout: navigationTimeout
   });
-  await page.waitForSelector(RADIAL_TREE_SVG_SELECTOR, { timeout: waitTimeout });
-  // Pass the selector as an argument so it gets serialized correctly to the browser context
-  await page.waitForFunction(
-    (selector) => document.querySelectorAll(selector).length > 0,
-    { timeout: waitTimeout },
-    RADIAL_TREE_LINK_SELECTOR
-  );
+  // Marked by both the SVG and the canvas renderer once at least one link is drawn
+  await page.waitForSelector(RADIAL_TREE_RENDERED_SELECTOR, { timeout: waitTimeout });
 
   await page.screenshot({ path: outputPath as `${string}.png`, type: 'png', fullPage: false });
 };
@@ -41,28 +36,40 @@ export interface SetupBrowserOptions {
   height: number;
   navigationTimeout?: number;
   waitTimeout?: number;
+  /** Pages to open, so several frames can be captured at once; defaults to 1 */
+  pageCount?: number;
 }
 
 /**
- * Sets up a Puppeteer browser and page with the specified viewport and timeouts.
+ * Sets up a Puppeteer browser with the specified number of pages, each with the same viewport
+ * and timeouts. `page` is the first of `pages`.
  */
 export const setupBrowser = async ({
   width,
   height,
   navigationTimeout,
-  waitTimeout
-}: SetupBrowserOptions): Promise<{ browser: Browser; page: Page }> => {
+  waitTimeout,
+  pageCount = 1
+}: SetupBrowserOptions): Promise<{ browser: Browser; page: Page; pages: Page[] }> => {
   const browser = await puppeteer.launch({ headless: true });
-  const page = await browser.newPage();
-  await page.setViewport({ width, height, deviceScaleFactor: DEFAULT_DEVICE_SCALE });
-  
-  if (navigationTimeout !== undefined) {
-    page.setDefaultNavigationTimeout(navigationTimeout);
-  }
-  if (waitTimeout !== undefined) {
-    page.setDefaultTimeout(waitTimeout);
+  const pages: Page[] = [];
+  try {
+    for (let index = 0; index < Math.max(1, pageCount); index += 1) {
+      const page = await browser.newPage();
+      await page.setViewport({ width, height, deviceScaleFactor: DEFAULT_DEVICE_SCALE });
+
+      if (navigationTimeout !== undefined) {
+        page.setDefaultNavigationTimeout(navigationTimeout);
+      }
+      if (waitTimeout !== undefined) {
+        page.setDefaultTimeout(waitTimeout);
+      }
+      pages.push(page);
+    }
+  } catch (error) {
+    await browser.close().catch(() => undefined);
+    throw error;
   }
 
-  return { browser, page };
+  return { browser, page: pages[0], pages };
 };
-
@@ -0,0 +1,94 @@
+import path from 'path';
+import process from 'process';
+import { GitRepositoryError } from '@octotree/core';
+import { parseWidth, parseAspect, parseLevel, parseDiffMode } from '../parsers';
+import { captureDiff } from '../diff';
+
+export interface DiffOptions {
+  repo?: string;
+  port?: string;
+  output?: string;
+  width?: string;
+  aspect?: string;
+  base?: string;
+  head?: string;
+  mode?: string;
+  level?: string;
+  cache?: boolean;
+  cacheDir?: string;
+}
+
+export const diffAction = async (options: DiffOptions) => {
+  const repoPath = path.resolve(options.repo ?? process.cwd());
+  const outputPath = path.resolve(options.output ?? 'octo-tree-diff.png');
+  const parsedPort = Number(options.port ?? '0');
+
+  if (Number.isNaN(parsedPort)) {
+    console.error('Port must be a number');
+    process.exitCode = 1;
+    return;
+  }
+
+  const base = options.base?.trim();
+  if (!base) {
+    console.error('--base is required');
+    process.exitCode = 1;
+    return;
+  }
+  const head = options.head?.trim() || 'HEAD';
+
+  const width = parseWidth(options.width);
+  if (width == null) {
+    console.error('Width must be a positive number');
+    process.exitCode = 1;
+    return;
+  }
+
+  const aspect = parseAspect(options.aspect);
+  if (!aspect) {
+    console.error('Aspect ratio must be provided in the form x:y with positive numbers');
+    process.exitCode = 1;
+    return;
+  }
+
+  const modeResult = parseDiffMode(options.mode);
+  if (modeResult.error || !modeResult.value) {
+    console.error(modeResult.error);
+    process.exitCode = 1;
+    return;
+  }
+
+  const levelResult = parseLevel(options.level);
+  if (levelResult.error) {
+    console.error(levelResult.error);
+    process.exitCode = 1;
+    return;
+  }
+
+  const height = Math.round((width * aspect.y) / aspect.x);
+
+  try {
+    await captureDiff({
+      repoPath,
+      base,
+      head,
+      mode: modeResult.value,
+      width,
+      height,
+      requestedPort: parsedPort,
+      outputPath,
+      silent: false,
+      level: levelResult.value,
+      cache: options.cache,
+      cacheDir: options.cacheDir
+    });
+  } catch (error) {
+    if (error instanceof GitRepositoryError) {
+      console.error(error.message);
+      process.exitCode = 1;
+      return;
+    }
+    console.error('Failed to capture diff:', error);
+    process.exitCode = 1;
+  }
+};
@@ -2,3 +2,4 @@ export { serveAction } from './serve';
 export { screenshotAction } from './screenshot';
 export { videoAction } from './video';
 
+export { diffAction } from './diff';
@@ -1,7 +1,7 @@
 import path from 'path';
 import process from 'process';
 import { GitRepositoryError } from '@octotree/core';
-import { parseWidth, parseAspect, parseLevel } from '../parsers';
+import { parseWidth, parseAspect, parseLevel, parseColorMode, parseHighlight } from '../parsers';
 import { captureScreenshot } from '../screenshot';
 
 export interface ScreenshotOptions {
@@ -12,6 +12,13 @@ export interface ScreenshotOptions {
   aspect?: string;
   ref?: string;
   level?: string;
+  color?: string;
+  highlight?: string;
+  cache?: boolean;
+  cacheDir?: string;
+  root?: string;
+  include?: string[];
+  exclude?: string[];
 }
 
 export const screenshotAction = async (options: ScreenshotOptions) => {
@@ -47,6 +54,20 @@ export const screenshotAction = async (options: ScreenshotOptions) => {
     return;
   }
 
+  const colorResult = parseColorMode(options.color);
+  if (colorResult.error) {
+    console.error(colorResult.error);
+    process.exitCode = 1;
+    return;
+  }
+
+  const highlightResult = parseHighlight(options.highlight);
+  if (highlightResult.error) {
+    console.error(highlightResult.error);
+    process.exitCode = 1;
+    return;
+  }
+
   const height = Math.round((width * aspect.y) / aspect.x);
 
   try {
@@ -58,7 +79,14 @@ export const screenshotAction = async (options: ScreenshotOptions) => {
       requestedPort: parsedPort,
       outputPath,
       silent: false,
-      level: levelResult.value
+      level: levelResult.value,
+      color: colorResult.value,
+      highlight: highlightResult.value,
+      cache: options.cache,
+      cacheDir: options.cacheDir,
+      root: options.root,
+      include: options.include,
+      exclude: options.exclude
     });
   } catch (error) {
     if (error instanceof GitRepositoryError) {
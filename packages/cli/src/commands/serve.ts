@@ -10,6 +10,12 @@ export interface ServeOptions {
   port?: string;
   ref?: string;
   level?: string;
+  cache?: boolean;
+  cacheDir?: string;
+  watch?: boolean;
+  root?: string;
+  include?: string[];
+  exclude?: string[];
 }
 
 export const serveAction = async (options: ServeOptions) => {
@@ -30,10 +36,31 @@ export const serveAction = async (options: ServeOptions) => {
     process.exitCode = 1;
     return;
   }
-  console.log(`Launching visualization for repo: ${repoPath} at ref ${ref}`);
+
+  if (options.watch && requestedRef != null) {
+    console.error('--watch cannot be combined with --ref');
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(
+    options.watch
+      ? `Launching visualization for repo: ${repoPath} (watching working tree for changes)`
+      : `Launching visualization for repo: ${repoPath} at ref ${ref}`
+  );
 
   try {
-    await startServer({ port, repoPath, ref: requestedRef });
+    await startServer({
+      port,
+      repoPath,
+      ref: requestedRef,
+      cache: options.cache,
+      cacheDir: options.cacheDir,
+      watch: options.watch,
+      root: options.root,
+      include: options.include,
+      exclude: options.exclude
+    });
   } catch (error) {
     if (error instanceof GitRepositoryError) {
       console.error(error.message);
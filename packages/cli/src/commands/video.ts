@@ -1,21 +1,34 @@
+import { createHash } from 'crypto';
 import fs from 'fs/promises';
 import http from 'http';
 import os from 'os';
 import path from 'path';
 import process from 'process';
-import type { Browser } from 'puppeteer';
+import type { Browser, Page } from 'puppeteer';
 import { TimeoutError } from 'puppeteer';
 import { startServer } from '@octotree/server';
-import { GitRepositoryError, listCommitsForBranch } from '@octotree/core';
+import { GitRepositoryError, listCommitsForBranch, listCommitTimestamps, type TimedCommit } from '@octotree/core';
 import {
+  DEFAULT_CARD_SECONDS,
   DEFAULT_PORT,
   VIDEO_NAVIGATION_TIMEOUT_MS,
   VIDEO_WAIT_TIMEOUT_MS
 } from '../constants';
 import { ensureMp4Path } from '../utils';
-import { parseWidth, parseAspect, parseCommitBound, parseLevel } from '../parsers';
-import { getServerPort, buildClientUrl, closeServer } from '../server';
-import { sampleCommits } from '../git';
+import {
+  parseWidth,
+  parseAspect,
+  parseCommitBound,
+  parseDateBound,
+  parseLevel,
+  parseColorMode,
+  parseInterval,
+  parseSampleMode,
+  parseTween,
+  parseConcurrency
+} from '../parsers';
+import { getServerPort, buildClientUrl, closeServer, type ClientUrlOptions } from '../server';
+import { sampleCommits, sampleCommitsByTime } from '../git';
 import { getFfmpegExecutable, runProcess } from '../ffmpeg';
 import { captureFrame, setupBrowser } from '../capture';
 
@@ -30,8 +43,75 @@ export interface VideoOptions {
   from?: string;
   to?: string;
   level?: string;
+  color?: string;
+  cache?: boolean;
+  cacheDir?: string;
+  root?: string;
+  include?: string[];
+  exclude?: string[];
+  tween?: string;
+  overlay?: boolean;
+  title?: string;
+  outro?: string;
+  cardSeconds?: string;
+  sampleBy?: string;
+  interval?: string;
+  since?: string;
+  until?: string;
+  ref?: string;
+  firstParent?: boolean;
+  concurrency?: string;
+  workDir?: string;
+  keepFrames?: boolean;
+}
+
+interface VideoFrame {
+  commit: string;
+  /** Previous sampled commit, set on the intermediate frames leading up to `commit` */
+  blendFrom?: string;
+  blend?: number;
+  /** Title card text */
+  title?: string;
+  /** Frames the capture is shown for; it is captured once and copied */
+  hold?: number;
 }
 
+/**
+ * Names a capture after its commit and everything else that changes how it looks, so a work
+ * directory can be reused by runs with other options.
+ */
+const captureFileName = (commit: string, settings: unknown): string =>
+  `${commit}-${createHash('sha1').update(JSON.stringify(settings)).digest('hex').slice(0, 12)}.png`;
+
+const fileExists = (filePath: string): Promise<boolean> =>
+  fs.access(filePath).then(
+    () => true,
+    () => false
+  );
+
+/**
+ * Each sampled commit, preceded by `tween` frames blending in from the commit before it. Runs of
+ * the same commit, as left by quiet stretches when sampling by time, become one held frame.
+ */
+const buildFrames = (commits: string[], tween: number): VideoFrame[] => {
+  const frames: VideoFrame[] = [];
+  commits.forEach((commit, index) => {
+    const blendFrom = commits[index - 1];
+    const last = frames[frames.length - 1];
+    if (commit === blendFrom && last) {
+      last.hold = (last.hold ?? 1) + 1;
+      return;
+    }
+    if (blendFrom) {
+      for (let step = 1; step <= tween; step += 1) {
+        frames.push({ commit, blendFrom, blend: step / (tween + 1) });
+      }
+    }
+    frames.push({ commit });
+  });
+  return frames;
+};
+
 export const videoAction = async (options: VideoOptions) => {
   const repoPath = path.resolve(options.repo ?? process.cwd());
   const outputPath = path.resolve(options.output ?? 'octo-tree.mp4');
@@ -96,10 +176,99 @@ export const videoAction = async (options: VideoOptions) => {
     return;
   }
 
+  const colorResult = parseColorMode(options.color);
+  if (colorResult.error) {
+    console.error(colorResult.error);
+    process.exitCode = 1;
+    return;
+  }
+
+  const tweenResult = parseTween(options.tween);
+  if (tweenResult.error) {
+    console.error(tweenResult.error);
+    process.exitCode = 1;
+    return;
+  }
+  const tween = tweenResult.value ?? 0;
+
+  const cardSecondsValue = Number(options.cardSeconds ?? DEFAULT_CARD_SECONDS);
+  if (Number.isNaN(cardSecondsValue) || cardSecondsValue <= 0) {
+    console.error('card-seconds must be a positive number');
+    process.exitCode = 1;
+    return;
+  }
+  const cardFrames = Math.max(1, Math.round(fpsValue * cardSecondsValue));
+
+  const concurrencyResult = parseConcurrency(options.concurrency);
+  if (concurrencyResult.error) {
+    console.error(concurrencyResult.error);
+    process.exitCode = 1;
+    return;
+  }
+  const concurrency = concurrencyResult.value ?? 1;
+
+  const sampleModeResult = parseSampleMode(options.sampleBy);
+  if (sampleModeResult.error) {
+    console.error(sampleModeResult.error);
+    process.exitCode = 1;
+    return;
+  }
+  const sampleByTime = sampleModeResult.value === 'time';
+
+  const intervalResult = parseInterval(options.interval);
+  if (intervalResult.error) {
+    console.error(intervalResult.error);
+    process.exitCode = 1;
+    return;
+  }
+  if (intervalResult.value != null && !sampleByTime) {
+    console.error('--interval requires --sample-by time');
+    process.exitCode = 1;
+    return;
+  }
+
+  const sinceResult = parseDateBound(options.since, '--since');
+  if (sinceResult.error) {
+    console.error(sinceResult.error);
+    process.exitCode = 1;
+    return;
+  }
+
+  const untilResult = parseDateBound(options.until, '--until');
+  if (untilResult.error) {
+    console.error(untilResult.error);
+    process.exitCode = 1;
+    return;
+  }
+
+  const since = sinceResult.value ?? Number.NEGATIVE_INFINITY;
+  const until = untilResult.value ?? Number.POSITIVE_INFINITY;
+  if (since > until) {
+    console.error('--since cannot be later than --until');
+    process.exitCode = 1;
+    return;
+  }
+
+  const revision = options.ref?.trim() || 'HEAD';
+  // A rooted video starts once the directory exists; the server rejects commits without it
+  const listOptions = { firstParent: options.firstParent ?? false, ...(options.root ? { root: options.root } : {}) };
+
   try {
-    const commits = await listCommitsForBranch(repoPath);
+    // Commit times are only read when sampling or filtering by them
+    const timedCommits: TimedCommit[] | null =
+      sampleByTime || sinceResult.value != null || untilResult.value != null
+        ? await listCommitTimestamps(repoPath, revision, listOptions)
+        : null;
+    const commits =
+      timedCommits?.map(({ hash }) => hash) ?? (await listCommitsForBranch(repoPath, revision, listOptions));
     if (commits.length === 0) {
-      console.error('No commits found in repository history');
+      console.error(
+        options.root
+          ? `No commits in ${revision} change files below ${options.root}`
+          : revision === 'HEAD'
+            ? 'No commits found in repository history'
+            : `No commits found in ${revision}`
+      );
       process.exitCode = 1;
       return;
     }
@@ -125,23 +294,75 @@ export const videoAction = async (options: VideoOptions) => {
       return;
     }
 
-    const commitsInRange: string[] = commits.slice(fromIndex - 1, toIndex);
+    const timedInRange = timedCommits
+      ?.slice(fromIndex - 1, toIndex)
+      .filter(({ timestamp }) => timestamp >= since && timestamp <= until);
+    const commitsInRange: string[] = timedInRange?.map(({ hash }) => hash) ?? commits.slice(fromIndex - 1, toIndex);
     if (commitsInRange.length === 0) {
       console.error('No commits found in the specified range');
       process.exitCode = 1;
       return;
     }
 
-    const commitsToRender = sampleCommits(commitsInRange, frameBudget);
-    const requestedFrames = commitsToRender.length;
+    // Every commit after the first brings `tween` extra frames, so fewer commits fit the budget
+    const commitBudget = Math.max(1, Math.floor((frameBudget + tween) / (tween + 1)));
+    let commitsToRender: string[];
+    if (sampleByTime && timedInRange) {
+      // Without an interval, the time span is split into as many buckets as the budget allows
+      const latest = timedInRange.reduce((max, { timestamp }) => Math.max(max, timestamp), 0);
+      const span = latest - timedInRange[0].timestamp;
+      const interval = intervalResult.value ?? Math.max(1, span / Math.max(commitBudget - 1, 1));
+      commitsToRender = sampleCommits(sampleCommitsByTime(timedInRange, interval), commitBudget);
+    } else {
+      commitsToRender = sampleCommits(commitsInRange, commitBudget);
+    }
+    const frames = buildFrames(commitsToRender, tween);
+    if (options.title) {
+      frames.unshift({ commit: commitsToRender[0], title: options.title, hold: cardFrames });
+    }
+    if (options.outro) {
+      frames.push({ commit: commitsToRender[commitsToRender.length - 1], title: options.outro, hold: cardFrames });
+    }
+    const requestedFrames = frames.length;
 
-    const rangeLabel = fromIndex === 1 && toIndex === commits.length
+    const dateLabel = options.since || options.until ? `, ${options.since ?? '…'} to ${options.until ?? '…'}` : '';
+    const rangeLabel = commitsInRange.length === commits.length
       ? `${commits.length} commits`
-      : `${commitsInRange.length} commits (range ${fromIndex}-${toIndex} of ${commits.length})`;
-
-    console.log(`Rendering up to ${requestedFrames} frames (${fpsValue} fps) sampled from ${rangeLabel}`);
+      : `${commitsInRange.length} commits (range ${fromIndex}-${toIndex} of ${commits.length}${dateLabel})`;
+    const sampling = sampleByTime ? 'sampled by commit time' : 'sampled';
+    const revisionLabel = revision === 'HEAD' ? '' : ` in ${revision}`;
+
+    console.log(
+      `Rendering up to ${requestedFrames} frames (${fpsValue} fps) ${sampling} from ${rangeLabel}${revisionLabel}`
+    );
+
+    const frameUrlOptions = ({ commit, blendFrom, blend, title }: VideoFrame): ClientUrlOptions => ({
+      ref: commit,
+      level: levelResult.value,
+      color: colorResult.value,
+      blendFrom,
+      blend,
+      overlay: options.overlay,
+      title
+    });
 
     const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'octo-tree-video-'));
+    // Captures in a work directory outlive the run, so an interrupted or partly timed out run can resume
+    const workDir = options.workDir ? path.resolve(options.workDir) : null;
+    const captureDir = workDir ?? tempDir;
+    const captureFiles = frames.map((frame) =>
+      path.join(
+        captureDir,
+        captureFileName(frame.commit, {
+          width,
+          height,
+          root: options.root,
+          include: options.include,
+          exclude: options.exclude,
+          query: new URL(buildClientUrl('http://localhost', frameUrlOptions(frame))).search
+        })
+      )
+    );
     const videoPath = ensureMp4Path(outputPath);
     const portPreference = parsedPort === 0 ? 0 : parsedPort || DEFAULT_PORT;
     let server: http.Server | null = null;
@@ -150,7 +371,38 @@ export const videoAction = async (options: VideoOptions) => {
     try {
       await fs.mkdir(path.dirname(videoPath), { recursive: true });
 
-      server = await startServer({ port: portPreference, repoPath, silent: true });
+      const captures: Array<string | null> = frames.map(() => null);
+      if (workDir) {
+        await fs.mkdir(workDir, { recursive: true });
+        await Promise.all(
+          captureFiles.map(async (captureFile, index) => {
+            if (await fileExists(captureFile)) {
+              captures[index] = captureFile;
+            }
+          })
+        );
+        const reusedFrames = captures.filter((capture) => capture != null).length;
+        if (reusedFrames > 0) {
+          console.log(`Reusing ${reusedFrames} of ${requestedFrames} frame(s) captured earlier in ${workDir}`);
+        }
+      }
+      // Frames that look the same, such as matching title and outro cards over one commit, share a capture
+      const pendingFrames = frames.flatMap((_, index) =>
+        captures[index] == null && captureFiles.indexOf(captureFiles[index]) === index ? [index] : []
+      );
+
+      server = await startServer({
+        port: portPreference,
+        repoPath,
+        silent: true,
+        cache: options.cache,
+        cacheDir: options.cacheDir,
+        root: options.root,
+        include: options.include,
+        exclude: options.exclude,
+        // Frames are requested roughly in history order, so each tree is derived from a nearby one
+        incremental: true
+      });
       const port = portPreference === 0 ? getServerPort(server) : portPreference;
       const baseUrl = `http://localhost:${port}`;
 
@@ -158,50 +410,98 @@ export const videoAction = async (options: VideoOptions) => {
         width,
         height,
         navigationTimeout: VIDEO_NAVIGATION_TIMEOUT_MS,
-        waitTimeout: VIDEO_WAIT_TIMEOUT_MS
+        waitTimeout: VIDEO_WAIT_TIMEOUT_MS,
+        pageCount: Math.max(1, Math.min(concurrency, pendingFrames.length))
       });
       browser = browserSetup.browser;
-      const { page } = browserSetup;
 
       let capturedFrames = 0;
       let skippedFrames = 0;
-
-      for (let index = 0; index < requestedFrames; index += 1) {
-        const commit = commitsToRender[index];
-        const frameNumber = capturedFrames + 1;
-        const frameFile = path.join(tempDir, `frame-${String(frameNumber).padStart(6, '0')}.png`);
-
-        try {
-          const frameUrl = buildClientUrl(baseUrl, { ref: commit, level: levelResult.value });
-          await captureFrame({
-            page,
-            url: frameUrl,
-            outputPath: frameFile,
-            navigationTimeout: VIDEO_NAVIGATION_TIMEOUT_MS,
-            waitTimeout: VIDEO_WAIT_TIMEOUT_MS
-          });
-          capturedFrames += 1;
-          console.log(`Captured frame ${capturedFrames}/${requestedFrames} (${commit.slice(0, 7)})`);
-        } catch (error) {
-          if (error instanceof TimeoutError) {
-            skippedFrames += 1;
-            console.warn(
-              `Skipped frame ${index + 1}/${requestedFrames} (${commit.slice(0, 7)}) due to timeout: ${error.message}`
-            );
-            continue;
+      // Each page takes the next frame as soon as it is free, so captures finish out of order
+      let nextFrame = 0;
+      let failed = false;
+
+      const captureFrames = async (page: Page): Promise<void> => {
+        while (nextFrame < pendingFrames.length && !failed) {
+          const index = pendingFrames[nextFrame];
+          nextFrame += 1;
+          const frame = frames[index];
+          const { commit, blendFrom, title } = frame;
+          const frameLabel = title
+            ? `title card, ${commit.slice(0, 7)}`
+            : blendFrom
+              ? `${blendFrom.slice(0, 7)}→${commit.slice(0, 7)}`
+              : commit.slice(0, 7);
+          const captureFile = captureFiles[index];
+          // Written under another name first so an interrupted run never leaves a truncated frame to reuse
+          const partialFile = captureFile.replace(/\.png$/, '.partial.png');
+
+          try {
+            await captureFrame({
+              page,
+              url: buildClientUrl(baseUrl, frameUrlOptions(frame)),
+              outputPath: partialFile,
+              navigationTimeout: VIDEO_NAVIGATION_TIMEOUT_MS,
+              waitTimeout: VIDEO_WAIT_TIMEOUT_MS
+            });
+            await fs.rename(partialFile, captureFile);
+            captureFiles.forEach((file, other) => {
+              if (file === captureFile) {
+                captures[other] = captureFile;
+              }
+            });
+            capturedFrames += 1;
+            console.log(`Captured frame ${capturedFrames}/${pendingFrames.length} (${frameLabel})`);
+          } catch (error) {
+            if (error instanceof TimeoutError) {
+              // The page may have written part of the capture; a rerun retries this frame from scratch
+              await fs.rm(partialFile, { force: true });
+              skippedFrames += 1;
+              console.warn(
+                `Skipped frame ${index + 1}/${requestedFrames} (${frameLabel}) due to timeout: ${error.message}`
+              );
+              continue;
+            }
+            failed = true;
+            throw error;
           }
-          throw error;
+        }
+      };
+
+      await Promise.all(browserSetup.pages.map(captureFrames));
+
+      // Frame files are numbered in history order without gaps for ffmpeg; held frames take several numbers.
+      // Captures in a work directory are copied so they stay there for the next run, and shared
+      // captures are copied until their last use
+      let writtenFrames = 0;
+      const frameFileAt = (frameNumber: number) =>
+        path.join(tempDir, `frame-${String(frameNumber).padStart(6, '0')}.png`);
+      for (const [index, captureFile] of captures.entries()) {
+        if (!captureFile) {
+          continue;
+        }
+        const frameFile = frameFileAt(writtenFrames + 1);
+        const lastUse = captures.lastIndexOf(captureFile) === index;
+        await (workDir || !lastUse ? fs.copyFile(captureFile, frameFile) : fs.rename(captureFile, frameFile));
+        writtenFrames += 1;
+        for (let copy = 1; copy < (frames[index].hold ?? 1); copy += 1) {
+          await fs.copyFile(frameFile, frameFileAt(writtenFrames + 1));
+          writtenFrames += 1;
         }
       }
 
-      if (capturedFrames === 0) {
+      if (writtenFrames === 0) {
         console.error('No frames were captured; aborting video generation');
         process.exitCode = 1;
         return;
       }
 
       if (skippedFrames > 0) {
-        console.warn(`Skipped ${skippedFrames} frame(s) due to timeouts`);
+        console.warn(
+          workDir
+            ? `Skipped ${skippedFrames} frame(s) due to timeouts; rerun with the same --work-dir to retry only those`
+            : `Skipped ${skippedFrames} frame(s) due to timeouts`
+        );
       }
 
       const ffmpegExecutable = getFfmpegExecutable();
@@ -215,10 +515,20 @@ export const videoAction = async (options: VideoOptions) => {
       ];
 
       await runProcess(ffmpegExecutable, ffmpegArgs, { cwd: tempDir });
-      console.log(`Saved video (${capturedFrames} frames @ ${fpsValue} fps) to ${videoPath}`);
+      console.log(`Saved video (${writtenFrames} frames @ ${fpsValue} fps) to ${videoPath}`);
+
+      // A complete video no longer needs its checkpoints; frames to retry keep the rest around
+      if (workDir && !options.keepFrames && skippedFrames === 0) {
+        const captured = new Set(captures.filter((capture): capture is string => capture != null));
+        await Promise.all([...captured].map((capture) => fs.rm(capture, { force: true })));
+      }
     } finally {
       await Promise.allSettled([browser?.close(), closeServer(server)]);
-      await fs.rm(tempDir, { recursive: true, force: true }).catch(() => undefined);
+      if (options.keepFrames && !workDir) {
+        console.log(`Kept frames in ${tempDir}`);
+      } else {
+        await fs.rm(tempDir, { recursive: true, force: true }).catch(() => undefined);
+      }
     }
   } catch (error) {
     if (error instanceof GitRepositoryError) {
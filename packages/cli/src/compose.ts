@@ -0,0 +1,106 @@
+import fs from 'fs/promises';
+import type { Page } from 'puppeteer';
+import { DEFAULT_DEVICE_SCALE } from './constants';
+
+export const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+export interface RenderHtmlFrameOptions {
+  page: Page;
+  html: string;
+  width: number;
+  height: number;
+  outputPath: string;
+}
+
+/**
+ * Renders a standalone HTML document at the given CSS size and saves it as a PNG.
+ */
+export const renderHtmlFrame = async ({
+  page,
+  html,
+  width,
+  height,
+  outputPath
+}: RenderHtmlFrameOptions): Promise<void> => {
+  await page.setViewport({ width, height, deviceScaleFactor: DEFAULT_DEVICE_SCALE });
+  await page.setContent(html, { waitUntil: 'load' });
+  await page.screenshot({ path: outputPath as `${string}.png`, type: 'png', fullPage: false });
+};
+
+export interface ComposePanel {
+  imagePath: string;
+  label: string;
+}
+
+export interface ComposeSideBySideOptions {
+  page: Page;
+  panels: ComposePanel[];
+  caption: string;
+  panelWidth: number;
+  panelHeight: number;
+  captionHeight: number;
+  outputPath: string;
+}
+
+/**
+ * Lays previously captured PNGs out next to each other under a caption and saves the result.
+ */
+export const composeSideBySide = async ({
+  page,
+  panels,
+  caption,
+  panelWidth,
+  panelHeight,
+  captionHeight,
+  outputPath
+}: ComposeSideBySideOptions): Promise<void> => {
+  const images = await Promise.all(
+    panels.map(async ({ imagePath, label }) => {
+      const data = await fs.readFile(imagePath);
+      return { label, src: `data:image/png;base64,${data.toString('base64')}` };
+    })
+  );
+
+  const panelMarkup = images
+    .map(
+      ({ label, src }) => `
+        <figure>
+          <img src="${src}" alt="${escapeHtml(label)}" />
+          <figcaption>${escapeHtml(label)}</figcaption>
+        </figure>`
+    )
+    .join('');
+
+  const html = `<!doctype html>
+<html>
+  <head>
+    <style>
+      html, body { margin: 0; background: #020617; color: #e2e8f0; font-family: system-ui, sans-serif; }
+      header { height: ${captionHeight}px; display: flex; align-items: center; justify-content: center; font-size: 1.6rem; font-weight: 600; color: #bbf7d0; }
+      main { display: flex; }
+      figure { position: relative; margin: 0; width: ${panelWidth}px; height: ${panelHeight}px; }
+      img { width: 100%; height: 100%; display: block; }
+      figcaption { position: absolute; top: 1rem; left: 1rem; padding: 0.3rem 0.8rem; border-radius: 999px; background: rgba(10, 19, 28, 0.85); font-family: ui-monospace, monospace; }
+    </style>
+  </head>
+  <body>
+    <header>${escapeHtml(caption)}</header>
+    <main>${panelMarkup}</main>
+  </body>
+</html>`;
+
+  await renderHtmlFrame({
+    page,
+    html,
+    width: panelWidth * panels.length,
+    height: panelHeight + captionHeight,
+    outputPath
+  });
+};
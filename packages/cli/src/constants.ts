@@ -5,4 +5,22 @@ export const DEFAULT_ASPECT_Y = 3;
 export const DEFAULT_DEVICE_SCALE = 2;
 export const VIDEO_NAVIGATION_TIMEOUT_MS = 120_000;
 export const VIDEO_WAIT_TIMEOUT_MS = 120_000;
+export const DEFAULT_CARD_SECONDS = 2;
 
+export const DIFF_MODES = ['overlay', 'side-by-side'] as const;
+export type DiffMode = (typeof DIFF_MODES)[number];
+export const DIFF_CAPTION_HEIGHT = 72;
+
+export const SAMPLE_MODES = ['commits', 'time'] as const;
+export type SampleMode = (typeof SAMPLE_MODES)[number];
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+// Months and years are calendar averages; buckets only need to be evenly spaced
+export const INTERVAL_UNITS_MS: Record<string, number> = {
+  h: HOUR_MS,
+  d: DAY_MS,
+  w: 7 * DAY_MS,
+  mo: 30 * DAY_MS,
+  y: 365 * DAY_MS
+};
@@ -0,0 +1,162 @@
+import fs from 'fs/promises';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import type { Browser } from 'puppeteer';
+import { startServer } from '@octotree/server';
+import { resolveGitRef, type RepositoryTreeDiff, type TreeDiffSummary } from '@octotree/core';
+import { DEFAULT_PORT, DEFAULT_DEVICE_SCALE, DIFF_CAPTION_HEIGHT, type DiffMode } from './constants';
+import { ensurePngPath } from './utils';
+import { getServerPort, buildClientUrl, closeServer } from './server';
+import { captureFrame, setupBrowser } from './capture';
+import { composeSideBySide } from './compose';
+import { captureScreenshot } from './screenshot';
+
+export interface DiffCaptureOptions {
+  repoPath: string;
+  base: string;
+  head: string;
+  mode: DiffMode;
+  width: number;
+  height: number;
+  requestedPort: number;
+  outputPath: string;
+  silent?: boolean;
+  level?: number;
+  cache?: boolean;
+  cacheDir?: string;
+}
+
+export const formatDiffCaption = (base: string, head: string, summary: TreeDiffSummary): string => {
+  return `${base} → ${head}  ·  +${summary.added} added  −${summary.removed} removed  ~${summary.modified} modified  ${summary.renamed} renamed`;
+};
+
+// Asking the server for the summary lets it reuse the trees it builds for the panels
+const fetchDiffSummary = async (urlBase: string, base: string, head: string): Promise<TreeDiffSummary> => {
+  const params = new URLSearchParams({ base, head });
+  const response = await fetch(`${urlBase}/api/diff?${params.toString()}`);
+  const body = (await response.json()) as Partial<RepositoryTreeDiff> & { error?: string };
+  if (!response.ok || !body.summary) {
+    throw new Error(body.error ?? `Failed to diff ${base}..${head}`);
+  }
+  return body.summary;
+};
+
+const captureSideBySide = async ({
+  repoPath,
+  base,
+  head,
+  width,
+  height,
+  requestedPort,
+  outputPath,
+  level,
+  cache,
+  cacheDir
+}: Omit<DiffCaptureOptions, 'mode' | 'silent'>): Promise<void> => {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'octo-tree-diff-'));
+  let server: http.Server | null = null;
+  let browser: Browser | null = null;
+
+  try {
+    const portPreference = requestedPort === 0 ? 0 : requestedPort || DEFAULT_PORT;
+    server = await startServer({ port: portPreference, repoPath, silent: true, cache, cacheDir });
+    const port = portPreference === 0 ? getServerPort(server) : portPreference;
+    const urlBase = `http://localhost:${port}`;
+    const caption = formatDiffCaption(base, head, await fetchDiffSummary(urlBase, base, head));
+
+    const browserSetup = await setupBrowser({ width, height });
+    browser = browserSetup.browser;
+    const { page } = browserSetup;
+
+    const panels = [
+      { ref: base, label: `base: ${base}`, imagePath: path.join(tempDir, 'base.png') },
+      { ref: head, label: `head: ${head}`, imagePath: path.join(tempDir, 'head.png') }
+    ];
+    for (const panel of panels) {
+      await captureFrame({
+        page,
+        url: buildClientUrl(urlBase, { ref: panel.ref, level }),
+        outputPath: panel.imagePath
+      });
+    }
+
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+    await composeSideBySide({
+      page,
+      panels,
+      caption,
+      panelWidth: width,
+      panelHeight: height,
+      captionHeight: DIFF_CAPTION_HEIGHT,
+      outputPath
+    });
+  } finally {
+    await Promise.allSettled([browser?.close(), closeServer(server)]);
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => undefined);
+  }
+};
+
+/**
+ * Captures a PNG comparing two refs, either as the web diff overlay or as the two trees
+ * side by side under a caption summarising the changes.
+ */
+export const captureDiff = async ({
+  repoPath,
+  base,
+  head,
+  mode,
+  width,
+  height,
+  requestedPort,
+  outputPath,
+  silent = false,
+  level,
+  cache,
+  cacheDir
+}: DiffCaptureOptions): Promise<string> => {
+  const pngPath = ensurePngPath(outputPath);
+
+  // Resolving both refs up front rejects bad refs before a server or browser is started
+  await resolveGitRef(repoPath, base);
+  await resolveGitRef(repoPath, head);
+
+  if (mode === 'overlay') {
+    await captureScreenshot({
+      repoPath,
+      width,
+      height,
+      requestedPort,
+      outputPath: pngPath,
+      silent: true,
+      level,
+      base,
+      head,
+      cache,
+      cacheDir
+    });
+  } else {
+    await captureSideBySide({
+      repoPath,
+      base,
+      head,
+      width,
+      height,
+      requestedPort,
+      outputPath: pngPath,
+      level,
+      cache,
+      cacheDir
+    });
+  }
+
+  if (!silent) {
+    const outputWidth = mode === 'overlay' ? width : width * 2;
+    const outputHeight = mode === 'overlay' ? height : height + DIFF_CAPTION_HEIGHT;
+    console.log(
+      `Saved ${outputWidth}x${outputHeight} (CSS px) ${mode} diff of ${base}..${head} to ${pngPath} (device scale factor ${DEFAULT_DEVICE_SCALE})`
+    );
+  }
+
+  return pngPath;
+};
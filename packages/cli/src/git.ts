@@ -1,3 +1,5 @@
+import type { TimedCommit } from '@octotree/core';
+
 export const sampleCommits = (commits: string[], maxFrames: number): string[] => {
   if (commits.length <= maxFrames) {
     return commits;
@@ -18,3 +20,27 @@ export const sampleCommits = (commits: string[], maxFrames: number): string[] =>
     .map((index) => commits[index]);
 };
 
+/**
+ * Picks the last commit of each `intervalMs` bucket, starting from the first commit. Buckets
+ * without commits repeat the commit before them, so quiet stretches take as long as busy
+ * ones. Commit times that go backwards count towards the current bucket.
+ */
+export const sampleCommitsByTime = (commits: TimedCommit[], intervalMs: number): string[] => {
+  const first = commits[0];
+  if (!first) {
+    return [];
+  }
+
+  const sampled: string[] = [];
+  let latest = first.timestamp;
+  for (const { hash, timestamp } of commits) {
+    latest = Math.max(latest, timestamp);
+    const bucket = Math.floor((latest - first.timestamp) / intervalMs);
+    const previous = sampled[sampled.length - 1];
+    while (sampled.length < bucket) {
+      sampled.push(previous);
+    }
+    sampled[bucket] = hash;
+  }
+  return sampled;
+};
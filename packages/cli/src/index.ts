@@ -1,24 +1,43 @@
 #!/usr/bin/env node
 import { Command } from 'commander';
 import process from 'process';
+import { RADIAL_TREE_COLOR_MODES } from '@octotree/core';
 import {
   DEFAULT_PORT,
   DEFAULT_WIDTH,
   DEFAULT_ASPECT_X,
-  DEFAULT_ASPECT_Y
+  DEFAULT_ASPECT_Y,
+  DEFAULT_CARD_SECONDS,
+  SAMPLE_MODES
 } from './constants';
+import { collectRepeatable } from './utils';
 import { ServeOptions } from './commands/serve';
 import { ScreenshotOptions } from './commands/screenshot';
 import { VideoOptions } from './commands/video';
-import { serveAction, screenshotAction, videoAction } from './commands';
+import { DiffOptions } from './commands/diff';
+import { serveAction, screenshotAction, videoAction, diffAction } from './commands';
 
 // Re-export functions used by tests and other modules
-export { ensurePngPath, ensureMp4Path } from './utils';
-export { parseWidth, parseAspect, parseCommitBound, parseLevel } from './parsers';
+export { ensurePngPath, ensureMp4Path, collectRepeatable } from './utils';
+export {
+  parseWidth,
+  parseAspect,
+  parseCommitBound,
+  parseLevel,
+  parseTween,
+  parseConcurrency,
+  parseSampleMode,
+  parseInterval,
+  parseDateBound,
+  parseDiffMode,
+  parseColorMode,
+  parseHighlight
+} from './parsers';
 export { closeServer, getServerPort, buildClientUrl } from './server';
-export { sampleCommits } from './git';
+export { sampleCommits, sampleCommitsByTime } from './git';
 export { runProcess } from './ffmpeg';
 export { captureScreenshot } from './screenshot';
+export { captureDiff } from './diff';
 
 const program = new Command();
 
@@ -33,6 +52,12 @@ program
   .option('-p, --port <number>', 'Port to run the web server on', DEFAULT_PORT.toString())
   .option('--ref <git-ref>', 'Git ref (commit SHA, tag, etc.) to visualize')
   .option('--level <number>', 'Number of levels to display in the visualization')
+  .option('--cache-dir <path>', 'Directory for cached trees (defaults to .git/octo-tree)')
+  .option('--no-cache', 'Rebuild every tree instead of reusing cached trees')
+  .option('--root <path>', 'Repository subdirectory to use as the root of the tree')
+  .option('--include <glob>', 'Only show files matching this glob (repeatable)', collectRepeatable)
+  .option('--exclude <glob>', 'Hide files matching this glob (repeatable)', collectRepeatable)
+  .option('--watch', 'Watch the working tree and push updates to the browser as files change')
   .action(async (options) => {
     await serveAction(options as ServeOptions);
   });
@@ -51,6 +76,13 @@ program
   )
   .option('--ref <git-ref>', 'Git ref (commit SHA, tag, etc.) to visualize')
   .option('--level <number>', 'Number of levels to display in the visualization')
+  .option('--color <mode>', `Color links by ${RADIAL_TREE_COLOR_MODES.join(', ')}`)
+  .option('--highlight <pattern>', 'Highlight paths matching a substring, glob or /regex/ and dim the rest')
+  .option('--cache-dir <path>', 'Directory for cached trees (defaults to .git/octo-tree)')
+  .option('--no-cache', 'Rebuild every tree instead of reusing cached trees')
+  .option('--root <path>', 'Repository subdirectory to use as the root of the tree')
+  .option('--include <glob>', 'Only show files matching this glob (repeatable)', collectRepeatable)
+  .option('--exclude <glob>', 'Hide files matching this glob (repeatable)', collectRepeatable)
   .action(async (options) => {
     await screenshotAction(options as ScreenshotOptions);
   });
@@ -69,13 +101,55 @@ program
   )
   .option('--fps <number>', 'Frames per second of the output video', '10')
   .option('--max-seconds <number>', 'Maximum length of the video in seconds', '60')
+  .option('--ref <revision>', 'Branch, tag, commit or revision range (such as v1.0..main) to render', 'HEAD')
+  .option('--first-parent', 'Follow only the first parent of merges, skipping commits on merged branches')
   .option('--from <number>', 'Start rendering from this commit index (1-indexed)')
   .option('--to <number>', 'Stop rendering at this commit index (1-indexed)')
+  .option('--since <date>', 'Only render commits made on or after this date')
+  .option('--until <date>', 'Only render commits made on or before this date')
+  .option('--sample-by <mode>', `Space frames evenly by ${SAMPLE_MODES.join(' or ')}`, 'commits')
+  .option('--interval <duration>', 'With --sample-by time, time between frames such as 1d, 1w or 1mo')
   .option('--level <number>', 'Number of levels to display in the visualization')
+  .option('--color <mode>', `Color links by ${RADIAL_TREE_COLOR_MODES.join(', ')}`)
+  .option('--tween <number>', 'Intermediate frames blending each commit into the next', '0')
+  .option('--overlay', 'Caption every frame with the commit hash, date, author, subject and file count')
+  .option('--title <text>', 'Open the video with a title card over the first commit')
+  .option('--outro <text>', 'Close the video with a title card over the last commit')
+  .option('--card-seconds <number>', 'How long each title card is shown', DEFAULT_CARD_SECONDS.toString())
+  .option('--concurrency <number>', 'Frames to capture at once, each in its own browser page', '1')
+  .option('--work-dir <path>', 'Keep captured frames here so an interrupted run can resume where it stopped')
+  .option('--keep-frames', 'Keep the captured frames after the video is saved')
+  .option('--cache-dir <path>', 'Directory for cached trees (defaults to .git/octo-tree)')
+  .option('--no-cache', 'Rebuild every tree instead of reusing cached trees')
+  .option('--root <path>', 'Repository subdirectory to use as the root of the tree')
+  .option('--include <glob>', 'Only show files matching this glob (repeatable)', collectRepeatable)
+  .option('--exclude <glob>', 'Hide files matching this glob (repeatable)', collectRepeatable)
   .action(async (options) => {
     await videoAction(options as VideoOptions);
   });
 
+program
+  .command('diff')
+  .description('Generate a PNG comparing the radial file tree at two git refs')
+  .option('-r, --repo <path>', 'Path to the repository to visualize', process.cwd())
+  .option('-p, --port <number>', 'Port to run the web server on (0 selects a random open port)', '0')
+  .option('-o, --output <path>', 'Output path for the PNG file', 'octo-tree-diff.png')
+  .option('-w, --width <number>', 'Horizontal side length in CSS pixels (per tree in side-by-side mode)', DEFAULT_WIDTH.toString())
+  .option(
+    '-a, --aspect <ratio>',
+    `Aspect ratio for width:height (format x:y)`,
+    `${DEFAULT_ASPECT_X}:${DEFAULT_ASPECT_Y}`
+  )
+  .option('--base <git-ref>', 'Git ref to compare from')
+  .option('--head <git-ref>', 'Git ref to compare to', 'HEAD')
+  .option('--mode <mode>', 'Image layout: overlay or side-by-side', 'overlay')
+  .option('--level <number>', 'Number of levels to display in the visualization')
+  .option('--cache-dir <path>', 'Directory for cached trees (defaults to .git/octo-tree)')
+  .option('--no-cache', 'Rebuild every tree instead of reusing cached trees')
+  .action(async (options) => {
+    await diffAction(options as DiffOptions);
+  });
+
 if (require.main === module) {
   void program.parseAsync(process.argv);
 }
@@ -1,4 +1,14 @@
-import { DEFAULT_WIDTH, DEFAULT_ASPECT_X, DEFAULT_ASPECT_Y } from './constants';
+import { RADIAL_TREE_COLOR_MODES, type RadialTreeColorMode } from '@octotree/core';
+import {
+  DEFAULT_WIDTH,
+  DEFAULT_ASPECT_X,
+  DEFAULT_ASPECT_Y,
+  DIFF_MODES,
+  INTERVAL_UNITS_MS,
+  SAMPLE_MODES,
+  type DiffMode,
+  type SampleMode
+} from './constants';
 
 export const parseWidth = (rawWidth: string | undefined): number | null => {
   if (!rawWidth) {
@@ -55,3 +65,138 @@ export const parseLevel = (rawValue: string | undefined): { value?: number; erro
   return { value: parsed };
 };
 
+export const parseTween = (rawValue: string | undefined): { value?: number; error?: string } => {
+  if (rawValue == null) {
+    return {};
+  }
+
+  const parsed = Number(rawValue);
+  if (rawValue.trim() === '' || !Number.isInteger(parsed) || parsed < 0) {
+    return { error: '--tween must be a non-negative integer' };
+  }
+
+  return { value: parsed };
+};
+
+export const parseConcurrency = (rawValue: string | undefined): { value?: number; error?: string } => {
+  if (rawValue == null) {
+    return {};
+  }
+
+  const parsed = Number(rawValue);
+  if (rawValue.trim() === '' || !Number.isInteger(parsed) || parsed <= 0) {
+    return { error: '--concurrency must be a positive integer' };
+  }
+
+  return { value: parsed };
+};
+
+export const parseSampleMode = (rawValue: string | undefined): { value?: SampleMode; error?: string } => {
+  if (rawValue == null) {
+    return { value: 'commits' };
+  }
+
+  const normalized = rawValue.trim().toLowerCase();
+  const mode = SAMPLE_MODES.find((candidate) => candidate === normalized);
+  if (!mode) {
+    return { error: `--sample-by must be one of: ${SAMPLE_MODES.join(', ')}` };
+  }
+
+  return { value: mode };
+};
+
+/** Parses a duration such as `12h`, `3d`, `1w`, `2mo` or `1y` into milliseconds */
+export const parseInterval = (rawValue: string | undefined): { value?: number; error?: string } => {
+  if (rawValue == null) {
+    return {};
+  }
+
+  const match = /^(\d+(?:\.\d+)?)\s*([a-z]+)$/.exec(rawValue.trim().toLowerCase());
+  const unit = match ? INTERVAL_UNITS_MS[match[2]] : undefined;
+  const amount = match ? Number(match[1]) : Number.NaN;
+  if (!unit || !(amount > 0)) {
+    return {
+      error: `--interval must be a positive number followed by one of: ${Object.keys(INTERVAL_UNITS_MS).join(', ')}`
+    };
+  }
+
+  return { value: amount * unit };
+};
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parses a `--since`/`--until` date into a timestamp in ms. Dates without a time are UTC days,
+ * and `--until` includes the whole day.
+ */
+export const parseDateBound = (
+  rawValue: string | undefined,
+  flag: '--since' | '--until'
+): { value?: number; error?: string } => {
+  if (rawValue == null) {
+    return {};
+  }
+
+  const trimmed = rawValue.trim();
+  const timestamp = Date.parse(trimmed);
+  if (!trimmed || Number.isNaN(timestamp)) {
+    return { error: `${flag} must be a date such as 2024-01-31 or 2024-01-31T12:00:00Z` };
+  }
+
+  if (flag === '--until' && DATE_ONLY.test(trimmed)) {
+    return { value: timestamp + INTERVAL_UNITS_MS.d - 1 };
+  }
+  return { value: timestamp };
+};
+
+export const parseDiffMode = (rawValue: string | undefined): { value?: DiffMode; error?: string } => {
+  if (rawValue == null) {
+    return { value: 'overlay' };
+  }
+
+  const normalized = rawValue.trim().toLowerCase();
+  const mode = DIFF_MODES.find((candidate) => candidate === normalized);
+  if (!mode) {
+    return { error: `--mode must be one of: ${DIFF_MODES.join(', ')}` };
+  }
+
+  return { value: mode };
+};
+
+export const parseColorMode = (
+  rawValue: string | undefined
+): { value?: RadialTreeColorMode; error?: string } => {
+  if (rawValue == null) {
+    return {};
+  }
+
+  const normalized = rawValue.trim().toLowerCase();
+  const mode = RADIAL_TREE_COLOR_MODES.find((candidate) => candidate === normalized);
+  if (!mode) {
+    return { error: `--color must be one of: ${RADIAL_TREE_COLOR_MODES.join(', ')}` };
+  }
+
+  return { value: mode };
+};
+
+/**
+ * Checks a `--highlight` search pattern. `/pattern/flags` must be a valid regular expression;
+ * globs and substrings are matched by the web UI as given.
+ */
+export const parseHighlight = (rawValue: string | undefined): { value?: string; error?: string } => {
+  const trimmed = rawValue?.trim();
+  if (!trimmed) {
+    return {};
+  }
+
+  const literal = /^\/(.+)\/([a-z]*)$/.exec(trimmed);
+  if (literal) {
+    try {
+      new RegExp(literal[1], literal[2]);
+    } catch (error) {
+      return { error: `--highlight is not a valid regular expression: ${error instanceof Error ? error.message : trimmed}` };
+    }
+  }
+
+  return { value: trimmed };
+};
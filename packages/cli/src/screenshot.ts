@@ -17,8 +17,24 @@ export interface CaptureOptions {
   outputPath: string;
   silent?: boolean;
   level?: number;
+  color?: string;
+  highlight?: string;
+  base?: string;
+  head?: string;
+  cache?: boolean;
+  cacheDir?: string;
+  root?: string;
+  include?: string[];
+  exclude?: string[];
 }
 
+const describeTarget = (ref?: string, base?: string, head?: string): string => {
+  if (base && head) {
+    return ` of diff ${base}..${head}`;
+  }
+  return ref ? ` at ref ${ref}` : '';
+};
+
 export const captureScreenshot = async ({
   repoPath,
   ref,
@@ -27,7 +43,16 @@ export const captureScreenshot = async ({
   requestedPort,
   outputPath,
   silent = false,
-  level
+  level,
+  color,
+  highlight,
+  base,
+  head,
+  cache,
+  cacheDir,
+  root,
+  include,
+  exclude
 }: CaptureOptions): Promise<string> => {
   const pngPath = ensurePngPath(outputPath);
 
@@ -36,10 +61,20 @@ export const captureScreenshot = async ({
 
   try {
     const portPreference = requestedPort === 0 ? 0 : requestedPort || DEFAULT_PORT;
-    server = await startServer({ port: portPreference, repoPath, ref, silent: true });
+    server = await startServer({
+      port: portPreference,
+      repoPath,
+      ref,
+      silent: true,
+      cache,
+      cacheDir,
+      root,
+      include,
+      exclude
+    });
     const port = portPreference === 0 ? getServerPort(server) : portPreference;
     const urlBase = `http://localhost:${port}`;
-    const targetUrl = buildClientUrl(urlBase, { ref, level });
+    const targetUrl = buildClientUrl(urlBase, { ref, level, base, head, color, highlight });
 
     const browserSetup = await setupBrowser({ width, height });
     browser = browserSetup.browser;
@@ -50,7 +85,7 @@ export const captureScreenshot = async ({
 
     if (!silent) {
       console.log(
-        `Saved ${width}x${height} (CSS px) screenshot${ref ? ` at ref ${ref}` : ''} to ${pngPath} (device scale factor ${DEFAULT_DEVICE_SCALE})`
+        `Saved ${width}x${height} (CSS px) screenshot${describeTarget(ref, base, head)} to ${pngPath} (device scale factor ${DEFAULT_DEVICE_SCALE})`
       );
     }
 
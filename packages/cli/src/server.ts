@@ -3,6 +3,17 @@ import http from 'http';
 export interface ClientUrlOptions {
   ref?: string;
   level?: number;
+  base?: string;
+  head?: string;
+  color?: string;
+  highlight?: string;
+  /** Tree to blend from into `ref`, drawn `blend` of the way (0 to 1) towards `ref` */
+  blendFrom?: string;
+  blend?: number;
+  /** Captions the frame with the commit on screen */
+  overlay?: boolean;
+  /** Covers the frame with a title card */
+  title?: string;
 }
 
 export const closeServer = (server: http.Server | null): Promise<void> => {
@@ -28,7 +39,10 @@ export const getServerPort = (server: http.Server): number => {
   throw new Error('Failed to determine server port');
 };
 
-export const buildClientUrl = (baseUrl: string, { ref, level }: ClientUrlOptions): string => {
+export const buildClientUrl = (
+  baseUrl: string,
+  { ref, level, base, head, color, highlight, blendFrom, blend, overlay, title }: ClientUrlOptions
+): string => {
   const targetUrl = new URL(baseUrl);
   if (ref) {
     targetUrl.searchParams.set('ref', ref);
@@ -36,6 +50,26 @@ export const buildClientUrl = (baseUrl: string, { ref, level }: ClientUrlOptions
   if (typeof level === 'number') {
     targetUrl.searchParams.set('level', level.toString());
   }
+  if (base && head) {
+    targetUrl.searchParams.set('base', base);
+    targetUrl.searchParams.set('head', head);
+  }
+  if (color) {
+    targetUrl.searchParams.set('color', color);
+  }
+  if (highlight) {
+    targetUrl.searchParams.set('highlight', highlight);
+  }
+  if (blendFrom && typeof blend === 'number') {
+    targetUrl.searchParams.set('blendFrom', blendFrom);
+    targetUrl.searchParams.set('blend', blend.toString());
+  }
+  if (overlay) {
+    targetUrl.searchParams.set('overlay', 'true');
+  }
+  if (title) {
+    targetUrl.searchParams.set('title', title);
+  }
   return targetUrl.toString();
 };
 
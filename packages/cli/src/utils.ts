@@ -14,3 +14,9 @@ export const ensureMp4Path = (outputPath: string): `${string}.mp4` => {
   return `${outputPath}.mp4` as `${string}.mp4`;
 };
 
+/**
+ * Commander accumulator for options that may be given more than once.
+ */
+export const collectRepeatable = (value: string, previous: string[] | undefined): string[] => {
+  return [...(previous ?? []), value];
+};
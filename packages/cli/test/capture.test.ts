@@ -1,11 +1,10 @@
 import { describe, expect, it, vi, beforeEach } from 'vitest';
 import { captureFrame, setupBrowser } from '../src/capture';
-import type { Page } from 'puppeteer';
+import type { Browser, Page } from 'puppeteer';
 
 vi.mock('puppeteer');
 vi.mock('@octotree/core', () => ({
-  RADIAL_TREE_SVG_SELECTOR: 'svg.radial-tree',
-  RADIAL_TREE_LINK_SELECTOR: '.radial-tree-link'
+  RADIAL_TREE_RENDERED_SELECTOR: '.radial-tree [data-rendered="true"]'
 }));
 
 describe('captureFrame', () => {
@@ -32,10 +31,9 @@ describe('captureFrame', () => {
       waitUntil: 'load',
       timeout: 20000
     });
-    expect(mockPage.waitForSelector).toHaveBeenCalledWith('svg.radial-tree', {
+    expect(mockPage.waitForSelector).toHaveBeenCalledWith('.radial-tree [data-rendered="true"]', {
       timeout: 20000
     });
-    expect(mockPage.waitForFunction).toHaveBeenCalled();
     expect(mockPage.screenshot).toHaveBeenCalledWith({
       path: 'output.png',
       type: 'png',
@@ -56,34 +54,21 @@ describe('captureFrame', () => {
       waitUntil: 'load',
       timeout: 60000
     });
-    expect(mockPage.waitForSelector).toHaveBeenCalledWith('svg.radial-tree', {
+    expect(mockPage.waitForSelector).toHaveBeenCalledWith('.radial-tree [data-rendered="true"]', {
       timeout: 30000
     });
-    expect(mockPage.waitForFunction).toHaveBeenCalledWith(
-      expect.any(Function),
-      { timeout: 30000 },
-      '.radial-tree-link'
-    );
   });
 
-  it('waits for links to render', async () => {
+  it('waits for links to render with either renderer', async () => {
     await captureFrame({
       page: mockPage as Page,
       url: 'http://localhost:3000',
       outputPath: 'output.png'
     });
 
-    expect(mockPage.waitForFunction).toHaveBeenCalledWith(
-      expect.any(Function),
-      { timeout: 20000 },
-      '.radial-tree-link'
-    );
-
-    // Verify the function checks for links
-    const waitFunction = vi.mocked(mockPage.waitForFunction).mock.calls[0][0];
-    // The function will be executed in browser context, so we just verify it was called
-    // with a function that checks for links
-    expect(typeof waitFunction).toBe('function');
+    // The canvas renderer has no link elements to count, so only the rendered marker is awaited
+    expect(mockPage.waitForSelector).toHaveBeenCalledTimes(1);
+    expect(mockPage.waitForFunction).not.toHaveBeenCalled();
   });
 });
 
@@ -166,5 +151,42 @@ describe('setupBrowser', () => {
     expect(mockPage.setDefaultNavigationTimeout).not.toHaveBeenCalled();
     expect(mockPage.setDefaultTimeout).not.toHaveBeenCalled();
   });
-});
 
+  it('opens a pool of identically configured pages', async () => {
+    const puppeteer = await import('puppeteer');
+    const mockPages = [1, 2, 3].map(() => ({
+      setViewport: vi.fn().mockResolvedValue(undefined),
+      setDefaultNavigationTimeout: vi.fn(),
+      setDefaultTimeout: vi.fn()
+    }));
+    const mockBrowser = {
+      newPage: vi.fn()
+        .mockResolvedValueOnce(mockPages[0])
+        .mockResolvedValueOnce(mockPages[1])
+        .mockResolvedValueOnce(mockPages[2]),
+      close: vi.fn().mockResolvedValue(undefined)
+    };
+    vi.spyOn(puppeteer.default, 'launch').mockResolvedValue(mockBrowser as unknown as Browser);
+
+    const result = await setupBrowser({ width: 800, height: 600, waitTimeout: 5000, pageCount: 3 });
+
+    expect(result.pages).toEqual(mockPages);
+    expect(result.page).toBe(mockPages[0]);
+    for (const page of mockPages) {
+      expect(page.setViewport).toHaveBeenCalledWith({ width: 800, height: 600, deviceScaleFactor: 2 });
+      expect(page.setDefaultTimeout).toHaveBeenCalledWith(5000);
+    }
+  });
+
+  it('closes the browser when a page cannot be opened', async () => {
+    const puppeteer = await import('puppeteer');
+    const mockBrowser = {
+      newPage: vi.fn().mockRejectedValue(new Error('Target closed')),
+      close: vi.fn().mockResolvedValue(undefined)
+    };
+    vi.spyOn(puppeteer.default, 'launch').mockResolvedValue(mockBrowser as unknown as Browser);
+
+    await expect(setupBrowser({ width: 800, height: 600 })).rejects.toThrow('Target closed');
+    expect(mockBrowser.close).toHaveBeenCalled();
+  });
+});
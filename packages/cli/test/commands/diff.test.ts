@@ -0,0 +1,100 @@
+import process from 'process';
+import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
+import { GitRepositoryError } from '@octotree/core';
+import { diffAction } from '../../src/commands/diff';
+
+vi.mock('../../src/diff');
+
+const originalExitCode = process.exitCode;
+
+beforeEach(() => {
+  process.exitCode = 0;
+  vi.clearAllMocks();
+});
+
+afterEach(() => {
+  process.exitCode = originalExitCode;
+});
+
+describe('diffAction', () => {
+  it('captures an overlay diff against HEAD by default', async () => {
+    const { captureDiff } = await import('../../src/diff');
+    vi.mocked(captureDiff).mockResolvedValue('octo-tree-diff.png');
+
+    await diffAction({ base: 'v1.0' });
+
+    expect(captureDiff).toHaveBeenCalledWith({
+      repoPath: expect.any(String),
+      base: 'v1.0',
+      head: 'HEAD',
+      mode: 'overlay',
+      width: 1440,
+      height: 1080,
+      requestedPort: 0,
+      outputPath: expect.stringContaining('octo-tree-diff.png'),
+      silent: false,
+      level: undefined
+    });
+  });
+
+  it('passes side-by-side mode and head through', async () => {
+    const { captureDiff } = await import('../../src/diff');
+    vi.mocked(captureDiff).mockResolvedValue('diff.png');
+
+    await diffAction({ base: 'v1.0', head: 'main', mode: 'side-by-side', output: 'diff.png' });
+
+    expect(captureDiff).toHaveBeenCalledWith(
+      expect.objectContaining({ base: 'v1.0', head: 'main', mode: 'side-by-side' })
+    );
+  });
+
+  it('requires a base ref', async () => {
+    const { captureDiff } = await import('../../src/diff');
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await diffAction({});
+
+    expect(consoleSpy).toHaveBeenCalledWith('--base is required');
+    expect(process.exitCode).toBe(1);
+    expect(captureDiff).not.toHaveBeenCalled();
+
+    consoleSpy.mockRestore();
+  });
+
+  it('validates mode', async () => {
+    const { captureDiff } = await import('../../src/diff');
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await diffAction({ base: 'v1.0', mode: 'stacked' });
+
+    expect(consoleSpy).toHaveBeenCalledWith('--mode must be one of: overlay, side-by-side');
+    expect(process.exitCode).toBe(1);
+    expect(captureDiff).not.toHaveBeenCalled();
+
+    consoleSpy.mockRestore();
+  });
+
+  it('validates port', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await diffAction({ base: 'v1.0', port: 'invalid' });
+
+    expect(consoleSpy).toHaveBeenCalledWith('Port must be a number');
+    expect(process.exitCode).toBe(1);
+
+    consoleSpy.mockRestore();
+  });
+
+  it('reports git errors without a stack trace', async () => {
+    const { captureDiff } = await import('../../src/diff');
+    vi.mocked(captureDiff).mockRejectedValue(new GitRepositoryError('Unknown git ref: nope'));
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await diffAction({ base: 'nope' });
+
+    expect(consoleSpy).toHaveBeenCalledWith('Unknown git ref: nope');
+    expect(process.exitCode).toBe(1);
+
+    consoleSpy.mockRestore();
+  });
+});
@@ -81,6 +81,61 @@ describe('screenshotAction', () => {
     consoleSpy.mockRestore();
   });
 
+  it('validates color mode', async () => {
+    const { captureScreenshot } = await import('../../src/screenshot');
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await screenshotAction({ color: 'rainbow' });
+
+    expect(consoleSpy).toHaveBeenCalledWith('--color must be one of: size, language, age, churn, author');
+    expect(process.exitCode).toBe(1);
+    expect(captureScreenshot).not.toHaveBeenCalled();
+
+    consoleSpy.mockRestore();
+  });
+
+  it('validates the highlight pattern', async () => {
+    const { captureScreenshot } = await import('../../src/screenshot');
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await screenshotAction({ highlight: '/([/' });
+
+    expect(consoleSpy).toHaveBeenCalledWith(expect.stringMatching(/^--highlight is not a valid regular expression/));
+    expect(process.exitCode).toBe(1);
+    expect(captureScreenshot).not.toHaveBeenCalled();
+
+    consoleSpy.mockRestore();
+  });
+
+  it('passes the highlight pattern to the capture', async () => {
+    const { captureScreenshot } = await import('../../src/screenshot');
+    vi.mocked(captureScreenshot).mockResolvedValue('octo-tree.png');
+
+    await screenshotAction({ highlight: ' *.md ' });
+
+    expect(captureScreenshot).toHaveBeenCalledWith(expect.objectContaining({ highlight: '*.md' }));
+  });
+
+  it('passes the color mode to the capture', async () => {
+    const { captureScreenshot } = await import('../../src/screenshot');
+    vi.mocked(captureScreenshot).mockResolvedValue('output.png');
+
+    await screenshotAction({ color: 'Author' });
+
+    expect(captureScreenshot).toHaveBeenCalledWith(expect.objectContaining({ color: 'author' }));
+  });
+
+  it('passes the root and path filters to the capture', async () => {
+    const { captureScreenshot } = await import('../../src/screenshot');
+    vi.mocked(captureScreenshot).mockResolvedValue('output.png');
+
+    await screenshotAction({ root: 'packages', include: ['packages/'], exclude: ['**/*.test.ts'] });
+
+    expect(captureScreenshot).toHaveBeenCalledWith(
+      expect.objectContaining({ root: 'packages', include: ['packages/'], exclude: ['**/*.test.ts'] })
+    );
+  });
+
   it('calculates height from width and aspect ratio', async () => {
     const { captureScreenshot } = await import('../../src/screenshot');
     vi.mocked(captureScreenshot).mockResolvedValue('output.png');
@@ -70,6 +70,51 @@ describe('serveAction', () => {
     });
   });
 
+  it('passes cache options to the server', async () => {
+    const { startServer } = await import('@octotree/server');
+
+    await serveAction({ cache: false, cacheDir: '/tmp/trees' });
+
+    expect(startServer).toHaveBeenCalledWith(
+      expect.objectContaining({ cache: false, cacheDir: '/tmp/trees' })
+    );
+  });
+
+  it('passes the root and path filters to the server', async () => {
+    const { startServer } = await import('@octotree/server');
+
+    await serveAction({ root: 'packages/web', include: ['src/**'], exclude: ['*.snap', 'vendor/'] });
+
+    expect(startServer).toHaveBeenCalledWith(
+      expect.objectContaining({
+        root: 'packages/web',
+        include: ['src/**'],
+        exclude: ['*.snap', 'vendor/']
+      })
+    );
+  });
+
+  it('passes watch to the server', async () => {
+    const { startServer } = await import('@octotree/server');
+
+    await serveAction({ watch: true });
+
+    expect(startServer).toHaveBeenCalledWith(expect.objectContaining({ watch: true, ref: undefined }));
+  });
+
+  it('sets exit code to 1 when watch is combined with ref', async () => {
+    const { startServer } = await import('@octotree/server');
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await serveAction({ watch: true, ref: 'main' });
+
+    expect(consoleSpy).toHaveBeenCalledWith('--watch cannot be combined with --ref');
+    expect(process.exitCode).toBe(1);
+    expect(startServer).not.toHaveBeenCalled();
+
+    consoleSpy.mockRestore();
+  });
+
   it('sets exit code to 1 when port is invalid', async () => {
     await serveAction({ port: 'invalid' });
     expect(process.exitCode).toBe(1);
@@ -1,6 +1,6 @@
 import process from 'process';
 import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
-import { GitRepositoryError, listCommitsForBranch } from '@octotree/core';
+import { GitRepositoryError, listCommitsForBranch, listCommitTimestamps } from '@octotree/core';
 import { videoAction } from '../../src/commands/video';
 
 vi.mock('@octotree/server');
@@ -11,7 +11,8 @@ vi.mock('@octotree/core', async () => {
   const actual = await vi.importActual('@octotree/core');
   return {
     ...actual,
-    listCommitsForBranch: vi.fn()
+    listCommitsForBranch: vi.fn(),
+    listCommitTimestamps: vi.fn()
   };
 });
 vi.mock('fs/promises');
@@ -61,7 +62,8 @@ describe('videoAction', () => {
     const { setupBrowser, captureFrame } = await import('../../src/capture');
     vi.mocked(setupBrowser).mockResolvedValue({
       browser: mockBrowser as any,
-      page: mockPage as any
+      page: mockPage as any,
+      pages: [mockPage as any]
     });
     vi.mocked(captureFrame).mockResolvedValue(undefined);
 
@@ -83,6 +85,7 @@ describe('videoAction', () => {
     }
 
     expect(listCommitsForBranch).toHaveBeenCalled();
+    expect(startServer).toHaveBeenCalledWith(expect.objectContaining({ incremental: true }));
     expect(setupBrowser).toHaveBeenCalled();
     // Video action should log progress (either log or warn) if it gets far enough
     // If it fails early, it may not log, so we just check that listCommitsForBranch was called
@@ -256,5 +259,438 @@ describe('videoAction', () => {
 
     consoleSpy.mockRestore();
   });
-});
 
+  it('validates tween', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await videoAction({ tween: '-1' });
+
+    expect(consoleSpy).toHaveBeenCalledWith('--tween must be a non-negative integer');
+    expect(process.exitCode).toBe(1);
+
+    consoleSpy.mockRestore();
+  });
+
+  it('captures blended frames between sampled commits', async () => {
+    const { sampleCommits } = await import('../../src/git');
+    vi.mocked(sampleCommits).mockReturnValue(['c1', 'c2', 'c3']);
+
+    const { startServer } = await import('@octotree/server');
+    const mockServer = {
+      address: () => ({ port: 3000 }),
+      close: vi.fn((cb?: (err?: Error | null) => void) => cb?.(null))
+    } as unknown as Awaited<ReturnType<typeof startServer>>;
+    vi.mocked(startServer).mockResolvedValue(mockServer);
+
+    const { setupBrowser, captureFrame } = await import('../../src/capture');
+    vi.mocked(setupBrowser).mockResolvedValue({
+      browser: { close: vi.fn().mockResolvedValue(undefined) } as any,
+      page: {} as any,
+      pages: [{} as any]
+    });
+    vi.mocked(captureFrame).mockResolvedValue(undefined);
+
+    const fs = await import('fs/promises');
+    vi.mocked(fs.mkdtemp).mockResolvedValue('/tmp/test');
+
+    const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await videoAction({ tween: '1', fps: '5', maxSeconds: '1' });
+
+    // A budget of 5 frames with one tween frame per pair leaves room for 3 commits
+    expect(sampleCommits).toHaveBeenCalledWith(['c1', 'c2', 'c3', 'c4', 'c5'], 3);
+    const urls = vi.mocked(captureFrame).mock.calls.map(([{ url }]) => url);
+    expect(urls).toEqual([
+      'http://localhost:3000/?ref=c1',
+      'http://localhost:3000/?ref=c2&blendFrom=c1&blend=0.5',
+      'http://localhost:3000/?ref=c2',
+      'http://localhost:3000/?ref=c3&blendFrom=c2&blend=0.5',
+      'http://localhost:3000/?ref=c3'
+    ]);
+    expect(process.exitCode).toBe(0);
+
+    consoleLogSpy.mockRestore();
+  });
+
+  it('validates card seconds', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await videoAction({ cardSeconds: '0' });
+
+    expect(consoleSpy).toHaveBeenCalledWith('card-seconds must be a positive number');
+    expect(process.exitCode).toBe(1);
+
+    consoleSpy.mockRestore();
+  });
+
+  it('holds title cards and captions frames with the commit overlay', async () => {
+    const { sampleCommits } = await import('../../src/git');
+    vi.mocked(sampleCommits).mockReturnValue(['c1', 'c5']);
+
+    const { startServer } = await import('@octotree/server');
+    const mockServer = {
+      address: () => ({ port: 3000 }),
+      close: vi.fn((cb?: (err?: Error | null) => void) => cb?.(null))
+    } as unknown as Awaited<ReturnType<typeof startServer>>;
+    vi.mocked(startServer).mockResolvedValue(mockServer);
+
+    const { setupBrowser, captureFrame } = await import('../../src/capture');
+    vi.mocked(setupBrowser).mockResolvedValue({
+      browser: { close: vi.fn().mockResolvedValue(undefined) } as any,
+      page: {} as any,
+      pages: [{} as any]
+    });
+    vi.mocked(captureFrame).mockResolvedValue(undefined);
+
+    const fs = await import('fs/promises');
+    vi.mocked(fs.mkdtemp).mockResolvedValue('/tmp/test');
+
+    const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await videoAction({ overlay: true, title: 'Intro', outro: 'Outro', fps: '2', cardSeconds: '1.5' });
+
+    const urls = vi.mocked(captureFrame).mock.calls.map(([{ url }]) => url);
+    expect(urls).toEqual([
+      'http://localhost:3000/?ref=c1&overlay=true&title=Intro',
+      'http://localhost:3000/?ref=c1&overlay=true',
+      'http://localhost:3000/?ref=c5&overlay=true',
+      'http://localhost:3000/?ref=c5&overlay=true&title=Outro'
+    ]);
+    // Each card is shown for 3 frames at 2 fps: captured once, then copied twice
+    expect(vi.mocked(fs.copyFile).mock.calls.map(([, copy]) => copy)).toEqual([
+      '/tmp/test/frame-000002.png',
+      '/tmp/test/frame-000003.png',
+      '/tmp/test/frame-000007.png',
+      '/tmp/test/frame-000008.png'
+    ]);
+    expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Saved video (8 frames @ 2 fps)'));
+
+    consoleLogSpy.mockRestore();
+  });
+
+  it('captures matching title and outro cards once and copies the capture to both', async () => {
+    const { sampleCommits } = await import('../../src/git');
+    vi.mocked(sampleCommits).mockReturnValue(['c1']);
+
+    const { startServer } = await import('@octotree/server');
+    const mockServer = {
+      address: () => ({ port: 3000 }),
+      close: vi.fn((cb?: (err?: Error | null) => void) => cb?.(null))
+    } as unknown as Awaited<ReturnType<typeof startServer>>;
+    vi.mocked(startServer).mockResolvedValue(mockServer);
+
+    const { setupBrowser, captureFrame } = await import('../../src/capture');
+    vi.mocked(setupBrowser).mockResolvedValue({
+      browser: { close: vi.fn().mockResolvedValue(undefined) } as any,
+      page: {} as any,
+      pages: [{} as any]
+    });
+    vi.mocked(captureFrame).mockResolvedValue(undefined);
+
+    const fs = await import('fs/promises');
+    vi.mocked(fs.mkdtemp).mockResolvedValue('/tmp/test');
+
+    const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await videoAction({ title: 'Same', outro: 'Same', fps: '1', cardSeconds: '1' });
+
+    const urls = vi.mocked(captureFrame).mock.calls.map(([{ url }]) => url);
+    expect(urls).toEqual(['http://localhost:3000/?ref=c1&title=Same', 'http://localhost:3000/?ref=c1']);
+    const cardCapture = vi.mocked(captureFrame).mock.calls[0][0].outputPath.replace('.partial', '');
+    // The intro is copied so the capture is still there to move into place for the outro
+    expect(fs.copyFile).toHaveBeenCalledWith(cardCapture, '/tmp/test/frame-000001.png');
+    expect(fs.rename).toHaveBeenCalledWith(cardCapture, '/tmp/test/frame-000003.png');
+    expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Saved video (3 frames @ 1 fps)'));
+
+    consoleLogSpy.mockRestore();
+  });
+
+  it('requires time sampling for an interval', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await videoAction({ interval: '1w' });
+
+    expect(consoleSpy).toHaveBeenCalledWith('--interval requires --sample-by time');
+    expect(process.exitCode).toBe(1);
+
+    consoleSpy.mockRestore();
+  });
+
+  it('validates the date range', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await videoAction({ since: '2024-02-01', until: '2024-01-01' });
+
+    expect(consoleSpy).toHaveBeenCalledWith('--since cannot be later than --until');
+    expect(process.exitCode).toBe(1);
+
+    consoleSpy.mockRestore();
+  });
+
+  it('samples commits by time within the date range and holds quiet stretches', async () => {
+    const day = 86_400_000;
+    vi.mocked(listCommitTimestamps).mockResolvedValue([
+      { hash: 'c1', timestamp: Date.UTC(2023, 11, 31) },
+      { hash: 'c2', timestamp: Date.UTC(2024, 0, 1) },
+      { hash: 'c3', timestamp: Date.UTC(2024, 0, 1) + day / 2 },
+      { hash: 'c4', timestamp: Date.UTC(2024, 0, 4) },
+      { hash: 'c5', timestamp: Date.UTC(2024, 0, 5) }
+    ]);
+
+    const git = await import('../../src/git');
+    const actualGit = await vi.importActual<typeof import('../../src/git')>('../../src/git');
+    vi.mocked(git.sampleCommits).mockImplementation(actualGit.sampleCommits);
+    vi.mocked(git.sampleCommitsByTime).mockImplementation(actualGit.sampleCommitsByTime);
+
+    const { startServer } = await import('@octotree/server');
+    const mockServer = {
+      address: () => ({ port: 3000 }),
+      close: vi.fn((cb?: (err?: Error | null) => void) => cb?.(null))
+    } as unknown as Awaited<ReturnType<typeof startServer>>;
+    vi.mocked(startServer).mockResolvedValue(mockServer);
+
+    const { setupBrowser, captureFrame } = await import('../../src/capture');
+    vi.mocked(setupBrowser).mockResolvedValue({
+      browser: { close: vi.fn().mockResolvedValue(undefined) } as any,
+      page: {} as any,
+      pages: [{} as any]
+    });
+    vi.mocked(captureFrame).mockResolvedValue(undefined);
+
+    const fs = await import('fs/promises');
+    vi.mocked(fs.mkdtemp).mockResolvedValue('/tmp/test');
+
+    const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await videoAction({ sampleBy: 'time', interval: '1d', since: '2024-01-01', until: '2024-01-04' });
+
+    expect(listCommitsForBranch).not.toHaveBeenCalled();
+    // One frame per day: c3 closes the first day, then holds through two quiet days before c4
+    const urls = vi.mocked(captureFrame).mock.calls.map(([{ url }]) => url);
+    expect(urls).toEqual(['http://localhost:3000/?ref=c3', 'http://localhost:3000/?ref=c4']);
+    expect(vi.mocked(fs.copyFile)).toHaveBeenCalledTimes(2);
+    expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Saved video (4 frames @ 10 fps)'));
+    expect(process.exitCode).toBe(0);
+
+    consoleLogSpy.mockRestore();
+  });
+
+  it('lists commits of the given revision range along first parents', async () => {
+    vi.mocked(listCommitsForBranch).mockResolvedValue([]);
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await videoAction({ ref: 'v1.0..release', firstParent: true });
+
+    expect(listCommitsForBranch).toHaveBeenCalledWith(expect.any(String), 'v1.0..release', { firstParent: true });
+    expect(consoleSpy).toHaveBeenCalledWith('No commits found in v1.0..release');
+    expect(process.exitCode).toBe(1);
+
+    consoleSpy.mockRestore();
+  });
+
+  it('lists only commits changing files below the root', async () => {
+    vi.mocked(listCommitsForBranch).mockResolvedValue([]);
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await videoAction({ root: 'packages/web' });
+
+    expect(listCommitsForBranch).toHaveBeenCalledWith(expect.any(String), 'HEAD', {
+      firstParent: false,
+      root: 'packages/web'
+    });
+    expect(consoleSpy).toHaveBeenCalledWith('No commits in HEAD change files below packages/web');
+    expect(process.exitCode).toBe(1);
+
+    consoleSpy.mockRestore();
+  });
+
+  it('captures frames on several pages and writes them in history order', async () => {
+    const { sampleCommits } = await import('../../src/git');
+    vi.mocked(sampleCommits).mockReturnValue(['c1', 'c2', 'c3']);
+
+    const { startServer } = await import('@octotree/server');
+    const mockServer = {
+      address: () => ({ port: 3000 }),
+      close: vi.fn((cb?: (err?: Error | null) => void) => cb?.(null))
+    } as unknown as Awaited<ReturnType<typeof startServer>>;
+    vi.mocked(startServer).mockResolvedValue(mockServer);
+
+    const pages = [{ id: 1 }, { id: 2 }];
+    const { setupBrowser, captureFrame } = await import('../../src/capture');
+    vi.mocked(setupBrowser).mockResolvedValue({
+      browser: { close: vi.fn().mockResolvedValue(undefined) } as any,
+      page: pages[0] as any,
+      pages: pages as any
+    });
+    // The first frame finishes last
+    vi.mocked(captureFrame).mockImplementation(
+      ({ url }) => new Promise((resolve) => setTimeout(resolve, url.endsWith('c1') ? 20 : 0))
+    );
+
+    const fs = await import('fs/promises');
+    vi.mocked(fs.mkdtemp).mockResolvedValue('/tmp/test');
+
+    const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await videoAction({ concurrency: '4' });
+
+    expect(setupBrowser).toHaveBeenCalledWith(expect.objectContaining({ pageCount: 3 }));
+    const capturedPages = vi.mocked(captureFrame).mock.calls.map(([{ page }]) => page);
+    expect(new Set(capturedPages)).toEqual(new Set(pages));
+    const captureLogs = consoleLogSpy.mock.calls.map(([message]) => String(message)).filter((message) =>
+      message.startsWith('Captured frame')
+    );
+    expect(captureLogs[captureLogs.length - 1]).toBe('Captured frame 3/3 (c1)');
+    const placed = vi.mocked(fs.rename).mock.calls.filter(([, target]) => String(target).includes('frame-'));
+    expect(placed).toEqual([
+      [expect.stringMatching(/^\/tmp\/test\/c1-[0-9a-f]{12}\.png$/), '/tmp/test/frame-000001.png'],
+      [expect.stringMatching(/^\/tmp\/test\/c2-[0-9a-f]{12}\.png$/), '/tmp/test/frame-000002.png'],
+      [expect.stringMatching(/^\/tmp\/test\/c3-[0-9a-f]{12}\.png$/), '/tmp/test/frame-000003.png']
+    ]);
+
+    consoleLogSpy.mockRestore();
+  });
+
+  it('validates concurrency', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await videoAction({ concurrency: '0' });
+
+    expect(consoleSpy).toHaveBeenCalledWith('--concurrency must be a positive integer');
+    expect(process.exitCode).toBe(1);
+
+    consoleSpy.mockRestore();
+  });
+
+  describe('with a work directory', () => {
+    const setUpCapture = async () => {
+      const { sampleCommits } = await import('../../src/git');
+      vi.mocked(sampleCommits).mockReturnValue(['c1', 'c2', 'c3']);
+
+      const { startServer } = await import('@octotree/server');
+      const mockServer = {
+        address: () => ({ port: 3000 }),
+        close: vi.fn((cb?: (err?: Error | null) => void) => cb?.(null))
+      } as unknown as Awaited<ReturnType<typeof startServer>>;
+      vi.mocked(startServer).mockResolvedValue(mockServer);
+
+      const { setupBrowser, captureFrame } = await import('../../src/capture');
+      vi.mocked(setupBrowser).mockResolvedValue({
+        browser: { close: vi.fn().mockResolvedValue(undefined) } as any,
+        page: {} as any,
+        pages: [{} as any]
+      });
+
+      const fs = await import('fs/promises');
+      vi.mocked(fs.mkdtemp).mockResolvedValue('/tmp/test');
+      return { fs, captureFrame };
+    };
+
+    it('reuses frames captured by an earlier run and copies them into place', async () => {
+      const { fs, captureFrame } = await setUpCapture();
+      // c2 was captured before the previous run stopped
+      vi.mocked(fs.access).mockImplementation((file) =>
+        /\/work\/c2-[0-9a-f]{12}\.png$/.test(String(file)) ? Promise.resolve() : Promise.reject(new Error('ENOENT'))
+      );
+      vi.mocked(captureFrame).mockResolvedValue(undefined);
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await videoAction({ workDir: '/work', keepFrames: true });
+
+      expect(fs.mkdir).toHaveBeenCalledWith('/work', { recursive: true });
+      expect(consoleLogSpy).toHaveBeenCalledWith('Reusing 1 of 3 frame(s) captured earlier in /work');
+      const urls = vi.mocked(captureFrame).mock.calls.map(([{ url }]) => url);
+      expect(urls).toEqual(['http://localhost:3000/?ref=c1', 'http://localhost:3000/?ref=c3']);
+      // Captures are written next to their final name and renamed once complete
+      const [{ outputPath }] = vi.mocked(captureFrame).mock.calls[0];
+      expect(outputPath).toMatch(/^\/work\/c1-[0-9a-f]{12}\.partial\.png$/);
+      expect(fs.rename).toHaveBeenCalledWith(outputPath, outputPath.replace('.partial', ''));
+      expect(vi.mocked(fs.copyFile).mock.calls.map(([, target]) => target)).toEqual([
+        '/tmp/test/frame-000001.png',
+        '/tmp/test/frame-000002.png',
+        '/tmp/test/frame-000003.png'
+      ]);
+      expect(fs.rm).not.toHaveBeenCalledWith(expect.stringMatching(/^\/work\//), expect.anything());
+
+      consoleLogSpy.mockRestore();
+    });
+
+    it('keys frames by the options that change how they look', async () => {
+      const { fs, captureFrame } = await setUpCapture();
+      vi.mocked(fs.access).mockRejectedValue(new Error('ENOENT'));
+      vi.mocked(captureFrame).mockResolvedValue(undefined);
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await videoAction({ workDir: '/work' });
+      await videoAction({ workDir: '/work', color: 'language' });
+
+      const outputs = vi.mocked(captureFrame).mock.calls.map(([{ outputPath }]) => outputPath);
+      expect(outputs).toHaveLength(6);
+      expect(new Set(outputs).size).toBe(6);
+
+      consoleLogSpy.mockRestore();
+    });
+
+    it('removes its frames once the video is complete and keeps them when frames were skipped', async () => {
+      const { fs, captureFrame } = await setUpCapture();
+      vi.mocked(fs.access).mockRejectedValue(new Error('ENOENT'));
+      vi.mocked(captureFrame).mockResolvedValue(undefined);
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await videoAction({ workDir: '/work' });
+      expect(fs.rm).toHaveBeenCalledWith(expect.stringMatching(/^\/work\/c1-/), { force: true });
+
+      vi.mocked(fs.rm).mockClear();
+      const { TimeoutError } = await import('puppeteer');
+      vi.mocked(captureFrame).mockImplementation(({ url }) =>
+        url.endsWith('c2') ? Promise.reject(new TimeoutError('Timed out')) : Promise.resolve()
+      );
+
+      await videoAction({ workDir: '/work' });
+
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        'Skipped 1 frame(s) due to timeouts; rerun with the same --work-dir to retry only those'
+      );
+      // Only the timed out frame's partial capture is removed, so the rerun starts it afresh
+      const removed = vi.mocked(fs.rm).mock.calls.filter(([target]) => String(target).startsWith('/work/'));
+      expect(removed).toHaveLength(1);
+      expect(removed[0]).toEqual([expect.stringMatching(/^\/work\/c2-[0-9a-f]{12}\.partial\.png$/), { force: true }]);
+
+      consoleLogSpy.mockRestore();
+      consoleWarnSpy.mockRestore();
+    });
+  });
+
+  it('keeps the temporary frames with --keep-frames', async () => {
+    const { sampleCommits } = await import('../../src/git');
+    vi.mocked(sampleCommits).mockReturnValue(['c1']);
+
+    const { startServer } = await import('@octotree/server');
+    const mockServer = {
+      address: () => ({ port: 3000 }),
+      close: vi.fn((cb?: (err?: Error | null) => void) => cb?.(null))
+    } as unknown as Awaited<ReturnType<typeof startServer>>;
+    vi.mocked(startServer).mockResolvedValue(mockServer);
+
+    const { setupBrowser, captureFrame } = await import('../../src/capture');
+    vi.mocked(setupBrowser).mockResolvedValue({
+      browser: { close: vi.fn().mockResolvedValue(undefined) } as any,
+      page: {} as any,
+      pages: [{} as any]
+    });
+    vi.mocked(captureFrame).mockResolvedValue(undefined);
+
+    const fs = await import('fs/promises');
+    vi.mocked(fs.mkdtemp).mockResolvedValue('/tmp/test');
+
+    const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await videoAction({ keepFrames: true });
+
+    expect(consoleLogSpy).toHaveBeenCalledWith('Kept frames in /tmp/test');
+    expect(fs.rm).not.toHaveBeenCalled();
+
+    consoleLogSpy.mockRestore();
+  });
+});
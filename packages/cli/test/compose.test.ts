@@ -0,0 +1,47 @@
+import fs from 'fs/promises';
+import { describe, expect, it, vi, beforeEach } from 'vitest';
+import { composeSideBySide, escapeHtml } from '../src/compose';
+
+vi.mock('fs/promises');
+
+describe('escapeHtml', () => {
+  it('escapes markup characters', () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+  });
+});
+
+describe('composeSideBySide', () => {
+  let mockPage: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fs.readFile).mockResolvedValue(Buffer.from('png'));
+    mockPage = {
+      setViewport: vi.fn().mockResolvedValue(undefined),
+      setContent: vi.fn().mockResolvedValue(undefined),
+      screenshot: vi.fn().mockResolvedValue(undefined)
+    };
+  });
+
+  it('renders the panels next to each other under the caption', async () => {
+    await composeSideBySide({
+      page: mockPage,
+      panels: [
+        { imagePath: '/tmp/base.png', label: 'base: v1' },
+        { imagePath: '/tmp/head.png', label: 'head: <main>' }
+      ],
+      caption: 'v1 → main',
+      panelWidth: 400,
+      panelHeight: 300,
+      captionHeight: 50,
+      outputPath: 'out.png'
+    });
+
+    expect(mockPage.setViewport).toHaveBeenCalledWith({ width: 800, height: 350, deviceScaleFactor: 2 });
+    const [html] = mockPage.setContent.mock.calls[0];
+    expect(html).toContain('<header>v1 → main</header>');
+    expect(html).toContain('head: &lt;main&gt;');
+    expect(html.match(/data:image\/png;base64,cG5n/g)).toHaveLength(2);
+    expect(mockPage.screenshot).toHaveBeenCalledWith({ path: 'out.png', type: 'png', fullPage: false });
+  });
+});
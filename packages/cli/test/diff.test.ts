@@ -0,0 +1,178 @@
+import fs from 'fs/promises';
+import http from 'http';
+import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
+import { captureDiff, formatDiffCaption } from '../src/diff';
+
+vi.mock('fs/promises');
+vi.mock('@octotree/server');
+vi.mock('@octotree/core', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@octotree/core')>()),
+  resolveGitRef: vi.fn()
+}));
+vi.mock('../src/capture');
+vi.mock('../src/screenshot');
+vi.mock('../src/compose');
+
+const summary = { added: 2, removed: 1, modified: 3, renamed: 0, unchanged: 5 };
+
+describe('formatDiffCaption', () => {
+  it('summarises the change counts between two refs', () => {
+    expect(formatDiffCaption('v1', 'main', summary)).toBe(
+      'v1 → main  ·  +2 added  −1 removed  ~3 modified  0 renamed'
+    );
+  });
+});
+
+describe('captureDiff', () => {
+  let mockServer: http.Server;
+  let mockPage: any;
+  let mockBrowser: any;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.mocked(fs.mkdir).mockResolvedValue(undefined);
+    vi.mocked(fs.mkdtemp).mockResolvedValue('/tmp/octo-tree-diff-123');
+    vi.mocked(fs.rm).mockResolvedValue(undefined);
+
+    mockPage = {};
+    mockBrowser = { close: vi.fn().mockResolvedValue(undefined) };
+    mockServer = {
+      address: () => ({ port: 4000 }),
+      close: vi.fn((callback?: (error?: Error | null) => void) => {
+        callback?.(null);
+        return {} as http.Server;
+      })
+    } as unknown as http.Server;
+
+    const { resolveGitRef } = await import('@octotree/core');
+    vi.mocked(resolveGitRef).mockResolvedValue({ treeHash: 'tree', commitHash: 'commit' });
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve({ summary }) })
+    );
+
+    const { startServer } = await import('@octotree/server');
+    vi.mocked(startServer).mockResolvedValue(mockServer);
+
+    const { setupBrowser, captureFrame } = await import('../src/capture');
+    vi.mocked(setupBrowser).mockResolvedValue({ browser: mockBrowser, page: mockPage });
+    vi.mocked(captureFrame).mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('captures the web overlay in overlay mode', async () => {
+    const { captureScreenshot } = await import('../src/screenshot');
+    const { composeSideBySide } = await import('../src/compose');
+
+    const result = await captureDiff({
+      repoPath: '/repo',
+      base: 'v1',
+      head: 'main',
+      mode: 'overlay',
+      width: 800,
+      height: 600,
+      requestedPort: 0,
+      outputPath: 'diff',
+      silent: true
+    });
+
+    expect(result).toBe('diff.png');
+    expect(captureScreenshot).toHaveBeenCalledWith(
+      expect.objectContaining({ base: 'v1', head: 'main', outputPath: 'diff.png', silent: true })
+    );
+    expect(composeSideBySide).not.toHaveBeenCalled();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('captures both refs and composes them in side-by-side mode', async () => {
+    const { captureFrame } = await import('../src/capture');
+    const { composeSideBySide } = await import('../src/compose');
+
+    await captureDiff({
+      repoPath: '/repo',
+      base: 'v1',
+      head: 'main',
+      mode: 'side-by-side',
+      width: 800,
+      height: 600,
+      requestedPort: 0,
+      outputPath: 'diff.png',
+      silent: true,
+      level: 2
+    });
+
+    expect(fetch).toHaveBeenCalledWith('http://localhost:4000/api/diff?base=v1&head=main');
+    expect(captureFrame).toHaveBeenCalledTimes(2);
+    expect(captureFrame).toHaveBeenNthCalledWith(1, {
+      page: mockPage,
+      url: 'http://localhost:4000/?ref=v1&level=2',
+      outputPath: '/tmp/octo-tree-diff-123/base.png'
+    });
+    expect(captureFrame).toHaveBeenNthCalledWith(2, {
+      page: mockPage,
+      url: 'http://localhost:4000/?ref=main&level=2',
+      outputPath: '/tmp/octo-tree-diff-123/head.png'
+    });
+    expect(composeSideBySide).toHaveBeenCalledWith(
+      expect.objectContaining({
+        page: mockPage,
+        caption: formatDiffCaption('v1', 'main', summary),
+        panelWidth: 800,
+        panelHeight: 600,
+        outputPath: 'diff.png'
+      })
+    );
+    expect(mockBrowser.close).toHaveBeenCalled();
+    expect(fs.rm).toHaveBeenCalledWith('/tmp/octo-tree-diff-123', { recursive: true, force: true });
+  });
+
+  it('rejects before starting the server when a ref does not resolve', async () => {
+    const { resolveGitRef } = await import('@octotree/core');
+    const { startServer } = await import('@octotree/server');
+    const { setupBrowser } = await import('../src/capture');
+    vi.mocked(resolveGitRef).mockRejectedValue(new Error('bad ref'));
+
+    await expect(
+      captureDiff({
+        repoPath: '/repo',
+        base: 'nope',
+        head: 'main',
+        mode: 'side-by-side',
+        width: 800,
+        height: 600,
+        requestedPort: 0,
+        outputPath: 'diff.png',
+        silent: true
+      })
+    ).rejects.toThrow('bad ref');
+    expect(startServer).not.toHaveBeenCalled();
+    expect(setupBrowser).not.toHaveBeenCalled();
+  });
+
+  it('reports the server error when the diff summary cannot be built', async () => {
+    const { setupBrowser } = await import('../src/capture');
+    vi.mocked(fetch).mockResolvedValue({
+      ok: false,
+      json: () => Promise.resolve({ error: 'Failed to diff repository trees' })
+    } as Response);
+
+    await expect(
+      captureDiff({
+        repoPath: '/repo',
+        base: 'v1',
+        head: 'main',
+        mode: 'side-by-side',
+        width: 800,
+        height: 600,
+        requestedPort: 0,
+        outputPath: 'diff.png',
+        silent: true
+      })
+    ).rejects.toThrow('Failed to diff repository trees');
+    expect(setupBrowser).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { sampleCommits } from '../src/git';
+import { sampleCommits, sampleCommitsByTime } from '../src/git';
 
 
 describe('sampleCommits', () => {
@@ -47,3 +47,38 @@ describe('sampleCommits', () => {
     expect(sampled[sampled.length - 1]).toBe('c9');
   });
 });
+
+describe('sampleCommitsByTime', () => {
+  const day = 86_400_000;
+
+  it('keeps the last commit of each interval', () => {
+    const commits = [
+      { hash: 'a', timestamp: 0 },
+      { hash: 'b', timestamp: day / 2 },
+      { hash: 'c', timestamp: day },
+      { hash: 'd', timestamp: day + 1 }
+    ];
+    expect(sampleCommitsByTime(commits, day)).toEqual(['b', 'd']);
+  });
+
+  it('repeats the previous commit through quiet intervals', () => {
+    const commits = [
+      { hash: 'a', timestamp: 0 },
+      { hash: 'b', timestamp: 3 * day }
+    ];
+    expect(sampleCommitsByTime(commits, day)).toEqual(['a', 'a', 'a', 'b']);
+  });
+
+  it('keeps commits dated before an earlier commit in the current interval', () => {
+    const commits = [
+      { hash: 'a', timestamp: 0 },
+      { hash: 'b', timestamp: 2 * day },
+      { hash: 'c', timestamp: day / 2 }
+    ];
+    expect(sampleCommitsByTime(commits, day)).toEqual(['a', 'a', 'c']);
+  });
+
+  it('handles no commits', () => {
+    expect(sampleCommitsByTime([], day)).toEqual([]);
+  });
+});
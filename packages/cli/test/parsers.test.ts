@@ -1,5 +1,18 @@
 import { describe, expect, it } from 'vitest';
-import { parseAspect, parseCommitBound, parseLevel, parseWidth } from '../src/parsers';
+import {
+  parseAspect,
+  parseColorMode,
+  parseCommitBound,
+  parseConcurrency,
+  parseDateBound,
+  parseDiffMode,
+  parseHighlight,
+  parseInterval,
+  parseLevel,
+  parseSampleMode,
+  parseTween,
+  parseWidth
+} from '../src/parsers';
 
 describe('parseWidth', () => {
   it('returns default width when value is undefined', () => {
@@ -138,3 +151,141 @@ describe('parseLevel', () => {
   });
 });
 
+describe('parseTween', () => {
+  it('returns empty object when value is undefined', () => {
+    expect(parseTween(undefined)).toEqual({});
+  });
+
+  it('parses non-negative integers', () => {
+    expect(parseTween('0')).toEqual({ value: 0 });
+    expect(parseTween('4')).toEqual({ value: 4 });
+  });
+
+  it('rejects empty, negative, fractional and non-numeric values', () => {
+    for (const value of ['', '-1', '2.5', 'abc']) {
+      expect(parseTween(value)).toEqual({ error: '--tween must be a non-negative integer' });
+    }
+  });
+});
+
+describe('parseConcurrency', () => {
+  it('returns empty object when value is undefined', () => {
+    expect(parseConcurrency(undefined)).toEqual({});
+  });
+
+  it('parses positive integers', () => {
+    expect(parseConcurrency('4')).toEqual({ value: 4 });
+  });
+
+  it('rejects zero, fractions and non-numeric values', () => {
+    for (const value of ['0', '1.5', '', 'many']) {
+      expect(parseConcurrency(value)).toEqual({ error: '--concurrency must be a positive integer' });
+    }
+  });
+});
+
+describe('parseSampleMode', () => {
+  it('defaults to sampling by commit', () => {
+    expect(parseSampleMode(undefined)).toEqual({ value: 'commits' });
+  });
+
+  it('accepts time, ignoring case', () => {
+    expect(parseSampleMode(' Time ')).toEqual({ value: 'time' });
+  });
+
+  it('rejects unknown modes', () => {
+    expect(parseSampleMode('date')).toEqual({ error: '--sample-by must be one of: commits, time' });
+  });
+});
+
+describe('parseInterval', () => {
+  it('returns empty object when value is undefined', () => {
+    expect(parseInterval(undefined)).toEqual({});
+  });
+
+  it('parses hours, days, weeks, months and years', () => {
+    expect(parseInterval('12h')).toEqual({ value: 12 * 3_600_000 });
+    expect(parseInterval('1d')).toEqual({ value: 86_400_000 });
+    expect(parseInterval('1w')).toEqual({ value: 7 * 86_400_000 });
+    expect(parseInterval('2mo')).toEqual({ value: 60 * 86_400_000 });
+    expect(parseInterval('0.5y')).toEqual({ value: 182.5 * 86_400_000 });
+  });
+
+  it('rejects missing or unknown units and zero', () => {
+    for (const value of ['7', '1m', '0d', 'weekly', '']) {
+      expect(parseInterval(value)).toEqual({
+        error: '--interval must be a positive number followed by one of: h, d, w, mo, y'
+      });
+    }
+  });
+});
+
+describe('parseDateBound', () => {
+  it('returns empty object when value is undefined', () => {
+    expect(parseDateBound(undefined, '--since')).toEqual({});
+  });
+
+  it('parses dates as UTC days and timestamps as given', () => {
+    expect(parseDateBound('2024-01-31', '--since')).toEqual({ value: Date.UTC(2024, 0, 31) });
+    expect(parseDateBound('2024-01-31T12:00:00Z', '--until')).toEqual({ value: Date.UTC(2024, 0, 31, 12) });
+  });
+
+  it('includes the whole day for --until dates', () => {
+    expect(parseDateBound('2024-01-31', '--until')).toEqual({ value: Date.UTC(2024, 1, 1) - 1 });
+  });
+
+  it('rejects values that are not dates', () => {
+    expect(parseDateBound('last week', '--until')).toEqual({
+      error: '--until must be a date such as 2024-01-31 or 2024-01-31T12:00:00Z'
+    });
+  });
+});
+
+describe('parseDiffMode', () => {
+  it('defaults to overlay when value is undefined', () => {
+    expect(parseDiffMode(undefined)).toEqual({ value: 'overlay' });
+  });
+
+  it('accepts supported modes', () => {
+    expect(parseDiffMode('overlay')).toEqual({ value: 'overlay' });
+    expect(parseDiffMode('side-by-side')).toEqual({ value: 'side-by-side' });
+  });
+
+  it('rejects unknown modes', () => {
+    expect(parseDiffMode('stacked')).toEqual({ error: '--mode must be one of: overlay, side-by-side' });
+  });
+});
+
+describe('parseColorMode', () => {
+  it('returns empty object when value is undefined', () => {
+    expect(parseColorMode(undefined)).toEqual({});
+  });
+
+  it('accepts supported modes case-insensitively', () => {
+    expect(parseColorMode('language')).toEqual({ value: 'language' });
+    expect(parseColorMode(' Churn ')).toEqual({ value: 'churn' });
+  });
+
+  it('rejects unknown modes', () => {
+    expect(parseColorMode('rainbow')).toEqual({
+      error: '--color must be one of: size, language, age, churn, author'
+    });
+  });
+});
+
+describe('parseHighlight', () => {
+  it('returns empty object for missing or blank values', () => {
+    expect(parseHighlight(undefined)).toEqual({});
+    expect(parseHighlight('  ')).toEqual({});
+  });
+
+  it('passes substrings and globs through trimmed', () => {
+    expect(parseHighlight(' src/*.ts ')).toEqual({ value: 'src/*.ts' });
+    expect(parseHighlight('README')).toEqual({ value: 'README' });
+  });
+
+  it('rejects invalid regular expressions', () => {
+    expect(parseHighlight('/^src\\//i')).toEqual({ value: '/^src\\//i' });
+    expect(parseHighlight('/([/').error).toMatch(/^--highlight is not a valid regular expression/);
+  });
+});
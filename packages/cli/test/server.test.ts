@@ -18,6 +18,26 @@ describe('buildClientUrl', () => {
     expect(url).toBe('http://localhost:3000/?level=5');
   });
 
+  it('appends the color mode', () => {
+    const url = buildClientUrl('http://localhost:3000', { ref: 'abc', color: 'language' });
+    expect(url).toBe('http://localhost:3000/?ref=abc&color=language');
+  });
+
+  it('appends the highlight pattern', () => {
+    const url = buildClientUrl('http://localhost:3000', { highlight: 'src/**/*.ts' });
+    expect(url).toBe('http://localhost:3000/?highlight=src%2F**%2F*.ts');
+  });
+
+  it('appends the tree to blend from with the blend amount', () => {
+    const url = buildClientUrl('http://localhost:3000', { ref: 'b', blendFrom: 'a', blend: 0.25 });
+    expect(url).toBe('http://localhost:3000/?ref=b&blendFrom=a&blend=0.25');
+  });
+
+  it('appends the commit overlay and title card', () => {
+    const url = buildClientUrl('http://localhost:3000', { ref: 'abc', overlay: true, title: 'Ten years' });
+    expect(url).toBe('http://localhost:3000/?ref=abc&overlay=true&title=Ten+years');
+  });
+
   it('omits parameters when not provided', () => {
     expect(buildClientUrl('http://localhost:3000', {})).toBe('http://localhost:3000/');
   });
@@ -31,6 +51,15 @@ describe('buildClientUrl', () => {
     const url = buildClientUrl('http://localhost:3000/path', { ref: 'abc' });
     expect(url).toBe('http://localhost:3000/path?ref=abc');
   });
+
+  it('appends base and head when both are provided', () => {
+    const url = buildClientUrl('http://localhost:3000', { base: 'v1', head: 'main' });
+    expect(url).toBe('http://localhost:3000/?base=v1&head=main');
+  });
+
+  it('ignores base without head', () => {
+    expect(buildClientUrl('http://localhost:3000', { base: 'v1' })).toBe('http://localhost:3000/');
+  });
 });
 
 describe('server helpers', () => {
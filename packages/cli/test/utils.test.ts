@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { ensureMp4Path, ensurePngPath } from '../src/utils';
+import { collectRepeatable, ensureMp4Path, ensurePngPath } from '../src/utils';
 
 describe('path helpers', () => {
   describe('ensurePngPath', () => {
@@ -36,3 +36,11 @@ describe('path helpers', () => {
     });
   });
 });
+
+describe('collectRepeatable', () => {
+  it('accumulates repeated option values in order', () => {
+    const first = collectRepeatable('src/**', undefined);
+    expect(first).toEqual(['src/**']);
+    expect(collectRepeatable('*.md', first)).toEqual(['src/**', '*.md']);
+  });
+});
@@ -1,7 +1,31 @@
 import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
 import { GitRepositoryError } from './types';
+import { createPathFilter, normalizeRootPath } from './path-filter';
+import type {
+  AuthorContribution,
+  ChurnMetrics,
+  CommitListOptions,
+  CommitSummary,
+  FileStatus,
+  RefSummary,
+  RepositoryRefs,
+  TimedCommit
+} from './types';
 
-export const runGitCommand = async (repoPath: string, args: string[]): Promise<string> => {
+export interface GitCommandOptions {
+  /** Written to the command's stdin */
+  input?: string;
+  /** Exit codes other than 0 that still indicate success */
+  allowedExitCodes?: number[];
+}
+
+export const runGitCommand = async (
+  repoPath: string,
+  args: string[],
+  { input, allowedExitCodes = [] }: GitCommandOptions = {}
+): Promise<string> => {
   return new Promise((resolve, reject) => {
     const child = spawn('git', args, { cwd: repoPath });
     let stdout = '';
@@ -22,7 +46,7 @@ export const runGitCommand = async (repoPath: string, args: string[]): Promise<s
     });
 
     child.on('close', (code) => {
-      if (code === 0) {
+      if (code === 0 || (code != null && allowedExitCodes.includes(code))) {
         resolve(stdout);
       } else {
         const error = new GitRepositoryError(
@@ -31,6 +55,10 @@ export const runGitCommand = async (repoPath: string, args: string[]): Promise<s
         reject(error);
       }
     });
+
+    if (input != null) {
+      child.stdin.end(input);
+    }
   });
 };
 
@@ -141,6 +169,35 @@ export const resolveGitRef = async (repoPath: string, ref: string): Promise<Reso
   throw new GitRepositoryError(`Unsupported git object type for ref ${ref}: ${objectType}`);
 };
 
+/**
+ * Throws a GitRepositoryError unless `rootPath` is a directory in the tree at `ref`, or on disk
+ * when `ref` is null, so a mistyped root fails instead of showing an empty tree.
+ */
+export const assertRootDirectory = async (
+  repoRoot: string,
+  ref: string | null,
+  rootPath: string
+): Promise<void> => {
+  let isDirectory = false;
+  if (ref == null) {
+    isDirectory = await fs.stat(path.join(repoRoot, rootPath)).then(
+      (stats) => stats.isDirectory(),
+      () => false
+    );
+  } else {
+    try {
+      isDirectory = (await runGitCommand(repoRoot, ['cat-file', '-t', `${ref}:${rootPath}`])).trim() === 'tree';
+    } catch (error) {
+      if (!(error instanceof GitRepositoryError)) {
+        throw error;
+      }
+    }
+  }
+  if (!isDirectory) {
+    throw new GitRepositoryError(`Root path is not a directory${ref == null ? '' : ` at ${ref}`}: ${rootPath}`);
+  }
+};
+
 export const listFilesAtTree = async (repoPath: string, treeHash: string): Promise<GitTreeEntry[]> => {
   const output = await runGitCommand(repoPath, [
     'ls-tree',
@@ -178,6 +235,215 @@ export const listFilesAtTree = async (repoPath: string, treeHash: string): Promi
   return entries;
 };
 
+export interface GitTreeChange {
+  status: 'added' | 'removed' | 'modified' | 'renamed';
+  path: string;
+  previousPath?: string;
+}
+
+/**
+ * Lists file-level changes between two tree-ish objects using `git diff-tree` with rename detection.
+ * Type changes are reported as modifications; copies are reported as additions.
+ */
+export const listTreeChanges = async (
+  repoPath: string,
+  baseTreeHash: string,
+  headTreeHash: string
+): Promise<GitTreeChange[]> => {
+  const output = await runGitCommand(repoPath, [
+    'diff-tree',
+    '-r',
+    '-M',
+    '--name-status',
+    baseTreeHash,
+    headTreeHash
+  ]);
+
+  const changes: GitTreeChange[] = [];
+
+  for (const line of output.split('\n')) {
+    const [rawStatus, firstPath, secondPath] = line.split('\t');
+    if (!rawStatus || !firstPath) {
+      continue;
+    }
+    switch (rawStatus[0]) {
+      case 'A':
+      case 'C':
+        changes.push({ status: 'added', path: secondPath ?? firstPath });
+        break;
+      case 'D':
+        changes.push({ status: 'removed', path: firstPath });
+        break;
+      case 'R':
+        if (secondPath) {
+          changes.push({ status: 'renamed', path: secondPath, previousPath: firstPath });
+        }
+        break;
+      default:
+        changes.push({ status: 'modified', path: firstPath });
+    }
+  }
+
+  return changes;
+};
+
+export interface GitBlobChange {
+  status: 'upserted' | 'removed';
+  path: string;
+  blobHash?: string;
+}
+
+// Gitlinks (submodules) are skipped by `listFilesAtTree`, so they count as absent here too
+const GITLINK_MODE = '160000';
+
+/**
+ * Lists file-level changes between two tree-ish objects from raw `git diff-tree` output,
+ * without rename detection. Additions, modifications and type changes to a blob are reported as
+ * upserts carrying the new blob hash.
+ */
+export const listTreeBlobChanges = async (
+  repoPath: string,
+  fromTreeHash: string,
+  toTreeHash: string
+): Promise<GitBlobChange[]> => {
+  const output = await runGitCommand(repoPath, ['diff-tree', '-r', '--no-renames', fromTreeHash, toTreeHash]);
+
+  const changes: GitBlobChange[] = [];
+
+  for (const line of output.split('\n')) {
+    const [meta, filePath] = line.split('\t');
+    if (!meta?.startsWith(':') || !filePath) {
+      continue;
+    }
+    const [, newMode, , newHash, status] = meta.slice(1).split(' ');
+    if (status === 'D' || newMode === GITLINK_MODE) {
+      changes.push({ status: 'removed', path: filePath });
+    } else {
+      changes.push({ status: 'upserted', path: filePath, blobHash: newHash });
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * Reads object sizes in one `git cat-file --batch-check` pass. Missing objects are omitted.
+ */
+export const readBlobSizes = async (repoPath: string, blobHashes: string[]): Promise<Map<string, number>> => {
+  const sizes = new Map<string, number>();
+  const uniqueHashes = [...new Set(blobHashes)];
+  if (uniqueHashes.length === 0) {
+    return sizes;
+  }
+
+  const output = await runGitCommand(repoPath, ['cat-file', '--batch-check'], {
+    input: `${uniqueHashes.join('\n')}\n`
+  });
+  for (const line of output.split('\n')) {
+    const [hash, type, sizeValue] = line.trim().split(' ');
+    if (type === 'missing' || !sizeValue) {
+      continue;
+    }
+    const size = Number.parseInt(sizeValue, 10);
+    sizes.set(hash, Number.isNaN(size) ? 0 : size);
+  }
+  return sizes;
+};
+
+/**
+ * Reads the `.gitattributes` file of each directory at a commit or tree. Existence is checked in
+ * one `git cat-file --batch-check` pass, so only files that exist are read. Returns contents by
+ * directory.
+ */
+export const readAttributeFilesAtRef = async (
+  repoPath: string,
+  ref: string,
+  directories: string[]
+): Promise<Map<string, string>> => {
+  const contents = new Map<string, string>();
+  const uniqueDirectories = [...new Set(directories)];
+  if (uniqueDirectories.length === 0) {
+    return contents;
+  }
+
+  const objectNames = uniqueDirectories.map((directory) =>
+    directory === '.' ? `${ref}:.gitattributes` : `${ref}:${directory}/.gitattributes`
+  );
+  const output = await runGitCommand(repoPath, ['cat-file', '--batch-check'], {
+    input: `${objectNames.join('\n')}\n`
+  });
+  // Output lines follow the input order, one per object name
+  const blobs = output
+    .split('\n')
+    .slice(0, uniqueDirectories.length)
+    .flatMap((line, index) => {
+      const [hash, type] = line.trim().split(' ');
+      return type === 'blob' ? [{ directory: uniqueDirectories[index], hash }] : [];
+    });
+
+  await Promise.all(
+    blobs.map(async ({ directory, hash }) => {
+      contents.set(directory, await runGitCommand(repoPath, ['cat-file', 'blob', hash]));
+    })
+  );
+  return contents;
+};
+
+/**
+ * Returns the subset of repository-relative paths excluded by gitignore rules. Tracked files
+ * are never reported, matching how `git ls-files` treats them.
+ */
+export const listIgnoredPaths = async (repoPath: string, paths: string[]): Promise<Set<string>> => {
+  if (paths.length === 0) {
+    return new Set();
+  }
+  // check-ignore exits with 1 when none of the paths are ignored
+  const output = await runGitCommand(repoPath, ['check-ignore', '-z', '--stdin'], {
+    input: `${paths.join('\u0000')}\u0000`,
+    allowedExitCodes: [1]
+  });
+  return new Set(output.split('\u0000').filter((ignoredPath) => ignoredPath.length > 0));
+};
+
+const resolveFileStatus = (indexCode: string, worktreeCode: string): FileStatus => {
+  if (indexCode === '?') {
+    return 'untracked';
+  }
+  if (indexCode === 'D' || worktreeCode === 'D') {
+    return 'deleted';
+  }
+  // Unmerged entries report a conflict code in the worktree column and count as modified
+  return worktreeCode === ' ' ? 'staged' : 'modified';
+};
+
+/**
+ * Reads `git status` for the working tree, listing every untracked file that is not ignored.
+ * Clean files are omitted.
+ */
+export const listWorkingTreeStatus = async (repoPath: string): Promise<Map<string, FileStatus>> => {
+  const output = await runGitCommand(repoPath, [
+    'status',
+    '--porcelain=v1',
+    '-z',
+    '--untracked-files=all'
+  ]);
+  const statuses = new Map<string, FileStatus>();
+  const entries = output.split('\u0000');
+  for (let index = 0; index < entries.length; index += 1) {
+    const entry = entries[index];
+    if (entry.length < 4) {
+      continue;
+    }
+    const indexCode = entry[0];
+    statuses.set(entry.slice(3), resolveFileStatus(indexCode, entry[1]));
+    // Renames and copies are followed by their source path, which is not a separate entry
+    if (indexCode === 'R' || indexCode === 'C') {
+      index += 1;
+    }
+  }
+  return statuses;
+};
+
 export const getCommitTimestampMs = async (repoPath: string, commitHash: string): Promise<number | null> => {
   try {
     const output = await runGitCommand(repoPath, ['show', '-s', '--format=%ct', commitHash]);
@@ -194,37 +460,319 @@ export const getCommitTimestampMs = async (repoPath: string, commitHash: string)
   }
 };
 
+/**
+ * Walks `git log --numstat` up to `ref` and accumulates per-file commit counts,
+ * line additions/removals and the most recent commit touching each path.
+ * Renames are not followed, so history is attributed to the path it was recorded under.
+ */
+export const collectFileChurn = async (
+  repoPath: string,
+  ref: string
+): Promise<Map<string, ChurnMetrics>> => {
+  const output = await runGitCommand(repoPath, [
+    'log',
+    '--numstat',
+    '--no-renames',
+    '--format=%x00%H%x09%ct',
+    ref,
+    '--'
+  ]);
+
+  const churnByPath = new Map<string, ChurnMetrics>();
+
+  for (const chunk of output.split('\u0000')) {
+    const lines = chunk.split('\n');
+    const [hash, rawTimestamp] = (lines[0] ?? '').trim().split('\t');
+    if (!hash) {
+      continue;
+    }
+    const seconds = Number.parseInt(rawTimestamp ?? '', 10);
+    const commit = { hash, timestamp: Number.isNaN(seconds) ? 0 : seconds * 1000 };
+
+    for (const line of lines.slice(1)) {
+      const [rawAdded, rawRemoved, filePath] = line.split('\t');
+      if (!filePath) {
+        continue;
+      }
+      // Binary files report "-" for both columns
+      const added = rawAdded === '-' ? 0 : Number.parseInt(rawAdded, 10) || 0;
+      const removed = rawRemoved === '-' ? 0 : Number.parseInt(rawRemoved, 10) || 0;
+
+      const existing = churnByPath.get(filePath);
+      if (existing) {
+        existing.commits += 1;
+        existing.linesAdded += added;
+        existing.linesRemoved += removed;
+      } else {
+        // git log lists newest commits first, so the first sighting is the last touch
+        churnByPath.set(filePath, {
+          commits: 1,
+          linesAdded: added,
+          linesRemoved: removed,
+          lastCommit: commit
+        });
+      }
+    }
+  }
+
+  return churnByPath;
+};
+
+/**
+ * Attributes commits up to `ref` to their authors per file, using `git log --name-only`.
+ * Authors are keyed by lower-cased email (names honour `.mailmap` through `%aN`/`%aE`).
+ */
+export const collectFileAuthorship = async (
+  repoPath: string,
+  ref: string
+): Promise<Map<string, AuthorContribution[]>> => {
+  const output = await runGitCommand(repoPath, [
+    'log',
+    '--name-only',
+    '--no-renames',
+    '--format=%x00%aN%x09%aE',
+    ref,
+    '--'
+  ]);
+
+  const authorsByPath = new Map<string, Map<string, AuthorContribution>>();
+
+  for (const chunk of output.split('\u0000')) {
+    const lines = chunk.split('\n');
+    const [name, email] = (lines[0] ?? '').trim().split('\t');
+    if (!name && !email) {
+      continue;
+    }
+    const authorKey = (email || name).toLowerCase();
+
+    for (const line of lines.slice(1)) {
+      const filePath = line.trim();
+      if (filePath.length === 0) {
+        continue;
+      }
+      let authors = authorsByPath.get(filePath);
+      if (!authors) {
+        authors = new Map();
+        authorsByPath.set(filePath, authors);
+      }
+      const existing = authors.get(authorKey);
+      if (existing) {
+        existing.commits += 1;
+      } else {
+        authors.set(authorKey, { name: name || email, email: email ?? '', commits: 1 });
+      }
+    }
+  }
+
+  const result = new Map<string, AuthorContribution[]>();
+  for (const [filePath, authors] of authorsByPath) {
+    result.set(filePath, Array.from(authors.values()));
+  }
+  return result;
+};
+
+const parseUnixSeconds = (value: string | undefined): number | null => {
+  const seconds = Number.parseInt(value ?? '', 10);
+  return Number.isNaN(seconds) ? null : seconds * 1000;
+};
+
+// Subjects may contain tabs, so they come last
+const COMMIT_SUMMARY_FORMAT = '--format=%H%x09%h%x09%ct%x09%aN%x09%s';
+
+const parseCommitSummary = (line: string): CommitSummary | null => {
+  const [hash, shortHash, rawTimestamp, author, ...subject] = line.split('\t');
+  if (!hash || !shortHash) {
+    return null;
+  }
+  return {
+    hash,
+    shortHash,
+    subject: subject.join('\t'),
+    author: author ?? '',
+    timestamp: parseUnixSeconds(rawTimestamp) ?? 0
+  };
+};
+
 export const collectGitStats = async (
   repoPath: string,
   ref: string
 ): Promise<import('./types').GitStats> => {
   try {
-    const [countOutput, timeOutput] = await Promise.all([
+    const [countOutput, commitOutput] = await Promise.all([
       runGitCommand(repoPath, ['rev-list', '--count', ref]).catch(() => ''),
-      runGitCommand(repoPath, ['show', '-s', '--format=%ct', ref]).catch(() => '')
+      runGitCommand(repoPath, ['show', '-s', COMMIT_SUMMARY_FORMAT, ref]).catch(() => '')
     ]);
 
     const totalCommits = countOutput ? Number.parseInt(countOutput.trim(), 10) : null;
-    const latestCommitTimestamp = timeOutput ? Number.parseInt(timeOutput.trim(), 10) * 1000 : null;
+    const latestCommit = parseCommitSummary(commitOutput.trim());
 
     return {
       totalCommits: totalCommits != null && Number.isFinite(totalCommits) ? totalCommits : null,
-      latestCommitTimestamp:
-        latestCommitTimestamp != null && Number.isFinite(latestCommitTimestamp)
-          ? latestCommitTimestamp
-          : null
+      latestCommitTimestamp: latestCommit?.timestamp || null,
+      latestCommit
     };
   } catch (error) {
     console.warn('Failed to collect git statistics:', error);
-    return { totalCommits: null, latestCommitTimestamp: null };
+    return { totalCommits: null, latestCommitTimestamp: null, latestCommit: null };
+  }
+};
+
+export const DEFAULT_RECENT_COMMIT_LIMIT = 20;
+
+/**
+ * Lists local branches, tags and the most recent commits reachable from HEAD. A repository
+ * without commits has no refs and no commits.
+ */
+export const listRepositoryRefs = async (
+  repoPath: string,
+  { commitLimit = DEFAULT_RECENT_COMMIT_LIMIT }: { commitLimit?: number } = {}
+): Promise<RepositoryRefs> => {
+  // symbolic-ref and rev-parse exit with 1 on a detached or unborn HEAD
+  const [headOutput, headCommit, refsOutput] = await Promise.all([
+    runGitCommand(repoPath, ['symbolic-ref', '--quiet', '--short', 'HEAD'], { allowedExitCodes: [1] }),
+    runGitCommand(repoPath, ['rev-parse', '--quiet', '--verify', 'HEAD^{commit}'], { allowedExitCodes: [1] }),
+    runGitCommand(repoPath, [
+      'for-each-ref',
+      '--sort=-creatordate',
+      // Ref names cannot contain tabs; `*objectname` is only set for annotated tags
+      '--format=%(refname)%09%(objectname)%09%(*objectname)%09%(creatordate:unix)',
+      'refs/heads',
+      'refs/tags'
+    ])
+  ]);
+
+  const branches: RefSummary[] = [];
+  const tags: RefSummary[] = [];
+  for (const line of refsOutput.split('\n')) {
+    const [refName, objectName, peeledName, rawTimestamp] = line.split('\t');
+    if (!refName || !objectName) {
+      continue;
+    }
+    const ref = { hash: peeledName || objectName, timestamp: parseUnixSeconds(rawTimestamp) };
+    if (refName.startsWith('refs/heads/')) {
+      branches.push({ name: refName.slice('refs/heads/'.length), ...ref });
+    } else if (refName.startsWith('refs/tags/')) {
+      tags.push({ name: refName.slice('refs/tags/'.length), ...ref });
+    }
+  }
+
+  const commits: CommitSummary[] = [];
+  if (headCommit.trim() && commitLimit > 0) {
+    const logOutput = await runGitCommand(repoPath, [
+      'log',
+      `--max-count=${commitLimit}`,
+      COMMIT_SUMMARY_FORMAT,
+      'HEAD',
+      '--'
+    ]);
+    for (const line of logOutput.split('\n')) {
+      const commit = parseCommitSummary(line);
+      if (commit) {
+        commits.push(commit);
+      }
+    }
+  }
+
+  return { head: headOutput.trim() || null, branches, tags, commits };
+};
+
+const revListArgs = (
+  revision: string,
+  { firstParent = false, root }: CommitListOptions,
+  flags: string[] = [],
+  command: 'rev-list' | 'log' = 'rev-list'
+): string[] => {
+  // Revisions come from users and URLs; one starting with a dash would be read as an option
+  if (revision.startsWith('-')) {
+    throw new GitRepositoryError(`Invalid revision: ${revision}`);
   }
+  // `:(top)` keeps the path repository-relative when git runs in a subdirectory
+  const rootPath = normalizeRootPath(root);
+  return [
+    command,
+    '--reverse',
+    ...flags,
+    ...(firstParent ? ['--first-parent'] : []),
+    revision,
+    '--',
+    ...(rootPath ? [`:(top)${rootPath}`] : [])
+  ];
 };
 
-export const listCommitsForBranch = async (repoPath: string): Promise<string[]> => {
-  const output = await runGitCommand(repoPath, ['rev-list', '--reverse', 'HEAD']);
+/**
+ * Runs `git rev-list` with `flags`, or when include or exclude patterns are given, `git log` with
+ * each commit's changed files, keeping the lines in `logFormat` of commits changing a matching
+ * file. Merges count the changes from their first parent.
+ */
+const readCommitList = async (
+  repoPath: string,
+  revision: string,
+  options: CommitListOptions,
+  flags: string[],
+  logFormat: string
+): Promise<string> => {
+  const filter = createPathFilter({
+    include: options.include,
+    narrowInclude: options.narrowInclude,
+    exclude: options.exclude
+  });
+  if (!filter) {
+    return runGitCommand(repoPath, revListArgs(revision, options, flags));
+  }
+  const output = await runGitCommand(repoPath, [
+    '-c',
+    'core.quotePath=false',
+    ...revListArgs(
+      revision,
+      options,
+      [`--format=%x00${logFormat}`, '--name-only', '--no-renames', '--diff-merges=first-parent'],
+      'log'
+    )
+  ]);
+  return output
+    .split('\0')
+    .slice(1)
+    .flatMap((record) => {
+      const [line, ...files] = record.split('\n');
+      return files.some((file) => file.length > 0 && filter(file)) ? [line] : [];
+    })
+    .join('\n');
+};
+
+/**
+ * Lists the commits reachable from `revision`, oldest first. The revision may be a ref or a
+ * range such as `v1.0..main`.
+ */
+export const listCommitsForBranch = async (
+  repoPath: string,
+  revision = 'HEAD',
+  options: CommitListOptions = {}
+): Promise<string[]> => {
+  const output = await readCommitList(repoPath, revision, options, [], '%H');
   return output
     .split('\n')
     .map((commit) => commit.trim())
     .filter((commit) => commit.length > 0);
 };
 
+/**
+ * Lists the same commits as `listCommitsForBranch` with their commit times. Times need not
+ * increase along the list, such as after a rebase.
+ */
+export const listCommitTimestamps = async (
+  repoPath: string,
+  revision = 'HEAD',
+  options: CommitListOptions = {}
+): Promise<TimedCommit[]> => {
+  const output = await readCommitList(repoPath, revision, options, ['--timestamp'], '%ct %H');
+  const commits: TimedCommit[] = [];
+  for (const line of output.split('\n')) {
+    const [rawTimestamp, hash] = line.trim().split(' ');
+    const timestamp = parseUnixSeconds(rawTimestamp);
+    if (hash && timestamp != null) {
+      commits.push({ hash, timestamp });
+    }
+  }
+  return commits;
+};
+
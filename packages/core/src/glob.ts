@@ -0,0 +1,32 @@
+/**
+ * Glob matching shared by the server's path filters and the web app's search box.
+ *
+ * This module must not import Node.js built-ins: the web package imports it directly
+ * from source so the browser bundle stays free of fs and child_process.
+ */
+
+const escapeRegExp = (value: string): string => value.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Converts a glob into a regular expression over repository-relative paths. `*` and `?` stay
+ * within one path segment, while `**` spans any number of segments.
+ */
+export const globToRegExp = (glob: string): RegExp => {
+  let source = '';
+  for (let index = 0; index < glob.length; index += 1) {
+    const char = glob[index];
+    if (char === '*' && glob[index + 1] === '*') {
+      const followedBySlash = glob[index + 2] === '/';
+      // `**/` may also match no directories at all
+      source += followedBySlash ? '(?:.*/)?' : '.*';
+      index += followedBySlash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
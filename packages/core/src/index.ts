@@ -1,10 +1,37 @@
 import { promises as fs } from 'fs';
 import path from 'path';
-import type { TreeNode, BuildTreeOptions } from './types';
+import type {
+  TreeNode,
+  BuildTreeOptions,
+  RepositoryTreeDiff,
+  TreeCache,
+  IncrementalTreeBuilder
+} from './types';
 import { GitRepositoryError } from './types';
-import { resolveRepoRoot } from './git';
-import { createDirectoryNode, sortChildrenRecursively, aggregateDirectoryMetadata } from './tree-node';
+import {
+  resolveRepoRoot,
+  resolveGitRef,
+  assertRootDirectory,
+  getCommitTimestampMs,
+  collectFileChurn,
+  collectFileAuthorship,
+  listWorkingTreeStatus,
+  type ResolvedRef
+} from './git';
+import {
+  createDirectoryNode,
+  sortChildrenRecursively,
+  aggregateDirectoryMetadata,
+  applyChurnMetrics,
+  aggregateAuthorship,
+  aggregateFileStatus
+} from './tree-node';
 import { buildTreeFromCommit, buildTreeFromWorkingTree } from './tree-builder';
+import { buildTreeDiff } from './tree-diff';
+import { resolveTreeCacheKey, restampTree } from './tree-cache';
+import { createIncrementalBuilder } from './tree-incremental';
+import { classifyTreeLanguages } from './languages';
+import { createPathFilter, normalizeRootPath, type PathFilterOptions } from './path-filter';
 
 const normalizeRepositoryPath = async (repoPath: string): Promise<string> => {
   const resolved = path.resolve(repoPath);
@@ -15,40 +42,139 @@ const normalizeRepositoryPath = async (repoPath: string): Promise<string> => {
   return resolved;
 };
 
-export const buildRepositoryTree = async ({
+// A tree rooted at a subdirectory is named after it rather than the repository
+const resolveRootName = (repoRoot: string, rootPath: string | null): string => {
+  return rootPath ? path.posix.basename(rootPath) : path.basename(repoRoot);
+};
+
+interface CacheLookup {
+  key: string;
+  commitTimestampMs: number | null;
+}
+
+// Unresolvable refs return null so the regular build reports the error or falls back
+const lookupCacheEntry = async (
+  repoRoot: string,
+  ref: string,
+  includeChurn: boolean,
+  includeAuthorship: boolean,
+  filters: PathFilterOptions
+): Promise<CacheLookup | null> => {
+  let resolved: ResolvedRef;
+  try {
+    resolved = await resolveGitRef(repoRoot, ref);
+  } catch (error) {
+    if (error instanceof GitRepositoryError) {
+      return null;
+    }
+    throw error;
+  }
+
+  const { treeHash, commitHash } = resolved;
+  const commitTimestampMs = commitHash
+    ? await getCommitTimestampMs(repoRoot, commitHash).catch(() => null)
+    : null;
+  // History metrics are skipped without a commit timestamp, so such builds match the plain tree
+  const hasHistory = commitTimestampMs != null;
+  const key = resolveTreeCacheKey({
+    treeHash,
+    commitHash,
+    includeChurn: hasHistory && includeChurn,
+    includeAuthorship: hasHistory && includeAuthorship,
+    ...filters
+  });
+  return { key, commitTimestampMs };
+};
+
+const writeCacheEntry = async (cache: TreeCache, key: string, tree: TreeNode): Promise<void> => {
+  try {
+    await cache.write(key, tree);
+  } catch {
+    // Ignore: a read-only or full cache directory must not fail the build
+  }
+};
+
+const buildUncachedTree = async ({
   repoPath,
   ref,
-  allowFallbackToWorkingTree = false
-}: BuildTreeOptions): Promise<TreeNode> => {
+  allowFallbackToWorkingTree = false,
+  workingTree = false,
+  includeUntracked = false,
+  includeChurn = false,
+  includeAuthorship = false,
+  root,
+  include,
+  narrowInclude,
+  exclude
+}: Omit<BuildTreeOptions, 'cache'>): Promise<TreeNode> => {
   const normalizedPath = await normalizeRepositoryPath(repoPath);
   const repoRoot = await resolveRepoRoot(normalizedPath);
-  const repoName = path.basename(repoRoot);
+  const rootPath = normalizeRootPath(root);
   const targetRef = ref ?? 'HEAD';
 
-  const relativeRootPath = '.';
-  const rootNode = createDirectoryNode(relativeRootPath, repoName, 0);
+  // Rooted trees keep repository-relative paths, so the root node carries the subdirectory path
+  const relativeRootPath = rootPath ?? '.';
+  const rootNode = createDirectoryNode(relativeRootPath, resolveRootName(repoRoot, rootPath), 0);
 
   const nodeMap = new Map<string, TreeNode>();
   const childIdMap = new Map<string, TreeNode>();
   nodeMap.set(relativeRootPath, rootNode);
   childIdMap.set(rootNode.id, rootNode);
 
+  // Filtering while inserting keeps excluded files out of every directory total below
+  const filter = createPathFilter({ root, include, narrowInclude, exclude });
   let commitTimestampMs: number | null = null;
-  try {
-    commitTimestampMs = await buildTreeFromCommit(repoRoot, rootNode, nodeMap, childIdMap, targetRef);
-  } catch (error) {
-    if (
-      !(error instanceof GitRepositoryError) ||
-      !allowFallbackToWorkingTree ||
-      targetRef !== 'HEAD'
-    ) {
-      throw error;
+  // Attributes are read at the built ref, or from disk for working tree builds
+  let attributesRef: string | null = null;
+  const statusByPath = includeUntracked ? await listWorkingTreeStatus(repoRoot) : undefined;
+  if (workingTree || includeUntracked) {
+    await buildTreeFromWorkingTree(repoRoot, rootNode, nodeMap, childIdMap, statusByPath, filter);
+  } else {
+    try {
+      commitTimestampMs = await buildTreeFromCommit(
+        repoRoot,
+        rootNode,
+        nodeMap,
+        childIdMap,
+        targetRef,
+        filter
+      );
+      attributesRef = targetRef;
+    } catch (error) {
+      if (
+        !(error instanceof GitRepositoryError) ||
+        !allowFallbackToWorkingTree ||
+        targetRef !== 'HEAD'
+      ) {
+        throw error;
+      }
+      await buildTreeFromWorkingTree(repoRoot, rootNode, nodeMap, childIdMap, undefined, filter);
     }
-    await buildTreeFromWorkingTree(repoRoot, rootNode, nodeMap, childIdMap);
+  }
+
+  // Checked against whatever the files came from, so a fallback to the working tree checks the disk
+  if (rootPath) {
+    await assertRootDirectory(repoRoot, attributesRef, rootPath);
+  }
+
+  // Churn and authorship need commit history, so both are skipped for bare tree hashes and working tree fallbacks
+  if (includeChurn && commitTimestampMs != null) {
+    const churnByPath = await collectFileChurn(repoRoot, targetRef);
+    applyChurnMetrics(nodeMap, churnByPath);
   }
 
   sortChildrenRecursively(rootNode);
   aggregateDirectoryMetadata(rootNode);
+  await classifyTreeLanguages(repoRoot, rootNode, attributesRef);
+
+  if (statusByPath) {
+    aggregateFileStatus(rootNode, statusByPath);
+  }
+
+  if (includeAuthorship && commitTimestampMs != null) {
+    const authorsByPath = await collectFileAuthorship(repoRoot, targetRef);
+    aggregateAuthorship(rootNode, authorsByPath);
+  }
 
   if (commitTimestampMs) {
     rootNode.mtimeMs = commitTimestampMs;
@@ -57,10 +183,122 @@ export const buildRepositoryTree = async ({
   return rootNode;
 };
 
+export const buildRepositoryTree = async (options: BuildTreeOptions): Promise<TreeNode> => {
+  const { cache, ...buildOptions } = options;
+  // Working tree builds have no tree hash to key the cache by
+  if (!cache || buildOptions.workingTree || buildOptions.includeUntracked) {
+    return buildUncachedTree(buildOptions);
+  }
+
+  const normalizedPath = await normalizeRepositoryPath(buildOptions.repoPath);
+  const repoRoot = await resolveRepoRoot(normalizedPath);
+  const lookup = await lookupCacheEntry(
+    repoRoot,
+    buildOptions.ref ?? 'HEAD',
+    buildOptions.includeChurn ?? false,
+    buildOptions.includeAuthorship ?? false,
+    {
+      root: buildOptions.root,
+      include: buildOptions.include,
+      narrowInclude: buildOptions.narrowInclude,
+      exclude: buildOptions.exclude
+    }
+  );
+  if (!lookup) {
+    return buildUncachedTree(buildOptions);
+  }
+
+  // The cache is an optimisation only: unreadable or unwritable entries fall through to a build
+  const cached = await cache.read(lookup.key).catch(() => null);
+  if (cached) {
+    return restampTree(
+      cached,
+      lookup.commitTimestampMs ?? 0,
+      resolveRootName(repoRoot, normalizeRootPath(buildOptions.root))
+    );
+  }
+
+  const tree = await buildUncachedTree(buildOptions);
+  await writeCacheEntry(cache, lookup.key, tree);
+  return tree;
+};
+
+export const diffRepositoryTrees = async (
+  repoPath: string,
+  baseRef: string,
+  headRef: string,
+  { cache, ...filters }: Pick<BuildTreeOptions, 'cache'> & PathFilterOptions = {}
+): Promise<RepositoryTreeDiff> => {
+  return buildTreeDiff(
+    repoPath,
+    baseRef,
+    headRef,
+    (options) => buildRepositoryTree({ ...options, cache, ...filters }),
+    createPathFilter(filters)
+  );
+};
+
+export const createIncrementalTreeBuilder = (options: {
+  repoPath: string;
+  cache?: TreeCache;
+  root?: string;
+  include?: string[];
+  exclude?: string[];
+}): IncrementalTreeBuilder => {
+  return createIncrementalBuilder(options, buildRepositoryTree);
+};
+
 // Re-export types and error for convenience
-export type { TreeNode, BuildTreeOptions, NodeType, GitStats, RepositoryTree } from './types';
+export type {
+  TreeNode,
+  BuildTreeOptions,
+  NodeType,
+  GitStats,
+  RepositoryTree,
+  ChurnMetrics,
+  CommitReference,
+  AuthorContribution,
+  AuthorshipMetrics,
+  ChangeStatus,
+  NodeChange,
+  TreeDiffSummary,
+  RepositoryTreeDiff,
+  TreeCache,
+  TreeCacheOptions,
+  IncrementalTreeBuilder,
+  FileStatus,
+  LanguageStats,
+  RefSummary,
+  CommitSummary,
+  CommitListOptions,
+  TimedCommit,
+  RepositoryRefs
+} from './types';
 export { GitRepositoryError } from './types';
-export { collectGitStats, listCommitsForBranch } from './git';
+export {
+  collectGitStats,
+  listCommitsForBranch,
+  listCommitTimestamps,
+  collectFileChurn,
+  collectFileAuthorship,
+  listIgnoredPaths,
+  listWorkingTreeStatus,
+  listRepositoryRefs,
+  resolveRepoRoot,
+  resolveGitRef,
+  DEFAULT_RECENT_COMMIT_LIMIT
+} from './git';
+export type { ResolvedRef } from './git';
+export {
+  createTreeCache,
+  resolveDefaultCacheDirectory,
+  DEFAULT_TREE_CACHE_MAX_ENTRIES,
+  DEFAULT_TREE_CACHE_MAX_BYTES
+} from './tree-cache';
+export { createPathFilter, normalizeRootPath } from './path-filter';
+export { globToRegExp } from './glob';
+export { detectLanguage, summarizeLanguages } from './languages';
+export type { PathFilter, PathFilterOptions } from './path-filter';
 export {
   RADIAL_TREE_CONTAINER,
   RADIAL_TREE_LINK_CLASS,
@@ -68,5 +306,10 @@ export {
   RADIAL_TREE_LINKS_CLASS,
   RADIAL_TREE_TOOLTIP_CLASS,
   RADIAL_TREE_SVG_SELECTOR,
-  RADIAL_TREE_LINK_SELECTOR
+  RADIAL_TREE_LINK_SELECTOR,
+  RADIAL_TREE_RENDERED_ATTRIBUTE,
+  RADIAL_TREE_CANVAS_SELECTOR,
+  RADIAL_TREE_RENDERED_SELECTOR,
+  RADIAL_TREE_COLOR_MODES
 } from './selectors';
+export type { RadialTreeColorMode } from './selectors';
@@ -0,0 +1,306 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { LanguageStats, TreeNode } from './types';
+import { readAttributeFilesAtRef } from './git';
+import { globToRegExp } from './glob';
+
+const LANGUAGES_BY_FILENAME: Record<string, string> = {
+  'CMakeLists.txt': 'CMake',
+  Dockerfile: 'Dockerfile',
+  Gemfile: 'Ruby',
+  GNUmakefile: 'Makefile',
+  Jenkinsfile: 'Groovy',
+  Makefile: 'Makefile',
+  Rakefile: 'Ruby',
+  makefile: 'Makefile'
+};
+
+const LANGUAGES_BY_EXTENSION: Record<string, string> = {
+  bash: 'Shell',
+  c: 'C',
+  cc: 'C++',
+  cjs: 'JavaScript',
+  clj: 'Clojure',
+  cmake: 'CMake',
+  cpp: 'C++',
+  cs: 'C#',
+  css: 'CSS',
+  cxx: 'C++',
+  dart: 'Dart',
+  dockerfile: 'Dockerfile',
+  ex: 'Elixir',
+  exs: 'Elixir',
+  erl: 'Erlang',
+  fs: 'F#',
+  go: 'Go',
+  gradle: 'Groovy',
+  graphql: 'GraphQL',
+  groovy: 'Groovy',
+  h: 'C',
+  hpp: 'C++',
+  hs: 'Haskell',
+  htm: 'HTML',
+  html: 'HTML',
+  java: 'Java',
+  js: 'JavaScript',
+  json: 'JSON',
+  jsx: 'JavaScript',
+  kt: 'Kotlin',
+  kts: 'Kotlin',
+  less: 'Less',
+  lua: 'Lua',
+  m: 'Objective-C',
+  md: 'Markdown',
+  mdx: 'MDX',
+  mjs: 'JavaScript',
+  ml: 'OCaml',
+  mm: 'Objective-C++',
+  php: 'PHP',
+  pl: 'Perl',
+  proto: 'Protocol Buffer',
+  ps1: 'PowerShell',
+  py: 'Python',
+  r: 'R',
+  rb: 'Ruby',
+  rs: 'Rust',
+  sass: 'Sass',
+  scala: 'Scala',
+  scss: 'SCSS',
+  sh: 'Shell',
+  sql: 'SQL',
+  svelte: 'Svelte',
+  swift: 'Swift',
+  tf: 'HCL',
+  toml: 'TOML',
+  ts: 'TypeScript',
+  tsx: 'TSX',
+  vue: 'Vue',
+  xml: 'XML',
+  yaml: 'YAML',
+  yml: 'YAML',
+  zig: 'Zig',
+  zsh: 'Shell'
+};
+
+/**
+ * Detects a file's language from its name, then its extension. Returns null when unknown.
+ */
+export const detectLanguage = (relativePath: string): string | null => {
+  const fileName = path.posix.basename(relativePath);
+  const byName = LANGUAGES_BY_FILENAME[fileName];
+  if (byName) {
+    return byName;
+  }
+  const extension = path.posix.extname(fileName).slice(1).toLowerCase();
+  return (extension && LANGUAGES_BY_EXTENSION[extension]) || null;
+};
+
+interface LinguistAttributes {
+  language?: string | null;
+  vendored?: boolean;
+  generated?: boolean;
+}
+
+interface AttributeRule {
+  matches: (relativePath: string) => boolean;
+  attributes: LinguistAttributes;
+}
+
+// `attr` and `attr=true` set a flag, `-attr` and `attr=false` clear it, `!attr` unspecifies it
+const parseFlag = (token: string, name: string): boolean | null | undefined => {
+  if (token === name || token === `${name}=true`) {
+    return true;
+  }
+  if (token === `-${name}` || token === `${name}=false`) {
+    return false;
+  }
+  return token === `!${name}` ? null : undefined;
+};
+
+const parseAttributes = (tokens: string[]): LinguistAttributes | null => {
+  const attributes: LinguistAttributes = {};
+  let found = false;
+  for (const token of tokens) {
+    if (token.startsWith('linguist-language=')) {
+      attributes.language = token.slice('linguist-language='.length) || null;
+      found = true;
+    } else if (token === '-linguist-language' || token === '!linguist-language') {
+      attributes.language = null;
+      found = true;
+    }
+    for (const name of ['vendored', 'generated'] as const) {
+      const flag = parseFlag(token, `linguist-${name}`);
+      if (flag !== undefined) {
+        attributes[name] = flag ?? false;
+        found = true;
+      }
+    }
+  }
+  return found ? attributes : null;
+};
+
+/**
+ * Parses the linguist attributes of one `.gitattributes` file. Patterns without a slash match
+ * file names at any depth below `directory`; others are anchored to it. Unlike gitignore, a
+ * pattern matching a directory does not apply to the files inside it.
+ */
+export const parseGitAttributes = (content: string, directory: string): AttributeRule[] => {
+  const prefix = directory === '.' ? '' : `${directory}/`;
+  const rules: AttributeRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line.length === 0 || line.startsWith('#')) {
+      continue;
+    }
+    const [pattern, ...tokens] = line.split(/\s+/);
+    // Negative patterns are forbidden in gitattributes and trailing slashes never match files
+    if (pattern.startsWith('!') || pattern.endsWith('/')) {
+      continue;
+    }
+    const attributes = parseAttributes(tokens);
+    if (!attributes) {
+      continue;
+    }
+    const anchored = pattern.includes('/');
+    const expression = globToRegExp(anchored ? pattern.replace(/^\/+/, '') : pattern);
+    rules.push({
+      matches: (relativePath) => {
+        if (!relativePath.startsWith(prefix)) {
+          return false;
+        }
+        const candidate = relativePath.slice(prefix.length);
+        return expression.test(anchored ? candidate : path.posix.basename(candidate));
+      },
+      attributes
+    });
+  }
+  return rules;
+};
+
+const resolveAttributes = (rules: AttributeRule[], relativePath: string): LinguistAttributes => {
+  const resolved: LinguistAttributes = {};
+  for (const rule of rules) {
+    if (rule.matches(relativePath)) {
+      Object.assign(resolved, rule.attributes);
+    }
+  }
+  return resolved;
+};
+
+const listDirectories = (node: TreeNode, directories: string[]): string[] => {
+  if (node.type === 'directory') {
+    directories.push(node.relativePath);
+    node.children.forEach((child) => listDirectories(child, directories));
+  }
+  return directories;
+};
+
+// A tree rooted at a subdirectory still honours the attributes of the directories above it
+const listAncestorDirectories = (relativePath: string): string[] => {
+  if (relativePath === '.') {
+    return [];
+  }
+  const segments = relativePath.split('/');
+  return ['.', ...segments.slice(0, -1).map((_, index) => segments.slice(0, index + 1).join('/'))];
+};
+
+const readAttributeFilesOnDisk = async (
+  repoRoot: string,
+  directories: string[]
+): Promise<Map<string, string>> => {
+  const contents = await Promise.all(
+    directories.map(async (directory) => {
+      try {
+        return [directory, await fs.readFile(path.join(repoRoot, directory, '.gitattributes'), 'utf8')];
+      } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        if (code === 'ENOENT' || code === 'ENOTDIR' || code === 'EISDIR') {
+          return null;
+        }
+        throw error;
+      }
+    })
+  );
+  return new Map(contents.filter((entry): entry is [string, string] => entry !== null));
+};
+
+/**
+ * Applies linguist attributes to every file node: `language` from `linguist-language` or the
+ * file name, plus `vendored` and `generated` flags. Deeper `.gitattributes` files win over
+ * shallower ones and later lines over earlier ones.
+ */
+export const applyLanguages = (rootNode: TreeNode, attributeFiles: Map<string, string>): void => {
+  const directories = [...attributeFiles.keys()].sort(
+    (a, b) => (a === '.' ? 0 : a.split('/').length) - (b === '.' ? 0 : b.split('/').length)
+  );
+  const rules = directories.flatMap((directory) =>
+    parseGitAttributes(attributeFiles.get(directory) ?? '', directory)
+  );
+
+  const walk = (node: TreeNode): void => {
+    if (node.type === 'directory') {
+      node.children.forEach(walk);
+      return;
+    }
+    // Incremental builds re-classify copies of earlier trees, so stale tags are cleared first
+    delete node.language;
+    delete node.vendored;
+    delete node.generated;
+    const attributes = rules.length > 0 ? resolveAttributes(rules, node.relativePath) : {};
+    const language = attributes.language ?? detectLanguage(node.relativePath);
+    if (language) {
+      node.language = language;
+    }
+    if (attributes.vendored) {
+      node.vendored = true;
+    }
+    if (attributes.generated) {
+      node.generated = true;
+    }
+  };
+  walk(rootNode);
+};
+
+/**
+ * Reads the `.gitattributes` files of every directory in the tree, at `ref` or on disk when
+ * `ref` is null, and tags the file nodes with their language.
+ */
+export const classifyTreeLanguages = async (
+  repoRoot: string,
+  rootNode: TreeNode,
+  ref: string | null
+): Promise<void> => {
+  const directories = [
+    ...listAncestorDirectories(rootNode.relativePath),
+    ...listDirectories(rootNode, [])
+  ];
+  const attributeFiles = ref
+    ? await readAttributeFilesAtRef(repoRoot, ref, directories)
+    : await readAttributeFilesOnDisk(repoRoot, directories);
+  applyLanguages(rootNode, attributeFiles);
+};
+
+/**
+ * Totals files and bytes per language, largest first. Vendored, generated and unclassified
+ * files are left out, as on GitHub.
+ */
+export const summarizeLanguages = (tree: TreeNode): LanguageStats[] => {
+  const totals = new Map<string, LanguageStats>();
+  const walk = (node: TreeNode): void => {
+    if (node.type === 'directory') {
+      node.children.forEach(walk);
+      return;
+    }
+    if (!node.language || node.vendored || node.generated) {
+      return;
+    }
+    const entry = totals.get(node.language) ?? { language: node.language, files: 0, bytes: 0 };
+    entry.files += 1;
+    entry.bytes += node.size;
+    totals.set(node.language, entry);
+  };
+  walk(tree);
+  return [...totals.values()].sort(
+    (a, b) => b.bytes - a.bytes || b.files - a.files || a.language.localeCompare(b.language)
+  );
+};
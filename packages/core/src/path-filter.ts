@@ -0,0 +1,115 @@
+import { createHash } from 'crypto';
+import type { BuildTreeOptions } from './types';
+import { GitRepositoryError } from './types';
+import { globToRegExp } from './glob';
+
+export type PathFilterOptions = Pick<BuildTreeOptions, 'root' | 'include' | 'narrowInclude' | 'exclude'>;
+
+/**
+ * Decides whether a repository-relative file path is kept in the tree.
+ */
+export type PathFilter = (relativePath: string) => boolean;
+
+type PathMatcher = (relativePath: string) => boolean;
+
+/**
+ * Normalizes a subtree root to a repository-relative directory path without leading or trailing
+ * slashes. Returns null for the repository root itself.
+ */
+export const normalizeRootPath = (root: string | undefined): string | null => {
+  const segments = (root ?? '')
+    .trim()
+    .split(/[\\/]+/)
+    .filter((segment) => segment.length > 0 && segment !== '.');
+  if (segments.includes('..')) {
+    throw new GitRepositoryError(`Root path must stay inside the repository: ${root}`);
+  }
+  return segments.length > 0 ? segments.join('/') : null;
+};
+
+const listAncestorDirectories = (relativePath: string): string[] => {
+  const segments = relativePath.split('/');
+  return segments.slice(0, -1).map((_, index) => segments.slice(0, index + 1).join('/'));
+};
+
+/**
+ * Compiles a pattern with gitignore semantics: patterns without a slash match at any depth, a
+ * leading or inner slash anchors the pattern to the repository root, a trailing slash only
+ * matches directories, and matching a directory matches every file below it.
+ */
+const compilePattern = (pattern: string): PathMatcher | null => {
+  let body = pattern.trim();
+  const directoryOnly = body.endsWith('/');
+  body = body.replace(/\/+$/, '');
+  if (body.length === 0) {
+    return null;
+  }
+  const anchored = body.includes('/');
+  body = body.replace(/^\/+/, '');
+  const expression = globToRegExp(anchored ? body : `**/${body}`);
+
+  return (relativePath) => {
+    const candidates = listAncestorDirectories(relativePath);
+    if (!directoryOnly) {
+      candidates.push(relativePath);
+    }
+    return candidates.some((candidate) => expression.test(candidate));
+  };
+};
+
+const compilePatterns = (patterns: string[] | undefined): PathMatcher[] => {
+  return (patterns ?? [])
+    .map(compilePattern)
+    .filter((matcher): matcher is PathMatcher => matcher !== null);
+};
+
+/**
+ * Keeps files below `root` that match any include pattern (or every file when there are none)
+ * and any narrowing include pattern, unless they match an exclude pattern. Patterns stay
+ * relative to the repository root. Returns null when nothing is filtered so callers can skip
+ * filtering.
+ */
+export const createPathFilter = ({ root, include, narrowInclude, exclude }: PathFilterOptions): PathFilter | null => {
+  const rootPath = normalizeRootPath(root);
+  const rootPrefix = rootPath ? `${rootPath}/` : null;
+  const includeMatcherSets = [compilePatterns(include), compilePatterns(narrowInclude)].filter(
+    (matchers) => matchers.length > 0
+  );
+  const excludeMatchers = compilePatterns(exclude);
+  if (!rootPrefix && includeMatcherSets.length === 0 && excludeMatchers.length === 0) {
+    return null;
+  }
+  return (relativePath) =>
+    (!rootPrefix || relativePath.startsWith(rootPrefix)) &&
+    includeMatcherSets.every((matchers) => matchers.some((matches) => matches(relativePath))) &&
+    !excludeMatchers.some((matches) => matches(relativePath));
+};
+
+/**
+ * Returns a short stable digest of the root and patterns, or null when nothing is filtered.
+ */
+export const resolvePathFilterKey = ({ root, include, narrowInclude, exclude }: PathFilterOptions): string | null => {
+  const normalize = (patterns: string[] | undefined) =>
+    (patterns ?? []).map((pattern) => pattern.trim()).filter((pattern) => pattern.length > 0);
+  const rootPath = normalizeRootPath(root);
+  const normalizedInclude = normalize(include);
+  const normalizedNarrowInclude = normalize(narrowInclude);
+  const normalizedExclude = normalize(exclude);
+  if (
+    !rootPath &&
+    normalizedInclude.length === 0 &&
+    normalizedNarrowInclude.length === 0 &&
+    normalizedExclude.length === 0
+  ) {
+    return null;
+  }
+  // Narrowing patterns are only added to the digest when present, so existing keys stay valid
+  const parts: unknown[] = [rootPath, normalizedInclude, normalizedExclude];
+  if (normalizedNarrowInclude.length > 0) {
+    parts.push(normalizedNarrowInclude);
+  }
+  return createHash('sha1')
+    .update(JSON.stringify(parts))
+    .digest('hex')
+    .slice(0, 12);
+};
@@ -1,6 +1,6 @@
 import { promises as fs } from 'fs';
 import path from 'path';
-import type { TreeNode } from './types';
+import type { FileStatus, TreeNode } from './types';
 import { listGitManagedFiles, resolveGitRef, listFilesAtTree, getCommitTimestampMs } from './git';
 import {
   joinRelative,
@@ -8,8 +8,9 @@ import {
   createFileNode,
   ensureChild
 } from './tree-node';
+import type { PathFilter } from './path-filter';
 
-const insertFileNode = (
+export const insertFileNode = (
   rootNode: TreeNode,
   nodeMap: Map<string, TreeNode>,
   childIdMap: Map<string, TreeNode>,
@@ -17,8 +18,10 @@ const insertFileNode = (
   size: number,
   mtimeMs: number
 ): void => {
-  const segments = gitPath.split('/');
-  let currentPath = '.';
+  // A tree rooted at a subdirectory only gets the segments below its root
+  const rootPath = rootNode.relativePath;
+  const segments = (rootPath === '.' ? gitPath : gitPath.slice(rootPath.length + 1)).split('/');
+  let currentPath = rootPath;
   let parentNode = rootNode;
 
   for (let index = 0; index < segments.length; index += 1) {
@@ -47,20 +50,30 @@ export const buildTreeFromWorkingTree = async (
   repoRoot: string,
   rootNode: TreeNode,
   nodeMap: Map<string, TreeNode>,
-  childIdMap: Map<string, TreeNode>
+  childIdMap: Map<string, TreeNode>,
+  statusByPath?: Map<string, FileStatus>,
+  filter?: PathFilter | null
 ): Promise<void> => {
   const gitManagedFiles = await listGitManagedFiles(repoRoot);
+  // Untracked files and staged deletions are only known from `git status`
+  const candidatePaths = statusByPath
+    ? Array.from(new Set([...gitManagedFiles, ...statusByPath.keys()]))
+    : gitManagedFiles;
+  const filePaths = filter ? candidatePaths.filter(filter) : candidatePaths;
 
   // Collect file stats first, then build tree structure
   const fileStats = await Promise.all(
-    gitManagedFiles.map(async (gitPath) => {
+    filePaths.map(async (gitPath) => {
       const absoluteFilePath = path.join(repoRoot, gitPath);
       try {
         const stats = await fs.stat(absoluteFilePath);
         return { gitPath, stats };
       } catch (error) {
         if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-          return null;
+          // Deleted files stay in the tree with a size of zero so they can be drawn
+          return statusByPath?.get(gitPath) === 'deleted'
+            ? { gitPath, stats: { size: 0, mtimeMs: 0 } }
+            : null;
         }
         throw error;
       }
@@ -71,36 +84,7 @@ export const buildTreeFromWorkingTree = async (
   for (const entry of fileStats) {
     if (!entry) continue;
     const { gitPath, stats } = entry;
-    const segments = gitPath.split('/');
-    let currentPath = '.';
-    let parentNode = rootNode;
-
-    for (let index = 0; index < segments.length; index += 1) {
-      const segment = segments[index];
-      const isLeaf = index === segments.length - 1;
-      const nextPath = joinRelative(currentPath, segment);
-
-      if (isLeaf) {
-        const fileNode = createFileNode(
-          nextPath,
-          segment,
-          parentNode.depth + 1,
-          stats.size,
-          stats.mtimeMs
-        );
-        nodeMap.set(nextPath, fileNode);
-        ensureChild(parentNode, fileNode, childIdMap);
-      } else {
-        let directoryNode = nodeMap.get(nextPath);
-        if (!directoryNode) {
-          directoryNode = createDirectoryNode(nextPath, segment, parentNode.depth + 1, stats.mtimeMs);
-          nodeMap.set(nextPath, directoryNode);
-          ensureChild(parentNode, directoryNode, childIdMap);
-        }
-        parentNode = directoryNode;
-        currentPath = nextPath;
-      }
-    }
+    insertFileNode(rootNode, nodeMap, childIdMap, gitPath, stats.size, stats.mtimeMs);
   }
 };
 
@@ -109,7 +93,8 @@ export const buildTreeFromCommit = async (
   rootNode: TreeNode,
   nodeMap: Map<string, TreeNode>,
   childIdMap: Map<string, TreeNode>,
-  ref: string
+  ref: string,
+  filter?: PathFilter | null
 ): Promise<number | null> => {
   const { treeHash, commitHash } = await resolveGitRef(repoRoot, ref);
   
@@ -122,6 +107,9 @@ export const buildTreeFromCommit = async (
   const mtimeMs = commitTimestampMs ?? 0;
 
   for (const entry of entries) {
+    if (filter && !filter(entry.path)) {
+      continue;
+    }
     insertFileNode(rootNode, nodeMap, childIdMap, entry.path, entry.size, mtimeMs);
   }
   return commitTimestampMs ?? null;
@@ -0,0 +1,213 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { TreeCache, TreeCacheOptions, TreeNode } from './types';
+import { GitRepositoryError } from './types';
+import { runGitCommand } from './git';
+import { resolvePathFilterKey, type PathFilterOptions } from './path-filter';
+
+export const DEFAULT_TREE_CACHE_MAX_ENTRIES = 1000;
+export const DEFAULT_TREE_CACHE_MAX_BYTES = 512 * 1024 * 1024;
+
+// Bump when the serialized tree shape changes so stale entries are ignored rather than misread
+const TREE_CACHE_VERSION = 2;
+const ENTRY_EXTENSION = '.json';
+
+interface TreeCacheEntry {
+  version: number;
+  tree: TreeNode;
+}
+
+interface StoredEntry {
+  filePath: string;
+  size: number;
+  mtimeMs: number;
+}
+
+/**
+ * Returns `<git-common-dir>/octo-tree`, shared by every worktree of the repository.
+ */
+export const resolveDefaultCacheDirectory = async (repoPath: string): Promise<string> => {
+  try {
+    const stdout = await runGitCommand(repoPath, ['rev-parse', '--git-common-dir']);
+    // Older git prints the directory relative to the working directory
+    return path.join(path.resolve(repoPath, stdout.trim()), 'octo-tree');
+  } catch {
+    throw new GitRepositoryError(`Failed to locate git repository at ${repoPath}`);
+  }
+};
+
+/**
+ * Trees built from the same git tree are identical apart from their timestamps, so they share
+ * an entry. Churn and authorship depend on the history leading up to the commit instead.
+ * Rooted and filtered trees get a suffix derived from their root and patterns.
+ */
+export const resolveTreeCacheKey = ({
+  treeHash,
+  commitHash,
+  includeChurn = false,
+  includeAuthorship = false,
+  root,
+  include,
+  narrowInclude,
+  exclude
+}: {
+  treeHash: string;
+  commitHash: string | null;
+  includeChurn?: boolean;
+  includeAuthorship?: boolean;
+} & PathFilterOptions): string => {
+  const historyFlags = [includeChurn && 'churn', includeAuthorship && 'authors'].filter(Boolean);
+  const baseKey =
+    commitHash && historyFlags.length > 0 ? `${commitHash}-${historyFlags.join('-')}` : treeHash;
+  const filterKey = resolvePathFilterKey({ root, include, narrowInclude, exclude });
+  return filterKey ? `${baseKey}-filter-${filterKey}` : baseKey;
+};
+
+/**
+ * Commit builds stamp every node with the commit timestamp, so a cached tree only needs its
+ * timestamps and root name replaced to match a fresh build.
+ */
+export const restampTree = (node: TreeNode, mtimeMs: number, rootName?: string): TreeNode => {
+  node.mtimeMs = mtimeMs;
+  if (rootName != null) {
+    node.name = rootName;
+  }
+  node.children.forEach((child) => restampTree(child, mtimeMs));
+  return node;
+};
+
+const isMissingFileError = (error: unknown): boolean => {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+};
+
+const listStoredEntries = async (directory: string): Promise<StoredEntry[]> => {
+  let names: string[];
+  try {
+    names = await fs.readdir(directory);
+  } catch (error) {
+    if (isMissingFileError(error)) {
+      return [];
+    }
+    throw error;
+  }
+
+  const entries = await Promise.all(
+    names
+      .filter((name) => name.endsWith(ENTRY_EXTENSION))
+      .map(async (name) => {
+        const filePath = path.join(directory, name);
+        try {
+          const stats = await fs.stat(filePath);
+          return { filePath, size: stats.size, mtimeMs: stats.mtimeMs };
+        } catch (error) {
+          if (isMissingFileError(error)) {
+            return null;
+          }
+          throw error;
+        }
+      })
+  );
+  return entries.filter((entry): entry is StoredEntry => entry !== null);
+};
+
+/**
+ * Creates a content-addressed tree cache stored as one JSON file per key. Reads refresh an
+ * entry's mtime so eviction drops the least recently used entries first once either limit
+ * is exceeded. The directory is scanned on the first write and again only when a write
+ * crosses a limit, so writing many entries stays linear.
+ */
+export const createTreeCache = ({
+  directory,
+  maxEntries = DEFAULT_TREE_CACHE_MAX_ENTRIES,
+  maxBytes = DEFAULT_TREE_CACHE_MAX_BYTES
+}: TreeCacheOptions): TreeCache => {
+  const resolveEntryPath = (key: string): string => path.join(directory, `${key}${ENTRY_EXTENSION}`);
+
+  // What this cache last saw on disk plus what it wrote since. Overwrites and other processes
+  // make it drift, which at worst triggers a rescan early
+  let usage: { entries: number; bytes: number } | null = null;
+
+  const evict = async (): Promise<void> => {
+    const entries = await listStoredEntries(directory);
+    entries.sort((left, right) => right.mtimeMs - left.mtimeMs);
+
+    let keptEntries = 0;
+    let keptBytes = 0;
+    const evicted: StoredEntry[] = [];
+    for (const entry of entries) {
+      if (keptEntries + 1 > maxEntries || keptBytes + entry.size > maxBytes) {
+        evicted.push(entry);
+        continue;
+      }
+      keptEntries += 1;
+      keptBytes += entry.size;
+    }
+
+    await Promise.all(evicted.map(({ filePath }) => fs.rm(filePath, { force: true })));
+    usage = { entries: keptEntries, bytes: keptBytes };
+  };
+
+  const read = async (key: string): Promise<TreeNode | null> => {
+    const entryPath = resolveEntryPath(key);
+    let contents: string;
+    try {
+      contents = await fs.readFile(entryPath, 'utf8');
+    } catch (error) {
+      if (isMissingFileError(error)) {
+        return null;
+      }
+      throw error;
+    }
+
+    let entry: TreeCacheEntry;
+    try {
+      entry = JSON.parse(contents) as TreeCacheEntry;
+    } catch {
+      await fs.rm(entryPath, { force: true });
+      return null;
+    }
+    if (entry.version !== TREE_CACHE_VERSION || !entry.tree) {
+      await fs.rm(entryPath, { force: true });
+      return null;
+    }
+
+    const now = new Date();
+    await fs.utimes(entryPath, now, now).catch(() => undefined);
+    return entry.tree;
+  };
+
+  const write = async (key: string, tree: TreeNode): Promise<void> => {
+    await fs.mkdir(directory, { recursive: true });
+    const entryPath = resolveEntryPath(key);
+    // Write then rename so concurrent readers never observe a partially written entry
+    const tempPath = `${entryPath}.${process.pid}.${Date.now()}.tmp`;
+    const entry: TreeCacheEntry = { version: TREE_CACHE_VERSION, tree };
+    const contents = JSON.stringify(entry);
+    await fs.writeFile(tempPath, contents);
+    try {
+      await fs.rename(tempPath, entryPath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+
+    if (usage) {
+      usage.entries += 1;
+      usage.bytes += Buffer.byteLength(contents);
+    } else {
+      const entries = await listStoredEntries(directory);
+      usage = { entries: entries.length, bytes: entries.reduce((sum, { size }) => sum + size, 0) };
+    }
+    if (usage.entries > maxEntries || usage.bytes > maxBytes) {
+      await evict();
+    }
+  };
+
+  const clear = async (): Promise<void> => {
+    const entries = await listStoredEntries(directory);
+    await Promise.all(entries.map(({ filePath }) => fs.rm(filePath, { force: true })));
+    usage = null;
+  };
+
+  return { directory, read, write, clear };
+};
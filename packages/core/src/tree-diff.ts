@@ -0,0 +1,153 @@
+import type { ChangeStatus, NodeChange, RepositoryTreeDiff, TreeDiffSummary, TreeNode } from './types';
+import { resolveRepoRoot, resolveGitRef, listTreeChanges, type GitTreeChange } from './git';
+import { insertFileNode } from './tree-builder';
+import { sortChildrenRecursively, aggregateDirectoryMetadata } from './tree-node';
+import type { PathFilter } from './path-filter';
+
+type BuildTree = (options: { repoPath: string; ref: string }) => Promise<TreeNode>;
+
+const indexTree = (
+  node: TreeNode,
+  nodeMap: Map<string, TreeNode>,
+  childIdMap: Map<string, TreeNode>
+): void => {
+  nodeMap.set(node.relativePath, node);
+  childIdMap.set(node.id, node);
+  node.children.forEach((child) => indexTree(child, nodeMap, childIdMap));
+};
+
+const collectFileSizes = (node: TreeNode, sizes: Map<string, number>): Map<string, number> => {
+  if (node.type === 'file') {
+    sizes.set(node.relativePath, node.size);
+  }
+  node.children.forEach((child) => collectFileSizes(child, sizes));
+  return sizes;
+};
+
+/**
+ * A directory is added or removed only when everything below it was, unchanged only when
+ * nothing below it changed, and modified otherwise.
+ */
+const aggregateChanges = (node: TreeNode): NodeChange => {
+  if (node.type === 'file' && node.change) {
+    return node.change;
+  }
+
+  const statuses = new Set<ChangeStatus>();
+  let baseSize = 0;
+  let sizeDelta = 0;
+
+  for (const child of node.children) {
+    const childChange = aggregateChanges(child);
+    statuses.add(childChange.status);
+    baseSize += childChange.baseSize;
+    sizeDelta += childChange.sizeDelta;
+  }
+
+  let status: ChangeStatus = 'modified';
+  if (statuses.size === 0) {
+    status = 'unchanged';
+  } else if (statuses.size === 1) {
+    const [onlyStatus] = statuses;
+    status = onlyStatus === 'renamed' ? 'modified' : onlyStatus;
+  }
+
+  node.change = { status, baseSize, sizeDelta };
+  return node.change;
+};
+
+const createEmptySummary = (): TreeDiffSummary => ({
+  added: 0,
+  removed: 0,
+  modified: 0,
+  renamed: 0,
+  unchanged: 0
+});
+
+const summarizeChanges = (node: TreeNode, summary: TreeDiffSummary): TreeDiffSummary => {
+  if (node.type === 'file' && node.change) {
+    summary[node.change.status] += 1;
+  }
+  node.children.forEach((child) => summarizeChanges(child, summary));
+  return summary;
+};
+
+/**
+ * Merges the trees at `baseRef` and `headRef` into a single tree whose nodes carry a `change`
+ * describing how they differ. Removed files are kept (with a size of zero) so they can be drawn.
+ */
+export const mergeTreeDiff = (
+  baseTree: TreeNode,
+  headTree: TreeNode,
+  changes: GitTreeChange[]
+): { tree: TreeNode; summary: TreeDiffSummary } => {
+  const baseSizes = collectFileSizes(baseTree, new Map());
+  const nodeMap = new Map<string, TreeNode>();
+  const childIdMap = new Map<string, TreeNode>();
+  indexTree(headTree, nodeMap, childIdMap);
+
+  const changesByPath = new Map<string, GitTreeChange>();
+  for (const change of changes) {
+    changesByPath.set(change.path, change);
+  }
+
+  for (const node of nodeMap.values()) {
+    if (node.type !== 'file') {
+      continue;
+    }
+    const change = changesByPath.get(node.relativePath);
+    const previousPath = change?.status === 'renamed' ? change.previousPath : undefined;
+    const baseSize = baseSizes.get(previousPath ?? node.relativePath) ?? 0;
+    node.change = {
+      status: change?.status ?? 'unchanged',
+      baseSize: change?.status === 'added' ? 0 : baseSize,
+      sizeDelta: node.size - (change?.status === 'added' ? 0 : baseSize),
+      ...(previousPath ? { previousPath } : {})
+    };
+  }
+
+  const removedPaths = changes.filter((change) => change.status === 'removed');
+  for (const { path: removedPath } of removedPaths) {
+    const baseSize = baseSizes.get(removedPath) ?? 0;
+    insertFileNode(headTree, nodeMap, childIdMap, removedPath, 0, headTree.mtimeMs);
+    const removedNode = nodeMap.get(removedPath);
+    if (removedNode) {
+      removedNode.change = { status: 'removed', baseSize, sizeDelta: -baseSize };
+    }
+  }
+
+  sortChildrenRecursively(headTree);
+  aggregateDirectoryMetadata(headTree);
+  aggregateChanges(headTree);
+
+  return { tree: headTree, summary: summarizeChanges(headTree, createEmptySummary()) };
+};
+
+/**
+ * Builds the repository at two refs and returns a merged tree tagging every node as
+ * added, removed, modified, renamed or unchanged, with size deltas.
+ */
+export const buildTreeDiff = async (
+  repoPath: string,
+  baseRef: string,
+  headRef: string,
+  buildTree: BuildTree,
+  filter?: PathFilter | null
+): Promise<RepositoryTreeDiff> => {
+  const [baseTree, headTree] = await Promise.all([
+    buildTree({ repoPath, ref: baseRef }),
+    buildTree({ repoPath, ref: headRef })
+  ]);
+
+  const repoRoot = await resolveRepoRoot(repoPath);
+  const [base, head] = await Promise.all([
+    resolveGitRef(repoRoot, baseRef),
+    resolveGitRef(repoRoot, headRef)
+  ]);
+  const allChanges = await listTreeChanges(repoRoot, base.treeHash, head.treeHash);
+  // Both trees were built with the same filter, so changes to hidden files are dropped too
+  const changes = filter ? allChanges.filter((change) => filter(change.path)) : allChanges;
+  const { tree, summary } = mergeTreeDiff(baseTree, headTree, changes);
+
+  return { tree, baseRef, headRef, summary };
+};
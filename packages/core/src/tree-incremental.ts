@@ -0,0 +1,164 @@
+import path from 'path';
+import type { BuildTreeOptions, IncrementalTreeBuilder, TreeCache, TreeNode } from './types';
+import {
+  resolveRepoRoot,
+  resolveGitRef,
+  assertRootDirectory,
+  getCommitTimestampMs,
+  listTreeBlobChanges,
+  readBlobSizes,
+  type GitBlobChange
+} from './git';
+import { insertFileNode } from './tree-builder';
+import { sortChildrenRecursively, aggregateDirectoryMetadata } from './tree-node';
+import { resolveTreeCacheKey, restampTree } from './tree-cache';
+import { createPathFilter, normalizeRootPath, type PathFilterOptions } from './path-filter';
+import { classifyTreeLanguages } from './languages';
+
+type BuildTree = (
+  options: Pick<BuildTreeOptions, 'repoPath' | 'ref' | 'cache' | 'root' | 'include' | 'exclude'>
+) => Promise<TreeNode>;
+
+interface PreviousBuild {
+  treeHash: string;
+  tree: TreeNode;
+}
+
+const indexTree = (
+  node: TreeNode,
+  nodeMap: Map<string, TreeNode>,
+  childIdMap: Map<string, TreeNode>
+): void => {
+  nodeMap.set(node.relativePath, node);
+  childIdMap.set(node.id, node);
+  node.children.forEach((child) => indexTree(child, nodeMap, childIdMap));
+};
+
+const parentPathOf = (relativePath: string): string => {
+  const separatorIndex = relativePath.lastIndexOf('/');
+  return separatorIndex === -1 ? '.' : relativePath.slice(0, separatorIndex);
+};
+
+// Git does not track empty directories, so ancestors left without children are removed too
+const removeNode = (
+  nodeMap: Map<string, TreeNode>,
+  childIdMap: Map<string, TreeNode>,
+  node: TreeNode
+): void => {
+  const parent = nodeMap.get(parentPathOf(node.relativePath));
+  nodeMap.delete(node.relativePath);
+  childIdMap.delete(node.id);
+  if (!parent) {
+    return;
+  }
+  parent.children = parent.children.filter((child) => child !== node);
+  if (parent.children.length === 0 && parent.depth > 0) {
+    removeNode(nodeMap, childIdMap, parent);
+  }
+};
+
+/**
+ * Applies `git diff-tree` changes to a tree in place, producing the tree a full build of the
+ * target commit would return. Removals run first so a path may change between file and directory.
+ */
+export const applyTreeChanges = (
+  tree: TreeNode,
+  changes: GitBlobChange[],
+  blobSizes: Map<string, number>,
+  mtimeMs: number
+): TreeNode => {
+  const nodeMap = new Map<string, TreeNode>();
+  const childIdMap = new Map<string, TreeNode>();
+  indexTree(tree, nodeMap, childIdMap);
+
+  for (const change of changes) {
+    const existing = nodeMap.get(change.path);
+    if (existing?.type === 'file') {
+      removeNode(nodeMap, childIdMap, existing);
+    }
+  }
+
+  for (const change of changes) {
+    if (change.status !== 'upserted') {
+      continue;
+    }
+    const size = change.blobHash ? blobSizes.get(change.blobHash) ?? 0 : 0;
+    insertFileNode(tree, nodeMap, childIdMap, change.path, size, mtimeMs);
+  }
+
+  restampTree(tree, mtimeMs);
+  sortChildrenRecursively(tree);
+  aggregateDirectoryMetadata(tree);
+  return tree;
+};
+
+/**
+ * Creates a builder that applies the changes between consecutive refs to the previously built
+ * tree instead of listing every file again. The first build, and any build after `reset`, is a
+ * full build. Builds run one at a time so each derives from the one before it.
+ */
+export const createIncrementalBuilder = (
+  { repoPath, cache, root, include, exclude }: { repoPath: string; cache?: TreeCache } & PathFilterOptions,
+  buildTree: BuildTree
+): IncrementalTreeBuilder => {
+  const filter = createPathFilter({ root, include, exclude });
+  const rootPath = normalizeRootPath(root);
+  let previous: PreviousBuild | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+  let repoRootPromise: Promise<string> | null = null;
+
+  const readCachedTree = async (treeHash: string, mtimeMs: number): Promise<TreeNode | null> => {
+    const cached = await cache
+      ?.read(resolveTreeCacheKey({ treeHash, commitHash: null, root, include, exclude }))
+      .catch(() => null);
+    return cached ? restampTree(cached, mtimeMs, previous?.tree.name) : null;
+  };
+
+  const buildNext = async (ref: string): Promise<TreeNode> => {
+    repoRootPromise ??= resolveRepoRoot(path.resolve(repoPath));
+    const repoRoot = await repoRootPromise;
+    const { treeHash, commitHash } = await resolveGitRef(repoRoot, ref);
+
+    if (!previous) {
+      const tree = await buildTree({ repoPath, ref, cache, root, include, exclude });
+      previous = { treeHash, tree };
+      return tree;
+    }
+
+    const mtimeMs = (commitHash ? await getCommitTimestampMs(repoRoot, commitHash).catch(() => null) : null) ?? 0;
+    let tree = await readCachedTree(treeHash, mtimeMs);
+    if (!tree) {
+      // The root may be gone at this tree even though it existed at the previous one
+      if (rootPath) {
+        await assertRootDirectory(repoRoot, treeHash, rootPath);
+      }
+      const allChanges = await listTreeBlobChanges(repoRoot, previous.treeHash, treeHash);
+      const changes = filter ? allChanges.filter((change) => filter(change.path)) : allChanges;
+      const blobSizes = await readBlobSizes(
+        repoRoot,
+        changes.flatMap((change) => (change.blobHash ? [change.blobHash] : []))
+      );
+      // Earlier trees may still be referenced by callers, so changes are applied to a copy
+      tree = applyTreeChanges(structuredClone(previous.tree), changes, blobSizes, mtimeMs);
+      await classifyTreeLanguages(repoRoot, tree, treeHash);
+      await cache
+        ?.write(resolveTreeCacheKey({ treeHash, commitHash: null, root, include, exclude }), tree)
+        .catch(() => undefined);
+    }
+
+    previous = { treeHash, tree };
+    return tree;
+  };
+
+  const build = (ref: string): Promise<TreeNode> => {
+    const result = queue.then(() => buildNext(ref));
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const reset = (): void => {
+    previous = null;
+  };
+
+  return { build, reset };
+};
@@ -1,4 +1,11 @@
-import type { NodeType, TreeNode } from './types';
+import type {
+  AuthorContribution,
+  AuthorshipMetrics,
+  ChurnMetrics,
+  FileStatus,
+  NodeType,
+  TreeNode
+} from './types';
 
 export const joinRelative = (parent: string, segment: string): string => {
   return parent === '.' ? segment : `${parent}/${segment}`;
@@ -61,22 +68,160 @@ export const sortChildrenRecursively = (node: TreeNode): void => {
   node.children.forEach(sortChildrenRecursively);
 };
 
-export const aggregateDirectoryMetadata = (node: TreeNode): { size: number; mtimeMs: number } => {
+const createEmptyChurn = (): ChurnMetrics => ({
+  commits: 0,
+  linesAdded: 0,
+  linesRemoved: 0,
+  lastCommit: null
+});
+
+/**
+ * Attaches churn metrics to every file node. Files without recorded history get zeroed metrics
+ * so that directory aggregation treats them as cold rather than unknown.
+ */
+export const applyChurnMetrics = (
+  nodeMap: Map<string, TreeNode>,
+  churnByPath: Map<string, ChurnMetrics>
+): void => {
+  for (const [relativePath, node] of nodeMap) {
+    if (node.type !== 'file') {
+      continue;
+    }
+    const metrics = churnByPath.get(relativePath);
+    node.churn = metrics ? { ...metrics } : createEmptyChurn();
+  }
+};
+
+const mergeChurn = (target: ChurnMetrics, source: ChurnMetrics): void => {
+  target.commits += source.commits;
+  target.linesAdded += source.linesAdded;
+  target.linesRemoved += source.linesRemoved;
+  if (
+    source.lastCommit &&
+    (!target.lastCommit || source.lastCommit.timestamp > target.lastCommit.timestamp)
+  ) {
+    target.lastCommit = source.lastCommit;
+  }
+};
+
+export const aggregateDirectoryMetadata = (
+  node: TreeNode
+): { size: number; mtimeMs: number; churn?: ChurnMetrics } => {
   if (node.type === 'file') {
-    return { size: node.size, mtimeMs: node.mtimeMs };
+    return { size: node.size, mtimeMs: node.mtimeMs, churn: node.churn };
   }
 
   let totalSize = 0;
   let latestMtime = node.mtimeMs;
+  let churn: ChurnMetrics | undefined;
 
   for (const child of node.children) {
     const childMetrics = aggregateDirectoryMetadata(child);
     totalSize += childMetrics.size;
     latestMtime = Math.max(latestMtime, childMetrics.mtimeMs);
+    if (childMetrics.churn) {
+      churn ??= createEmptyChurn();
+      // Directory commit counts are the sum of per-file commit counts
+      mergeChurn(churn, childMetrics.churn);
+    }
   }
 
   node.size = totalSize;
   node.mtimeMs = latestMtime;
-  return { size: totalSize, mtimeMs: latestMtime };
+  if (churn) {
+    node.churn = churn;
+  }
+  return { size: totalSize, mtimeMs: latestMtime, churn };
+};
+
+/**
+ * Tags every node with its working tree status. Files missing from `statusByPath` are clean; a
+ * directory shares the status of its files when they all agree and is modified otherwise.
+ */
+export const aggregateFileStatus = (
+  node: TreeNode,
+  statusByPath: Map<string, FileStatus>
+): FileStatus => {
+  if (node.type === 'file') {
+    node.status = statusByPath.get(node.relativePath) ?? 'clean';
+    return node.status;
+  }
+
+  const statuses = new Set<FileStatus>();
+  for (const child of node.children) {
+    statuses.add(aggregateFileStatus(child, statusByPath));
+  }
+
+  let status: FileStatus = 'modified';
+  if (statuses.size === 0) {
+    status = 'clean';
+  } else if (statuses.size === 1) {
+    [status] = statuses;
+  }
+  node.status = status;
+  return status;
+};
+
+const TOP_AUTHOR_LIMIT = 3;
+
+const authorKey = (author: AuthorContribution): string => (author.email || author.name).toLowerCase();
+
+/**
+ * Bus factor is the smallest number of authors who together account for more than
+ * half of the commits touching a node.
+ */
+export const computeBusFactor = (authors: AuthorContribution[]): number => {
+  const totalCommits = authors.reduce((sum, author) => sum + author.commits, 0);
+  if (totalCommits === 0) {
+    return 0;
+  }
+  const sorted = [...authors].sort((a, b) => b.commits - a.commits);
+  let covered = 0;
+  for (let index = 0; index < sorted.length; index += 1) {
+    covered += sorted[index].commits;
+    if (covered * 2 > totalCommits) {
+      return index + 1;
+    }
+  }
+  return sorted.length;
 };
 
+const summarizeAuthorship = (authors: AuthorContribution[]): AuthorshipMetrics => {
+  const sorted = [...authors].sort((a, b) => b.commits - a.commits || a.name.localeCompare(b.name));
+  return {
+    topAuthors: sorted.slice(0, TOP_AUTHOR_LIMIT).map((author) => ({ ...author })),
+    busFactor: computeBusFactor(sorted),
+    totalCommits: sorted.reduce((sum, author) => sum + author.commits, 0)
+  };
+};
+
+/**
+ * Attaches authorship metrics to every node, rolling per-file author commit counts up
+ * through directories. Returns the merged author counts for the subtree.
+ */
+export const aggregateAuthorship = (
+  node: TreeNode,
+  authorsByPath: Map<string, AuthorContribution[]>
+): Map<string, AuthorContribution> => {
+  const merged = new Map<string, AuthorContribution>();
+
+  if (node.type === 'file') {
+    for (const author of authorsByPath.get(node.relativePath) ?? []) {
+      merged.set(authorKey(author), { ...author });
+    }
+  } else {
+    for (const child of node.children) {
+      for (const [key, author] of aggregateAuthorship(child, authorsByPath)) {
+        const existing = merged.get(key);
+        if (existing) {
+          existing.commits += author.commits;
+        } else {
+          merged.set(key, { ...author });
+        }
+      }
+    }
+  }
+
+  node.authorship = summarizeAuthorship(Array.from(merged.values()));
+  return merged;
+};
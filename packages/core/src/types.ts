@@ -9,12 +9,85 @@ export interface TreeNode {
   mtimeMs: number;
   depth: number;
   children: TreeNode[];
+  churn?: ChurnMetrics;
+  authorship?: AuthorshipMetrics;
+  change?: NodeChange;
+  status?: FileStatus;
+  /** Language of a file, from `linguist-language` or its name */
+  language?: string;
+  /** Set on files marked `linguist-vendored`; left out of language statistics */
+  vendored?: boolean;
+  /** Set on files marked `linguist-generated`; left out of language statistics */
+  generated?: boolean;
+}
+
+export interface CommitReference {
+  hash: string;
+  timestamp: number;
+}
+
+export interface ChurnMetrics {
+  commits: number;
+  linesAdded: number;
+  linesRemoved: number;
+  lastCommit: CommitReference | null;
+}
+
+export interface AuthorContribution {
+  name: string;
+  email: string;
+  commits: number;
+}
+
+export interface AuthorshipMetrics {
+  topAuthors: AuthorContribution[];
+  busFactor: number;
+  totalCommits: number;
 }
 
 export interface BuildTreeOptions {
   repoPath: string;
   ref?: string;
   allowFallbackToWorkingTree?: boolean;
+  /** Build from the tracked files on disk instead of a commit; `ref` is ignored */
+  workingTree?: boolean;
+  /** Build from the working tree including untracked, unignored files and tag every node with its `git status` */
+  includeUntracked?: boolean;
+  /** Repository-relative directory to re-root the tree at; node paths stay repository-relative */
+  root?: string;
+  /** Gitignore-style globs; when given, only matching files are kept */
+  include?: string[];
+  /** Gitignore-style globs a kept file must also match, so a second set of patterns narrows `include` */
+  narrowInclude?: string[];
+  /** Gitignore-style globs for files to leave out, applied after `include` */
+  exclude?: string[];
+  includeChurn?: boolean;
+  includeAuthorship?: boolean;
+  cache?: TreeCache;
+}
+
+export interface TreeCacheOptions {
+  directory: string;
+  maxEntries?: number;
+  maxBytes?: number;
+}
+
+/**
+ * Persistent store for built trees, keyed by git tree hash (or commit hash for history metrics).
+ */
+export interface TreeCache {
+  directory: string;
+  read: (key: string) => Promise<TreeNode | null>;
+  write: (key: string, tree: TreeNode) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+/**
+ * Builds trees for a sequence of refs, deriving each tree from the previous one.
+ */
+export interface IncrementalTreeBuilder {
+  build: (ref: string) => Promise<TreeNode>;
+  reset: () => void;
 }
 
 export class GitRepositoryError extends Error {
@@ -24,14 +97,95 @@ export class GitRepositoryError extends Error {
   }
 }
 
+/**
+ * Working tree state of a file as reported by `git status`. Unstaged edits win over staged ones.
+ */
+export type FileStatus = 'clean' | 'modified' | 'staged' | 'untracked' | 'deleted';
+
+export interface LanguageStats {
+  language: string;
+  files: number;
+  bytes: number;
+}
+
+export interface RefSummary {
+  /** Short name, such as `main` or `v1.0.0` */
+  name: string;
+  /** Commit the ref points at; annotated tags are peeled */
+  hash: string;
+  /** Commit time for branches, tagging time for annotated tags */
+  timestamp: number | null;
+}
+
+export interface CommitSummary {
+  hash: string;
+  shortHash: string;
+  subject: string;
+  author: string;
+  timestamp: number;
+}
+
+/**
+ * Path filters keep only commits changing a file the same filters would keep in a tree; `root`
+ * is a repository-relative directory.
+ */
+export interface CommitListOptions extends Pick<BuildTreeOptions, 'root' | 'include' | 'narrowInclude' | 'exclude'> {
+  /** Follow only the first parent of merges, skipping the commits of merged branches */
+  firstParent?: boolean;
+}
+
+export interface TimedCommit {
+  hash: string;
+  /** Commit time in ms */
+  timestamp: number;
+}
+
 export interface GitStats {
   totalCommits: number | null;
   latestCommitTimestamp: number | null;
+  /** Commit the tree was built from */
+  latestCommit: CommitSummary | null;
+}
+
+export interface RepositoryRefs {
+  /** Checked out branch, or `null` when HEAD is detached */
+  head: string | null;
+  /** Most recently updated first */
+  branches: RefSummary[];
+  /** Most recently created first */
+  tags: RefSummary[];
+  /** Commits reachable from HEAD, newest first */
+  commits: CommitSummary[];
 }
 
 export interface RepositoryTree {
   tree: TreeNode;
   lastUpdated: number;
   gitStats: GitStats | null;
+  /** Per-language totals, largest first */
+  languages: LanguageStats[];
+}
+
+export type ChangeStatus = 'added' | 'removed' | 'modified' | 'renamed' | 'unchanged';
+
+export interface NodeChange {
+  status: ChangeStatus;
+  baseSize: number;
+  sizeDelta: number;
+  previousPath?: string;
 }
 
+export interface TreeDiffSummary {
+  added: number;
+  removed: number;
+  modified: number;
+  renamed: number;
+  unchanged: number;
+}
+
+export interface RepositoryTreeDiff {
+  tree: TreeNode;
+  baseRef: string;
+  headRef: string;
+  summary: TreeDiffSummary;
+}
@@ -11,7 +11,17 @@ import {
   resolveGitRef,
   listFilesAtTree,
   getCommitTimestampMs,
-  listCommitsForBranch
+  listCommitsForBranch,
+  listCommitTimestamps,
+  collectFileChurn,
+  collectFileAuthorship,
+  listTreeChanges,
+  listTreeBlobChanges,
+  readBlobSizes,
+  listIgnoredPaths,
+  listWorkingTreeStatus,
+  listRepositoryRefs,
+  collectGitStats
 } from '../src/git';
 import { GitRepositoryError } from '../src/types';
 import { withRepo, createCommit, createTag, createTestFiles, getGitHash } from './utils';
@@ -32,6 +42,17 @@ describe('git', () => {
         );
       });
     });
+
+    it('writes input to stdin and accepts allowed exit codes', async () => {
+      await withRepo(async (repoPath) => {
+        const hash = await runGitCommand(repoPath, ['hash-object', '--stdin'], { input: 'content' });
+        expect(hash.trim()).toHaveLength(40);
+
+        await expect(
+          runGitCommand(repoPath, ['check-ignore', '--stdin'], { input: 'file.txt\n', allowedExitCodes: [1] })
+        ).resolves.toBe('');
+      });
+    });
   });
 
   describe('resolveRepoRoot', () => {
@@ -208,6 +229,106 @@ describe('git', () => {
       });
     });
 
+    it('lists the history of another ref', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'file1.txt': 'content1' });
+        createCommit(repoPath, 'first commit');
+        const firstCommit = getGitHash(repoPath, 'HEAD');
+        createTag(repoPath, 'v1');
+
+        await createTestFiles(repoPath, { 'file2.txt': 'content2' });
+        createCommit(repoPath, 'second commit');
+
+        expect(await listCommitsForBranch(repoPath, 'v1')).toEqual([firstCommit]);
+        await expect(listCommitsForBranch(repoPath, 'missing')).rejects.toBeInstanceOf(GitRepositoryError);
+      });
+    });
+
+    it('lists a revision range, optionally along first parents only', async () => {
+      await withRepo(async (repoPath) => {
+        execSync('git checkout -q -b trunk', { cwd: repoPath });
+        await createTestFiles(repoPath, { 'a.txt': 'a' });
+        createCommit(repoPath, 'first commit');
+        createTag(repoPath, 'v1');
+        execSync('git checkout -q -b feature', { cwd: repoPath });
+        await createTestFiles(repoPath, { 'b.txt': 'b' });
+        createCommit(repoPath, 'feature commit');
+        const featureCommit = getGitHash(repoPath, 'HEAD');
+        execSync('git checkout -q trunk', { cwd: repoPath });
+        await createTestFiles(repoPath, { 'c.txt': 'c' });
+        createCommit(repoPath, 'trunk commit');
+        const trunkCommit = getGitHash(repoPath, 'HEAD');
+        execSync('git merge -q --no-ff -m merge feature', { cwd: repoPath });
+        const mergeCommit = getGitHash(repoPath, 'HEAD');
+
+        const all = await listCommitsForBranch(repoPath, 'v1..trunk');
+        expect(all).toHaveLength(3);
+        expect(all).toEqual(expect.arrayContaining([featureCommit, trunkCommit, mergeCommit]));
+        expect(await listCommitsForBranch(repoPath, 'v1..trunk', { firstParent: true })).toEqual([
+          trunkCommit,
+          mergeCommit
+        ]);
+        expect(
+          (await listCommitTimestamps(repoPath, 'v1..trunk', { firstParent: true })).map(({ hash }) => hash)
+        ).toEqual([trunkCommit, mergeCommit]);
+      });
+    });
+
+    it('lists only commits changing files below a path', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'README.md': 'readme' });
+        createCommit(repoPath, 'initial');
+        await createTestFiles(repoPath, { 'packages/web/a.ts': 'a' });
+        createCommit(repoPath, 'add the package');
+        const addCommit = getGitHash(repoPath, 'HEAD');
+        await createTestFiles(repoPath, { 'README.md': 'more readme' });
+        createCommit(repoPath, 'edit the readme');
+
+        expect(await listCommitsForBranch(repoPath, 'HEAD', { root: './packages/web/' })).toEqual([addCommit]);
+        expect(await listCommitsForBranch(path.join(repoPath, 'packages'), 'HEAD', { root: 'packages/web' })).toEqual([
+          addCommit
+        ]);
+      });
+    });
+
+    it('lists only commits changing files kept by include and exclude patterns', async () => {
+      await withRepo(async (repoPath) => {
+        execSync('git checkout -q -b trunk', { cwd: repoPath });
+        await createTestFiles(repoPath, { 'README.md': 'readme' });
+        createCommit(repoPath, 'initial');
+        const initialCommit = getGitHash(repoPath, 'HEAD');
+        await createTestFiles(repoPath, { 'src/a.ts': 'a', 'src/a.test.ts': 'test' });
+        createCommit(repoPath, 'add source');
+        const sourceCommit = getGitHash(repoPath, 'HEAD');
+        await createTestFiles(repoPath, { 'src/a.test.ts': 'more tests' });
+        createCommit(repoPath, 'edit tests');
+        execSync('git checkout -q -b feature', { cwd: repoPath });
+        await createTestFiles(repoPath, { 'src/my file.ts': 'b' });
+        createCommit(repoPath, 'feature commit');
+        const featureCommit = getGitHash(repoPath, 'HEAD');
+        execSync('git checkout -q trunk', { cwd: repoPath });
+        execSync('git merge -q --no-ff -m merge feature', { cwd: repoPath });
+        const mergeCommit = getGitHash(repoPath, 'HEAD');
+
+        const filters = { include: ['src/'], exclude: ['*.test.ts'] };
+        expect(await listCommitsForBranch(repoPath, 'HEAD', filters)).toEqual([sourceCommit, featureCommit, mergeCommit]);
+        expect(await listCommitsForBranch(repoPath, 'HEAD', { ...filters, firstParent: true })).toEqual([
+          sourceCommit,
+          mergeCommit
+        ]);
+        expect(
+          (await listCommitTimestamps(repoPath, 'HEAD', { include: ['*.md'] })).map(({ hash }) => hash)
+        ).toEqual([initialCommit]);
+        expect(await listCommitsForBranch(repoPath, 'HEAD', { include: ['src/'], narrowInclude: ['*.md'] })).toEqual([]);
+      });
+    });
+
+    it('rejects revisions that look like options', async () => {
+      await withRepo(async (repoPath) => {
+        await expect(listCommitsForBranch(repoPath, '--all')).rejects.toThrow('Invalid revision: --all');
+      });
+    });
+
     it('filters out empty lines', async () => {
       await withRepo(async (repoPath) => {
         await createTestFiles(repoPath, { 'test.txt': 'content' });
@@ -233,5 +354,331 @@ describe('git', () => {
       });
     });
   });
-});
 
+  describe('listCommitTimestamps', () => {
+    it('lists commits oldest first with their commit times', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'a.txt': 'a' });
+        execSync('git add . && git commit -q -m first', {
+          cwd: repoPath,
+          env: { ...process.env, GIT_COMMITTER_DATE: '2020-01-01T00:00:00Z' }
+        });
+        await createTestFiles(repoPath, { 'b.txt': 'b' });
+        execSync('git add . && git commit -q -m second', {
+          cwd: repoPath,
+          env: { ...process.env, GIT_COMMITTER_DATE: '2021-06-01T00:00:00Z' }
+        });
+
+        expect(await listCommitTimestamps(repoPath)).toEqual([
+          { hash: getGitHash(repoPath, 'HEAD~1'), timestamp: Date.UTC(2020, 0, 1) },
+          { hash: getGitHash(repoPath, 'HEAD'), timestamp: Date.UTC(2021, 5, 1) }
+        ]);
+      });
+    });
+  });
+
+  describe('collectFileChurn', () => {
+    it('counts commits and line changes per file', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'a.txt': 'one\ntwo\n', 'b.txt': 'b\n' });
+        createCommit(repoPath, 'first commit');
+        await createTestFiles(repoPath, { 'a.txt': 'one\nthree\nfour\n' });
+        createCommit(repoPath, 'second commit');
+        const secondCommit = getGitHash(repoPath, 'HEAD');
+
+        const churn = await collectFileChurn(repoPath, 'HEAD');
+
+        expect(churn.get('a.txt')).toMatchObject({
+          commits: 2,
+          linesAdded: 4,
+          linesRemoved: 1
+        });
+        expect(churn.get('a.txt')?.lastCommit?.hash).toBe(secondCommit);
+        expect(churn.get('b.txt')).toMatchObject({ commits: 1, linesAdded: 1, linesRemoved: 0 });
+      });
+    });
+
+    it('only considers history reachable from the ref', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'a.txt': 'one\n' });
+        createCommit(repoPath, 'first commit');
+        const firstCommit = getGitHash(repoPath, 'HEAD');
+        await createTestFiles(repoPath, { 'a.txt': 'two\n', 'b.txt': 'b\n' });
+        createCommit(repoPath, 'second commit');
+
+        const churn = await collectFileChurn(repoPath, firstCommit);
+
+        expect(churn.get('a.txt')?.commits).toBe(1);
+        expect(churn.get('a.txt')?.lastCommit?.hash).toBe(firstCommit);
+        expect(churn.has('b.txt')).toBe(false);
+      });
+    });
+  });
+
+  describe('collectFileAuthorship', () => {
+    it('attributes commits per file to their authors', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'a.txt': 'one', 'b.txt': 'b' });
+        createCommit(repoPath, 'first commit');
+        await createTestFiles(repoPath, { 'a.txt': 'two' });
+        execSync('git add . && git commit -m "by someone else" --author="Other Dev <other@example.com>"', {
+          cwd: repoPath,
+          stdio: 'ignore'
+        });
+
+        const authorship = await collectFileAuthorship(repoPath, 'HEAD');
+
+        const aAuthors = authorship.get('a.txt') ?? [];
+        expect(aAuthors).toHaveLength(2);
+        expect(aAuthors).toEqual(
+          expect.arrayContaining([
+            { name: 'Octo Tree Test', email: 'test@example.com', commits: 1 },
+            { name: 'Other Dev', email: 'other@example.com', commits: 1 }
+          ])
+        );
+        expect(authorship.get('b.txt')).toEqual([
+          { name: 'Octo Tree Test', email: 'test@example.com', commits: 1 }
+        ]);
+      });
+    });
+  });
+
+  describe('listTreeChanges', () => {
+    it('reports added, removed, modified and renamed files', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, {
+          'keep.txt': 'keep',
+          'edit.txt': 'before',
+          'gone.txt': 'gone',
+          'old-name.txt': 'this content is long enough to be detected as a rename\n'
+        });
+        createCommit(repoPath, 'first commit');
+        const baseTree = getGitHash(repoPath, 'HEAD^{tree}');
+
+        execSync('git rm -q gone.txt && git mv old-name.txt new-name.txt', { cwd: repoPath });
+        await createTestFiles(repoPath, { 'edit.txt': 'after', 'added.txt': 'added' });
+        createCommit(repoPath, 'second commit');
+        const headTree = getGitHash(repoPath, 'HEAD^{tree}');
+
+        const changes = await listTreeChanges(repoPath, baseTree, headTree);
+
+        expect(changes).toEqual(
+          expect.arrayContaining([
+            { status: 'added', path: 'added.txt' },
+            { status: 'modified', path: 'edit.txt' },
+            { status: 'removed', path: 'gone.txt' },
+            { status: 'renamed', path: 'new-name.txt', previousPath: 'old-name.txt' }
+          ])
+        );
+        expect(changes).toHaveLength(4);
+      });
+    });
+  });
+
+  describe('listTreeBlobChanges', () => {
+    it('reports upserts with blob hashes and removals without rename detection', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, {
+          'edit.txt': 'before',
+          'gone.txt': 'gone',
+          'old-name.txt': 'this content is long enough to be detected as a rename\n'
+        });
+        createCommit(repoPath, 'first commit');
+        const baseTree = getGitHash(repoPath, 'HEAD^{tree}');
+
+        execSync('git rm -q gone.txt && git mv old-name.txt new-name.txt', { cwd: repoPath });
+        await createTestFiles(repoPath, { 'edit.txt': 'after' });
+        createCommit(repoPath, 'second commit');
+        const headTree = getGitHash(repoPath, 'HEAD^{tree}');
+
+        const changes = await listTreeBlobChanges(repoPath, baseTree, headTree);
+
+        expect(changes).toEqual([
+          { status: 'upserted', path: 'edit.txt', blobHash: getGitHash(repoPath, 'HEAD:edit.txt') },
+          { status: 'removed', path: 'gone.txt' },
+          {
+            status: 'upserted',
+            path: 'new-name.txt',
+            blobHash: getGitHash(repoPath, 'HEAD:new-name.txt')
+          },
+          { status: 'removed', path: 'old-name.txt' }
+        ]);
+      });
+    });
+  });
+
+  describe('listIgnoredPaths', () => {
+    it('returns only paths excluded by gitignore rules', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, {
+          '.gitignore': 'dist/\n*.log\n',
+          'src/index.ts': 'index',
+          'tracked.log': 'tracked before the ignore rule applied'
+        });
+        execSync('git add -f tracked.log && git add .', { cwd: repoPath, stdio: 'ignore' });
+
+        const ignored = await listIgnoredPaths(repoPath, [
+          'src/index.ts',
+          'dist/bundle.js',
+          'debug.log',
+          'tracked.log',
+          'name with spaces.txt'
+        ]);
+
+        expect(ignored).toEqual(new Set(['dist/bundle.js', 'debug.log']));
+      });
+    });
+
+    it('returns an empty set when nothing is ignored', async () => {
+      await withRepo(async (repoPath) => {
+        expect(await listIgnoredPaths(repoPath, ['a.txt'])).toEqual(new Set());
+        expect(await listIgnoredPaths(repoPath, [])).toEqual(new Set());
+      });
+    });
+  });
+
+  describe('listRepositoryRefs', () => {
+    it('lists branches, peeled tags and recent commits', async () => {
+      await withRepo(async (repoPath) => {
+        execSync('git checkout -q -b trunk', { cwd: repoPath });
+        await createTestFiles(repoPath, { 'a.txt': 'a' });
+        createCommit(repoPath, 'first commit');
+        createTag(repoPath, 'v1', 'first release');
+        execSync('git branch feature', { cwd: repoPath });
+        await createTestFiles(repoPath, { 'b.txt': 'b' });
+        createCommit(repoPath, 'second commit');
+        const first = getGitHash(repoPath, 'HEAD~1');
+        const second = getGitHash(repoPath, 'HEAD');
+
+        const refs = await listRepositoryRefs(repoPath);
+
+        expect(refs.head).toBe('trunk');
+        expect(refs.branches.map(({ name, hash }) => ({ name, hash }))).toEqual(
+          expect.arrayContaining([
+            { name: 'trunk', hash: second },
+            { name: 'feature', hash: first }
+          ])
+        );
+        expect(refs.tags).toEqual([{ name: 'v1', hash: first, timestamp: expect.any(Number) }]);
+        expect(refs.commits.map(({ hash, subject, author }) => ({ hash, subject, author }))).toEqual([
+          { hash: second, subject: 'second commit', author: 'Octo Tree Test' },
+          { hash: first, subject: 'first commit', author: 'Octo Tree Test' }
+        ]);
+        expect(refs.commits[0].shortHash).toBe(second.slice(0, refs.commits[0].shortHash.length));
+
+        expect((await listRepositoryRefs(repoPath, { commitLimit: 1 })).commits).toHaveLength(1);
+      });
+    });
+
+    it('reports a detached HEAD and a repository without commits', async () => {
+      await withRepo(async (repoPath) => {
+        expect(await listRepositoryRefs(repoPath)).toMatchObject({ branches: [], tags: [], commits: [] });
+
+        await createTestFiles(repoPath, { 'a.txt': 'a' });
+        createCommit(repoPath, 'initial');
+        execSync('git checkout -q --detach', { cwd: repoPath });
+
+        expect((await listRepositoryRefs(repoPath)).head).toBeNull();
+      });
+    });
+  });
+
+  describe('collectGitStats', () => {
+    it('counts commits and summarizes the commit at the ref', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'a.txt': 'a' });
+        createCommit(repoPath, 'first commit');
+        await createTestFiles(repoPath, { 'b.txt': 'b' });
+        createCommit(repoPath, 'second commit');
+
+        const stats = await collectGitStats(repoPath, 'HEAD~1');
+
+        expect(stats.totalCommits).toBe(1);
+        expect(stats.latestCommit).toMatchObject({
+          hash: getGitHash(repoPath, 'HEAD~1'),
+          subject: 'first commit',
+          author: 'Octo Tree Test'
+        });
+        expect(stats.latestCommitTimestamp).toBe(stats.latestCommit?.timestamp);
+      });
+    });
+
+    it('reports nothing for a repository without commits', async () => {
+      await withRepo(async (repoPath) => {
+        expect(await collectGitStats(repoPath, 'HEAD')).toEqual({
+          totalCommits: null,
+          latestCommitTimestamp: null,
+          latestCommit: null
+        });
+      });
+    });
+  });
+
+  describe('listWorkingTreeStatus', () => {
+    it('classifies dirty files and skips clean and ignored ones', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, {
+          '.gitignore': 'dist/\n',
+          'clean.txt': 'clean',
+          'edited.txt': 'edited',
+          'staged.txt': 'staged',
+          'removed.txt': 'removed',
+          'unstaged-removal.txt': 'unstaged removal',
+          'old-name.txt': 'renamed'
+        });
+        createCommit(repoPath, 'initial');
+
+        await createTestFiles(repoPath, {
+          'edited.txt': 'edited on disk',
+          'staged.txt': 'staged change',
+          'nested/new file.txt': 'untracked',
+          'dist/bundle.js': 'ignored'
+        });
+        execSync('git add staged.txt && git rm -q removed.txt && git mv old-name.txt new-name.txt', {
+          cwd: repoPath,
+          stdio: 'ignore'
+        });
+        await fs.rm(path.join(repoPath, 'unstaged-removal.txt'));
+
+        const statuses = await listWorkingTreeStatus(repoPath);
+
+        expect(Object.fromEntries(statuses)).toEqual({
+          'edited.txt': 'modified',
+          'staged.txt': 'staged',
+          'removed.txt': 'deleted',
+          'unstaged-removal.txt': 'deleted',
+          'new-name.txt': 'staged',
+          'nested/new file.txt': 'untracked'
+        });
+      });
+    });
+
+    it('reports untracked files in a repository without commits', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'a.txt': 'a' });
+
+        expect(await listWorkingTreeStatus(repoPath)).toEqual(new Map([['a.txt', 'untracked']]));
+      });
+    });
+  });
+
+  describe('readBlobSizes', () => {
+    it('reads sizes for known blobs and skips missing objects', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'a.txt': 'four', 'b.txt': 'eleven char' });
+        createCommit(repoPath, 'initial');
+        const aHash = getGitHash(repoPath, 'HEAD:a.txt');
+        const bHash = getGitHash(repoPath, 'HEAD:b.txt');
+        const missing = '0'.repeat(40);
+
+        const sizes = await readBlobSizes(repoPath, [aHash, bHash, aHash, missing]);
+
+        expect(sizes).toEqual(new Map([[aHash, 4], [bHash, 11]]));
+      });
+    });
+
+    it('returns an empty map without spawning git for no hashes', async () => {
+      expect(await readBlobSizes('/does/not/exist', [])).toEqual(new Map());
+    });
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { globToRegExp } from '../src/glob';
+
+describe('globToRegExp', () => {
+  it('keeps single stars and question marks within a segment', () => {
+    expect(globToRegExp('src/*.ts').test('src/index.ts')).toBe(true);
+    expect(globToRegExp('src/*.ts').test('src/lib/index.ts')).toBe(false);
+    expect(globToRegExp('file?.txt').test('file1.txt')).toBe(true);
+    expect(globToRegExp('file?.txt').test('file/.txt')).toBe(false);
+  });
+
+  it('lets double stars span any number of segments', () => {
+    expect(globToRegExp('**/fixtures/*.json').test('fixtures/a.json')).toBe(true);
+    expect(globToRegExp('**/fixtures/*.json').test('test/deep/fixtures/a.json')).toBe(true);
+    expect(globToRegExp('src/**').test('src/a/b/c.ts')).toBe(true);
+  });
+
+  it('escapes regular expression characters', () => {
+    expect(globToRegExp('a+b(1).txt').test('a+b(1).txt')).toBe(true);
+    expect(globToRegExp('a.txt').test('abtxt')).toBe(false);
+  });
+});
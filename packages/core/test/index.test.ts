@@ -3,7 +3,7 @@ import { promises as fs } from 'fs';
 import os from 'os';
 import path from 'path';
 import { execSync } from 'child_process';
-import { buildRepositoryTree, GitRepositoryError } from '../src';
+import { buildRepositoryTree, createTreeCache, GitRepositoryError } from '../src';
 import { withRepo, createCommit, createTag, createTestFiles, getGitHash } from './utils';
 
 describe('index', () => {
@@ -48,6 +48,131 @@ describe('index', () => {
       });
     });
 
+    it('builds from the working tree when workingTree is set', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'NOTE.txt': 'committed' });
+        createCommit(repoPath, 'initial');
+        await createTestFiles(repoPath, { 'NOTE.txt': 'edited on disk', 'staged.txt': 'staged' });
+        execSync('git add staged.txt', { cwd: repoPath, stdio: 'ignore' });
+
+        const tree = await buildRepositoryTree({ repoPath, workingTree: true });
+
+        expect(tree.children.map((child) => [child.name, child.size])).toEqual([
+          ['NOTE.txt', Buffer.byteLength('edited on disk')],
+          ['staged.txt', Buffer.byteLength('staged')]
+        ]);
+      });
+    });
+
+    it('filters files before aggregating directory totals', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, {
+          'src/index.ts': 'index',
+          'src/generated/types.ts': 'generated types',
+          'vendor/lib.js': 'vendored',
+          'package-lock.json': '{}'
+        });
+        createCommit(repoPath, 'initial');
+
+        const tree = await buildRepositoryTree({
+          repoPath,
+          exclude: ['vendor/', 'package-lock.json', 'src/generated']
+        });
+
+        expect(tree.children.map((child) => child.relativePath)).toEqual(['src']);
+        expect(tree.children[0].children.map((child) => child.relativePath)).toEqual(['src/index.ts']);
+        expect(tree.size).toBe(Buffer.byteLength('index'));
+      });
+    });
+
+    it('re-roots the tree at a subdirectory while keeping repository-relative paths', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, {
+          'packages/web/src/App.tsx': 'app',
+          'packages/web/package.json': '{}',
+          'packages/core/index.ts': 'core',
+          'README.md': 'readme'
+        });
+        createCommit(repoPath, 'initial');
+        const cache = createTreeCache({ directory: path.join(repoPath, '.git', 'octo-tree') });
+
+        const tree = await buildRepositoryTree({ repoPath, root: 'packages/web/', cache });
+        const cached = await buildRepositoryTree({ repoPath, root: 'packages/web', cache });
+
+        expect(tree).toMatchObject({ name: 'web', relativePath: 'packages/web', depth: 0 });
+        expect(tree.children.map((child) => [child.relativePath, child.depth])).toEqual([
+          ['packages/web/src', 1],
+          ['packages/web/package.json', 1]
+        ]);
+        expect(tree.size).toBe(Buffer.byteLength('app') + Buffer.byteLength('{}'));
+        expect(cached).toEqual(tree);
+      });
+    });
+
+    it('rejects a root that does not exist at the ref', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'README.md': 'readme' });
+        createCommit(repoPath, 'initial');
+
+        await expect(buildRepositoryTree({ repoPath, root: 'does/not/exist' })).rejects.toThrow(
+          new GitRepositoryError('Root path is not a directory at HEAD: does/not/exist')
+        );
+      });
+    });
+
+    it('rejects a root that names a file', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'README.md': 'readme', 'src/index.ts': 'index' });
+        createCommit(repoPath, 'initial');
+
+        await expect(buildRepositoryTree({ repoPath, root: 'README.md' })).rejects.toThrow(GitRepositoryError);
+        await expect(buildRepositoryTree({ repoPath, root: 'src/index.ts', workingTree: true })).rejects.toThrow(
+          'Root path is not a directory: src/index.ts'
+        );
+      });
+    });
+
+    it('caches filtered trees separately from unfiltered ones', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'src/index.ts': 'index', 'docs/guide.md': 'guide' });
+        createCommit(repoPath, 'initial');
+        const cache = createTreeCache({ directory: path.join(repoPath, '.git', 'octo-tree') });
+
+        const filtered = await buildRepositoryTree({ repoPath, cache, include: ['src/'] });
+        const unfiltered = await buildRepositoryTree({ repoPath, cache });
+
+        expect(filtered.children.map((child) => child.relativePath)).toEqual(['src']);
+        expect(unfiltered.children.map((child) => child.relativePath)).toEqual(['docs', 'src']);
+      });
+    });
+
+    it('includes untracked files and tags nodes with their status when includeUntracked is set', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, {
+          '.gitignore': '*.log\n',
+          'NOTE.txt': 'committed',
+          'gone.txt': 'deleted soon'
+        });
+        createCommit(repoPath, 'initial');
+        await createTestFiles(repoPath, {
+          'NOTE.txt': 'edited on disk',
+          'draft/idea.md': 'untracked',
+          'debug.log': 'ignored'
+        });
+        execSync('git rm -q gone.txt', { cwd: repoPath, stdio: 'ignore' });
+
+        const tree = await buildRepositoryTree({ repoPath, includeUntracked: true });
+
+        expect(tree.children.map((child) => [child.relativePath, child.status, child.size])).toEqual([
+          ['draft', 'untracked', Buffer.byteLength('untracked')],
+          ['.gitignore', 'clean', Buffer.byteLength('*.log\n')],
+          ['gone.txt', 'deleted', 0],
+          ['NOTE.txt', 'modified', Buffer.byteLength('edited on disk')]
+        ]);
+        expect(tree.status).toBe('modified');
+      });
+    });
+
     it('throws a GitRepositoryError when the repository lacks commits and fallback is disabled', async () => {
       await withRepo(async (repoPath) => {
         await expect(() => buildRepositoryTree({ repoPath })).rejects.toBeInstanceOf(
@@ -189,5 +314,102 @@ describe('index', () => {
         ).rejects.toBeInstanceOf(GitRepositoryError);
       });
     });
+
+    it('attaches churn metrics when includeChurn is set', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'src/a.ts': 'one\n', 'README.md': 'readme\n' });
+        createCommit(repoPath, 'initial');
+        await createTestFiles(repoPath, { 'src/a.ts': 'one\ntwo\n' });
+        createCommit(repoPath, 'update');
+
+        const tree = await buildRepositoryTree({ repoPath, includeChurn: true });
+
+        const srcNode = tree.children.find((c) => c.name === 'src');
+        expect(srcNode?.children[0].churn).toMatchObject({ commits: 2, linesAdded: 2, linesRemoved: 0 });
+        expect(tree.churn).toMatchObject({ commits: 3, linesAdded: 3, linesRemoved: 0 });
+        expect(tree.churn?.lastCommit?.hash).toBe(getGitHash(repoPath, 'HEAD'));
+      });
+    });
+
+    it('omits churn metrics by default', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'file.txt': 'content' });
+        createCommit(repoPath, 'initial');
+
+        const tree = await buildRepositoryTree({ repoPath });
+
+        expect(tree.churn).toBeUndefined();
+        expect(tree.children[0].churn).toBeUndefined();
+      });
+    });
+
+    it('attaches authorship metrics when includeAuthorship is set', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'src/a.ts': 'one', 'README.md': 'readme' });
+        createCommit(repoPath, 'initial');
+
+        const tree = await buildRepositoryTree({ repoPath, includeAuthorship: true });
+
+        expect(tree.authorship).toEqual({
+          topAuthors: [{ name: 'Octo Tree Test', email: 'test@example.com', commits: 2 }],
+          busFactor: 1,
+          totalCommits: 2
+        });
+        const srcNode = tree.children.find((c) => c.name === 'src');
+        expect(srcNode?.authorship?.totalCommits).toBe(1);
+      });
+    });
+
+    it('reuses cached trees across commits that share a git tree', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'src/a.ts': 'one', 'README.md': 'readme' });
+        createCommit(repoPath, 'initial');
+        execSync('git commit --allow-empty -m "empty"', {
+          cwd: repoPath,
+          stdio: 'ignore',
+          env: { ...process.env, GIT_COMMITTER_DATE: '2030-01-01T00:00:00Z' }
+        });
+        const cache = createTreeCache({ directory: path.join(repoPath, '.git', 'octo-tree') });
+
+        await buildRepositoryTree({ repoPath, ref: 'HEAD~1', cache });
+        const cachedTree = await buildRepositoryTree({ repoPath, ref: 'HEAD', cache });
+        const freshTree = await buildRepositoryTree({ repoPath, ref: 'HEAD' });
+
+        expect(await fs.readdir(cache.directory)).toEqual([`${getGitHash(repoPath, 'HEAD^{tree}')}.json`]);
+        expect(cachedTree).toEqual(freshTree);
+        expect(cachedTree.mtimeMs).toBe(Date.parse('2030-01-01T00:00:00Z'));
+      });
+    });
+
+    it('keys history metrics by commit rather than tree', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'file.txt': 'content' });
+        createCommit(repoPath, 'initial');
+        const cache = createTreeCache({ directory: path.join(repoPath, '.git', 'octo-tree') });
+
+        const tree = await buildRepositoryTree({ repoPath, includeChurn: true, cache });
+        const cachedTree = await buildRepositoryTree({ repoPath, includeChurn: true, cache });
+
+        expect(await fs.readdir(cache.directory)).toEqual([`${getGitHash(repoPath, 'HEAD')}-churn.json`]);
+        expect(cachedTree).toEqual(tree);
+      });
+    });
+
+    it('builds normally when the cache cannot be read', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'file.txt': 'content' });
+        createCommit(repoPath, 'initial');
+        const cache = {
+          directory: '/unused',
+          read: () => Promise.reject(new Error('EACCES')),
+          write: () => Promise.reject(new Error('EACCES')),
+          clear: () => Promise.resolve()
+        };
+
+        const tree = await buildRepositoryTree({ repoPath, cache });
+
+        expect(tree).toEqual(await buildRepositoryTree({ repoPath }));
+      });
+    });
   });
 });
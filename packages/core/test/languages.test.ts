@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { applyLanguages, detectLanguage, summarizeLanguages } from '../src/languages';
+import { buildRepositoryTree, createIncrementalTreeBuilder } from '../src';
+import { createDirectoryNode, createFileNode } from '../src/tree-node';
+import type { TreeNode } from '../src/types';
+import { withRepo, createCommit, createTestFiles, getGitHash } from './utils';
+
+const createTree = (files: Array<[string, number]>): TreeNode => {
+  const root = createDirectoryNode('.', 'repo', 0);
+  root.children = files.map(([relativePath, size]) =>
+    createFileNode(relativePath, path.posix.basename(relativePath), 1, size, 0)
+  );
+  return root;
+};
+
+const findNode = (node: TreeNode, relativePath: string): TreeNode | undefined => {
+  if (node.relativePath === relativePath) {
+    return node;
+  }
+  for (const child of node.children) {
+    const found = findNode(child, relativePath);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+};
+
+describe('languages', () => {
+  describe('detectLanguage', () => {
+    it('detects languages by file name before extension', () => {
+      expect(detectLanguage('src/index.ts')).toBe('TypeScript');
+      expect(detectLanguage('web/App.TSX')).toBe('TSX');
+      expect(detectLanguage('docker/Dockerfile')).toBe('Dockerfile');
+      expect(detectLanguage('Makefile')).toBe('Makefile');
+      expect(detectLanguage('LICENSE')).toBeNull();
+      expect(detectLanguage('.env')).toBeNull();
+    });
+  });
+
+  describe('applyLanguages', () => {
+    it('honours linguist attributes, letting deeper files and later lines win', () => {
+      const tree = createTree([
+        ['src/a.ts', 1],
+        ['src/legacy/b.js', 1],
+        ['vendor/lib.js', 1],
+        ['build/out.js', 1],
+        ['scripts/run', 1]
+      ]);
+
+      applyLanguages(
+        tree,
+        new Map([
+          ['.', 'vendor/** linguist-vendored\n*.js linguist-generated\nscripts/run linguist-language=Shell'],
+          ['src', '*.js -linguist-generated\nlegacy/*.js linguist-language=TypeScript']
+        ])
+      );
+
+      expect(findNode(tree, 'src/a.ts')).toMatchObject({ language: 'TypeScript' });
+      expect(findNode(tree, 'src/legacy/b.js')).toMatchObject({ language: 'TypeScript' });
+      expect(findNode(tree, 'src/legacy/b.js')?.generated).toBeUndefined();
+      expect(findNode(tree, 'vendor/lib.js')).toMatchObject({ vendored: true, generated: true });
+      expect(findNode(tree, 'build/out.js')).toMatchObject({ language: 'JavaScript', generated: true });
+      expect(findNode(tree, 'scripts/run')).toMatchObject({ language: 'Shell' });
+    });
+
+    it('does not apply directory patterns to the files inside them', () => {
+      const tree = createTree([['vendor/lib.js', 1]]);
+
+      applyLanguages(tree, new Map([['.', 'vendor linguist-vendored\nvendor/ linguist-vendored']]));
+
+      expect(findNode(tree, 'vendor/lib.js')?.vendored).toBeUndefined();
+    });
+  });
+
+  describe('summarizeLanguages', () => {
+    it('totals files and bytes per language, skipping vendored and generated files', () => {
+      const tree = createTree([
+        ['a.ts', 300],
+        ['b.ts', 200],
+        ['c.md', 900],
+        ['d.js', 50],
+        ['e.js', 5000],
+        ['LICENSE', 1000]
+      ]);
+      applyLanguages(tree, new Map([['.', 'e.js linguist-generated']]));
+
+      expect(summarizeLanguages(tree)).toEqual([
+        { language: 'Markdown', files: 1, bytes: 900 },
+        { language: 'TypeScript', files: 2, bytes: 500 },
+        { language: 'JavaScript', files: 1, bytes: 50 }
+      ]);
+    });
+  });
+
+  describe('buildRepositoryTree', () => {
+    it('reads .gitattributes at the built ref and on disk for working tree builds', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, {
+          '.gitattributes': 'dist/** linguist-generated\n',
+          'src/main.ts': 'main',
+          'dist/main.js': 'bundle'
+        });
+        createCommit(repoPath, 'initial');
+        await fs.writeFile(path.join(repoPath, '.gitattributes'), '*.ts linguist-language=JavaScript\n');
+
+        const committed = await buildRepositoryTree({ repoPath });
+        const working = await buildRepositoryTree({ repoPath, workingTree: true });
+
+        expect(findNode(committed, 'dist/main.js')).toMatchObject({ language: 'JavaScript', generated: true });
+        expect(findNode(committed, 'src/main.ts')).toMatchObject({ language: 'TypeScript' });
+        expect(findNode(working, 'dist/main.js')?.generated).toBeUndefined();
+        expect(findNode(working, 'src/main.ts')).toMatchObject({ language: 'JavaScript' });
+      });
+    });
+
+    it('honours attributes above the root of a rooted tree', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, {
+          '.gitattributes': 'packages/web/generated/** linguist-generated\n',
+          'packages/web/generated/api.ts': 'api'
+        });
+        createCommit(repoPath, 'initial');
+
+        const tree = await buildRepositoryTree({ repoPath, root: 'packages/web' });
+
+        expect(findNode(tree, 'packages/web/generated/api.ts')).toMatchObject({ generated: true });
+      });
+    });
+
+    it('re-classifies incremental trees when attributes change', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'lib/util.js': 'util' });
+        createCommit(repoPath, 'initial');
+        const first = getGitHash(repoPath, 'HEAD');
+        await createTestFiles(repoPath, { '.gitattributes': 'lib/** linguist-vendored\n' });
+        createCommit(repoPath, 'vendor lib');
+        const second = getGitHash(repoPath, 'HEAD');
+
+        const builder = createIncrementalTreeBuilder({ repoPath });
+        await builder.build(first);
+        const incremental = await builder.build(second);
+
+        expect(incremental).toEqual(await buildRepositoryTree({ repoPath, ref: second }));
+        expect(findNode(incremental, 'lib/util.js')).toMatchObject({ vendored: true });
+      });
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createPathFilter,
+  normalizeRootPath,
+  resolvePathFilterKey
+} from '../src/path-filter';
+import { GitRepositoryError } from '../src/types';
+
+describe('path-filter', () => {
+  describe('createPathFilter', () => {
+    it('returns null without patterns', () => {
+      expect(createPathFilter({})).toBeNull();
+      expect(createPathFilter({ include: [' '], exclude: [] })).toBeNull();
+    });
+
+    it('matches patterns without a slash at any depth', () => {
+      const filter = createPathFilter({ exclude: ['package-lock.json', '*.min.js'] });
+
+      expect(filter?.('package-lock.json')).toBe(false);
+      expect(filter?.('packages/web/package-lock.json')).toBe(false);
+      expect(filter?.('public/vendor.min.js')).toBe(false);
+      expect(filter?.('public/app.js')).toBe(true);
+    });
+
+    it('excludes everything below a matching directory', () => {
+      const filter = createPathFilter({ exclude: ['vendor/', '/generated'] });
+
+      expect(filter?.('vendor/lib.js')).toBe(false);
+      expect(filter?.('src/vendor/lib.js')).toBe(false);
+      expect(filter?.('generated/types.ts')).toBe(false);
+      expect(filter?.('src/generated/types.ts')).toBe(true);
+      // Trailing slashes only match directories
+      expect(filter?.('src/vendor')).toBe(true);
+    });
+
+    it('keeps only included files, minus exclusions', () => {
+      const filter = createPathFilter({ include: ['src', 'README.md'], exclude: ['**/*.test.ts'] });
+
+      expect(filter?.('src/index.ts')).toBe(true);
+      expect(filter?.('src/index.test.ts')).toBe(false);
+      expect(filter?.('README.md')).toBe(true);
+      expect(filter?.('docs/guide.md')).toBe(false);
+    });
+
+    it('keeps only files matching both include and narrowing include patterns', () => {
+      const filter = createPathFilter({ include: ['src', 'docs'], narrowInclude: ['*.md'] });
+
+      expect(filter?.('docs/guide.md')).toBe(true);
+      expect(filter?.('src/notes.md')).toBe(true);
+      expect(filter?.('src/index.ts')).toBe(false);
+      expect(filter?.('README.md')).toBe(false);
+    });
+
+    it('keeps only files below the root, matching patterns against repository paths', () => {
+      const filter = createPathFilter({ root: 'packages/web', exclude: ['/packages/web/dist'] });
+
+      expect(filter?.('packages/web/src/App.tsx')).toBe(true);
+      expect(filter?.('packages/web/dist/index.js')).toBe(false);
+      expect(filter?.('packages/webapp/index.ts')).toBe(false);
+      expect(filter?.('README.md')).toBe(false);
+    });
+  });
+
+  describe('normalizeRootPath', () => {
+    it('strips dots and surrounding slashes', () => {
+      expect(normalizeRootPath('./packages/web/')).toBe('packages/web');
+      expect(normalizeRootPath('/packages//core')).toBe('packages/core');
+      expect(normalizeRootPath('.')).toBeNull();
+      expect(normalizeRootPath(undefined)).toBeNull();
+    });
+
+    it('rejects paths leaving the repository', () => {
+      expect(() => normalizeRootPath('../other')).toThrow(GitRepositoryError);
+    });
+  });
+
+  describe('resolvePathFilterKey', () => {
+    it('is null without patterns and stable for equal patterns', () => {
+      expect(resolvePathFilterKey({ include: [], exclude: [''] })).toBeNull();
+      expect(resolvePathFilterKey({ exclude: ['vendor/'] })).toBe(resolvePathFilterKey({ exclude: [' vendor/ '] }));
+      expect(resolvePathFilterKey({ exclude: ['vendor/'] })).not.toBe(resolvePathFilterKey({ include: ['vendor/'] }));
+      expect(resolvePathFilterKey({ root: 'src/' })).toBe(resolvePathFilterKey({ root: './src' }));
+      expect(resolvePathFilterKey({ root: '.' })).toBeNull();
+    });
+
+    it('tells narrowing include patterns apart from include patterns', () => {
+      expect(resolvePathFilterKey({ narrowInclude: ['*.md'] })).not.toBeNull();
+      expect(resolvePathFilterKey({ include: ['src'], narrowInclude: ['*.md'] })).not.toBe(
+        resolvePathFilterKey({ include: ['src', '*.md'] })
+      );
+      expect(resolvePathFilterKey({ include: ['src'], narrowInclude: [] })).toBe(resolvePathFilterKey({ include: ['src'] }));
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createTreeCache,
+  resolveDefaultCacheDirectory,
+  resolveTreeCacheKey,
+  restampTree
+} from '../src/tree-cache';
+import { createDirectoryNode, createFileNode } from '../src/tree-node';
+import { withRepo } from './utils';
+
+const createSampleTree = (mtimeMs = 1000) => {
+  const root = createDirectoryNode('.', 'repo', 0, mtimeMs);
+  root.children.push(createFileNode('a.txt', 'a.txt', 1, 12, mtimeMs));
+  root.size = 12;
+  return root;
+};
+
+const withCacheDir = async <T>(testFn: (directory: string) => Promise<T>): Promise<T> => {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'octotree-cache-test-'));
+  try {
+    return await testFn(directory);
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+};
+
+const setEntryAge = async (directory: string, key: string, secondsAgo: number) => {
+  const time = new Date(Date.now() - secondsAgo * 1000);
+  await fs.utimes(path.join(directory, `${key}.json`), time, time);
+};
+
+describe('tree-cache', () => {
+  describe('resolveTreeCacheKey', () => {
+    it('keys plain trees by tree hash', () => {
+      expect(resolveTreeCacheKey({ treeHash: 'tree1', commitHash: 'commit1' })).toBe('tree1');
+    });
+
+    it('keys history metrics by commit hash and option', () => {
+      expect(
+        resolveTreeCacheKey({ treeHash: 'tree1', commitHash: 'commit1', includeChurn: true, includeAuthorship: true })
+      ).toBe('commit1-churn-authors');
+      expect(resolveTreeCacheKey({ treeHash: 'tree1', commitHash: 'commit1', includeAuthorship: true })).toBe(
+        'commit1-authors'
+      );
+    });
+
+    it('suffixes filtered trees with a digest of their patterns', () => {
+      const key = resolveTreeCacheKey({ treeHash: 'tree1', commitHash: 'commit1', exclude: ['vendor/'] });
+
+      expect(key).toMatch(/^tree1-filter-[0-9a-f]{12}$/);
+      expect(resolveTreeCacheKey({ treeHash: 'tree1', commitHash: 'commit1', include: ['vendor/'] })).not.toBe(key);
+    });
+
+    it('falls back to the tree hash without a commit', () => {
+      expect(resolveTreeCacheKey({ treeHash: 'tree1', commitHash: null, includeChurn: true })).toBe('tree1');
+    });
+  });
+
+  describe('restampTree', () => {
+    it('replaces every timestamp and the root name', () => {
+      const tree = restampTree(createSampleTree(1000), 5000, 'other');
+
+      expect(tree.name).toBe('other');
+      expect(tree.mtimeMs).toBe(5000);
+      expect(tree.children[0].mtimeMs).toBe(5000);
+      expect(tree.children[0].name).toBe('a.txt');
+    });
+  });
+
+  describe('createTreeCache', () => {
+    it('returns null for missing entries', async () => {
+      await withCacheDir(async (directory) => {
+        const cache = createTreeCache({ directory: path.join(directory, 'nested') });
+        expect(await cache.read('missing')).toBeNull();
+      });
+    });
+
+    it('round-trips trees through disk', async () => {
+      await withCacheDir(async (directory) => {
+        const cache = createTreeCache({ directory: path.join(directory, 'nested') });
+        const tree = createSampleTree();
+
+        await cache.write('tree1', tree);
+
+        expect(await cache.read('tree1')).toEqual(tree);
+        expect(await createTreeCache({ directory: path.join(directory, 'nested') }).read('tree1')).toEqual(tree);
+      });
+    });
+
+    it('discards corrupt and outdated entries', async () => {
+      await withCacheDir(async (directory) => {
+        const cache = createTreeCache({ directory });
+        await fs.writeFile(path.join(directory, 'corrupt.json'), '{not json');
+        await fs.writeFile(path.join(directory, 'old.json'), JSON.stringify({ version: 0, tree: createSampleTree() }));
+
+        expect(await cache.read('corrupt')).toBeNull();
+        expect(await cache.read('old')).toBeNull();
+        expect(await fs.readdir(directory)).toEqual([]);
+      });
+    });
+
+    it('evicts least recently used entries beyond maxEntries', async () => {
+      await withCacheDir(async (directory) => {
+        const cache = createTreeCache({ directory, maxEntries: 2 });
+        await cache.write('first', createSampleTree());
+        await setEntryAge(directory, 'first', 30);
+        await cache.write('second', createSampleTree());
+        await setEntryAge(directory, 'second', 20);
+
+        // Reading refreshes `first`, leaving `second` as the least recently used entry
+        await cache.read('first');
+        await cache.write('third', createSampleTree());
+
+        expect((await fs.readdir(directory)).sort()).toEqual(['first.json', 'third.json']);
+      });
+    });
+
+    it('evicts entries until the total size fits maxBytes', async () => {
+      await withCacheDir(async (directory) => {
+        const unlimited = createTreeCache({ directory });
+        await unlimited.write('first', createSampleTree());
+        await setEntryAge(directory, 'first', 10);
+        const { size } = await fs.stat(path.join(directory, 'first.json'));
+
+        const cache = createTreeCache({ directory, maxBytes: size + 1 });
+        await cache.write('second', createSampleTree());
+
+        expect(await fs.readdir(directory)).toEqual(['second.json']);
+      });
+    });
+
+    it('only rescans the directory once a write crosses a limit', async () => {
+      await withCacheDir(async (directory) => {
+        const cache = createTreeCache({ directory, maxEntries: 3 });
+        const readdir = vi.spyOn(fs, 'readdir');
+        try {
+          await cache.write('first', createSampleTree());
+          await cache.write('second', createSampleTree());
+          await cache.write('third', createSampleTree());
+          expect(readdir).toHaveBeenCalledTimes(1);
+
+          await setEntryAge(directory, 'first', 30);
+          await cache.write('fourth', createSampleTree());
+          expect(readdir).toHaveBeenCalledTimes(2);
+        } finally {
+          readdir.mockRestore();
+        }
+
+        expect((await fs.readdir(directory)).sort()).toEqual(['fourth.json', 'second.json', 'third.json']);
+      });
+    });
+
+    it('clears all entries', async () => {
+      await withCacheDir(async (directory) => {
+        const cache = createTreeCache({ directory });
+        await cache.write('first', createSampleTree());
+        await cache.write('second', createSampleTree());
+
+        await cache.clear();
+
+        expect(await fs.readdir(directory)).toEqual([]);
+      });
+    });
+  });
+
+  describe('resolveDefaultCacheDirectory', () => {
+    it('places the cache inside the git directory', async () => {
+      await withRepo(async (repoPath) => {
+        const directory = await resolveDefaultCacheDirectory(repoPath);
+
+        expect(directory).toBe(path.join(await fs.realpath(repoPath), '.git', 'octo-tree'));
+      });
+    });
+
+    it('throws for paths outside a repository', async () => {
+      await withCacheDir(async (directory) => {
+        await expect(resolveDefaultCacheDirectory(directory)).rejects.toThrow('Failed to locate git repository');
+      });
+    });
+  });
+});
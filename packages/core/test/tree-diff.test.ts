@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { execSync } from 'child_process';
+import { mergeTreeDiff } from '../src/tree-diff';
+import { createDirectoryNode, createFileNode } from '../src/tree-node';
+import type { TreeNode } from '../src/types';
+import { diffRepositoryTrees, GitRepositoryError } from '../src';
+import { withRepo, createCommit, createTag, createTestFiles } from './utils';
+
+const findNode = (node: TreeNode, relativePath: string): TreeNode | undefined => {
+  if (node.relativePath === relativePath) {
+    return node;
+  }
+  for (const child of node.children) {
+    const match = findNode(child, relativePath);
+    if (match) {
+      return match;
+    }
+  }
+  return undefined;
+};
+
+describe('tree-diff', () => {
+  describe('mergeTreeDiff', () => {
+    it('tags files and directories with their change status', () => {
+      const base = createDirectoryNode('.', 'repo', 0);
+      const baseLib = createDirectoryNode('lib', 'lib', 1);
+      baseLib.children = [createFileNode('lib/old.ts', 'old.ts', 2, 40, 0)];
+      base.children = [baseLib, createFileNode('keep.txt', 'keep.txt', 1, 10, 0), createFileNode('edit.txt', 'edit.txt', 1, 10, 0)];
+
+      const head = createDirectoryNode('.', 'repo', 0);
+      const headSrc = createDirectoryNode('src', 'src', 1);
+      headSrc.children = [createFileNode('src/new.ts', 'new.ts', 2, 25, 0)];
+      head.children = [headSrc, createFileNode('keep.txt', 'keep.txt', 1, 10, 0), createFileNode('edit.txt', 'edit.txt', 1, 16, 0)];
+
+      const { tree, summary } = mergeTreeDiff(base, head, [
+        { status: 'removed', path: 'lib/old.ts' },
+        { status: 'added', path: 'src/new.ts' },
+        { status: 'modified', path: 'edit.txt' }
+      ]);
+
+      expect(findNode(tree, 'keep.txt')?.change).toEqual({ status: 'unchanged', baseSize: 10, sizeDelta: 0 });
+      expect(findNode(tree, 'edit.txt')?.change).toEqual({ status: 'modified', baseSize: 10, sizeDelta: 6 });
+      expect(findNode(tree, 'src')?.change?.status).toBe('added');
+      expect(findNode(tree, 'lib')?.change).toEqual({ status: 'removed', baseSize: 40, sizeDelta: -40 });
+      expect(findNode(tree, 'lib/old.ts')?.size).toBe(0);
+      expect(tree.change).toEqual({ status: 'modified', baseSize: 60, sizeDelta: -9 });
+      expect(summary).toEqual({ added: 1, removed: 1, modified: 1, renamed: 0, unchanged: 1 });
+    });
+
+    it('records the previous path for renamed files', () => {
+      const base = createDirectoryNode('.', 'repo', 0);
+      base.children = [createFileNode('a.txt', 'a.txt', 1, 10, 0)];
+      const head = createDirectoryNode('.', 'repo', 0);
+      head.children = [createFileNode('b.txt', 'b.txt', 1, 12, 0)];
+
+      const { tree, summary } = mergeTreeDiff(base, head, [
+        { status: 'renamed', path: 'b.txt', previousPath: 'a.txt' }
+      ]);
+
+      expect(findNode(tree, 'b.txt')?.change).toEqual({
+        status: 'renamed',
+        baseSize: 10,
+        sizeDelta: 2,
+        previousPath: 'a.txt'
+      });
+      expect(findNode(tree, 'a.txt')).toBeUndefined();
+      expect(tree.change?.status).toBe('modified');
+      expect(summary.renamed).toBe(1);
+    });
+  });
+
+  describe('diffRepositoryTrees', () => {
+    it('diffs the repository between two tags', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, {
+          'docs/guide.md': 'guide',
+          'src/index.ts': 'export const a = 1;\n',
+          'src/moved.ts': 'a fairly long file body that git can track as a rename\n'
+        });
+        createCommit(repoPath, 'initial');
+        createTag(repoPath, 'v1');
+
+        execSync('git rm -q -r docs && git mv src/moved.ts src/renamed.ts', { cwd: repoPath });
+        await createTestFiles(repoPath, {
+          'src/index.ts': 'export const a = 2;\nexport const b = 3;\n',
+          'test/index.test.ts': 'test'
+        });
+        createCommit(repoPath, 'refactor');
+        createTag(repoPath, 'v2');
+
+        const diff = await diffRepositoryTrees(repoPath, 'v1', 'v2');
+
+        expect(diff.baseRef).toBe('v1');
+        expect(diff.headRef).toBe('v2');
+        expect(diff.summary).toEqual({ added: 1, removed: 1, modified: 1, renamed: 1, unchanged: 0 });
+        expect(findNode(diff.tree, 'docs')?.change?.status).toBe('removed');
+        expect(findNode(diff.tree, 'test')?.change?.status).toBe('added');
+        expect(findNode(diff.tree, 'src/renamed.ts')?.change?.previousPath).toBe('src/moved.ts');
+        expect(findNode(diff.tree, 'src/index.ts')?.change?.sizeDelta).toBe(20);
+      });
+    });
+
+    it('leaves filtered files out of both sides and the summary', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'src/index.ts': 'v1', 'vendor/lib.js': 'lib' });
+        createCommit(repoPath, 'initial');
+        createTag(repoPath, 'v1');
+        execSync('git rm -q -r vendor', { cwd: repoPath });
+        await createTestFiles(repoPath, { 'src/index.ts': 'v2 is longer', 'package-lock.json': '{}' });
+        createCommit(repoPath, 'update');
+        createTag(repoPath, 'v2');
+
+        const diff = await diffRepositoryTrees(repoPath, 'v1', 'v2', {
+          exclude: ['vendor/', 'package-lock.json']
+        });
+
+        expect(diff.summary).toEqual({ added: 0, removed: 0, modified: 1, renamed: 0, unchanged: 0 });
+        expect(diff.tree.children.map((child) => child.relativePath)).toEqual(['src']);
+      });
+    });
+
+    it('rejects unknown refs with a GitRepositoryError', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'file.txt': 'content' });
+        createCommit(repoPath, 'initial');
+
+        await expect(diffRepositoryTrees(repoPath, 'missing', 'HEAD')).rejects.toBeInstanceOf(
+          GitRepositoryError
+        );
+      });
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, it, expect, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { execSync } from 'child_process';
+import { buildRepositoryTree, createIncrementalTreeBuilder, createTreeCache } from '../src';
+import { applyTreeChanges } from '../src/tree-incremental';
+import { insertFileNode } from '../src/tree-builder';
+import { withRepo, createCommit, createTestFiles, getGitHash, createTestTreeStructure } from './utils';
+
+const commitAll = (repoPath: string, message: string): string => {
+  execSync('git add -A', { cwd: repoPath, stdio: 'ignore' });
+  execSync(`git commit --allow-empty -m "${message}"`, { cwd: repoPath, stdio: 'ignore' });
+  return getGitHash(repoPath, 'HEAD');
+};
+
+describe('tree-incremental', () => {
+  describe('applyTreeChanges', () => {
+    it('upserts and removes files, pruning emptied directories', () => {
+      const { rootNode, nodeMap, childIdMap } = createTestTreeStructure();
+      insertFileNode(rootNode, nodeMap, childIdMap, 'src/a.ts', 10, 1);
+      insertFileNode(rootNode, nodeMap, childIdMap, 'docs/readme.md', 5, 1);
+
+      const tree = applyTreeChanges(
+        rootNode,
+        [
+          { status: 'upserted', path: 'src/a.ts', blobHash: 'a2' },
+          { status: 'upserted', path: 'src/b.ts', blobHash: 'b1' },
+          { status: 'removed', path: 'docs/readme.md' }
+        ],
+        new Map([['a2', 20], ['b1', 7]]),
+        5000
+      );
+
+      expect(tree.children.map((child) => child.relativePath)).toEqual(['src']);
+      expect(tree.children[0].children.map((child) => [child.name, child.size])).toEqual([
+        ['a.ts', 20],
+        ['b.ts', 7]
+      ]);
+      expect(tree.size).toBe(27);
+      expect(tree.mtimeMs).toBe(5000);
+    });
+  });
+
+  describe('createIncrementalTreeBuilder', () => {
+    it('produces the same trees as full builds across a commit sequence', async () => {
+      await withRepo(async (repoPath) => {
+        const commits: string[] = [];
+
+        await createTestFiles(repoPath, {
+          'src/index.ts': 'index',
+          'src/lib/util.ts': 'util',
+          'docs/guide.md': 'guide',
+          'entry': 'a file that becomes a directory'
+        });
+        createCommit(repoPath, 'initial');
+        commits.push(getGitHash(repoPath, 'HEAD'));
+
+        await createTestFiles(repoPath, { 'src/index.ts': 'index, now longer', 'src/new.ts': 'new' });
+        commits.push(commitAll(repoPath, 'modify and add'));
+
+        await fs.rm(path.join(repoPath, 'docs'), { recursive: true });
+        await fs.rm(path.join(repoPath, 'entry'));
+        await createTestFiles(repoPath, { 'entry/child.txt': 'now a directory' });
+        commits.push(commitAll(repoPath, 'remove directory and swap file for directory'));
+
+        execSync('git mv src/lib/util.ts src/helpers.ts', { cwd: repoPath });
+        commits.push(commitAll(repoPath, 'rename'));
+
+        commits.push(commitAll(repoPath, 'empty'));
+
+        const builder = createIncrementalTreeBuilder({ repoPath });
+        for (const commit of commits) {
+          const incremental = await builder.build(commit);
+          const full = await buildRepositoryTree({ repoPath, ref: commit });
+          expect(incremental).toEqual(full);
+        }
+
+        // Walking backwards applies the reverse changes
+        const first = await builder.build(commits[0]);
+        expect(first).toEqual(await buildRepositoryTree({ repoPath, ref: commits[0] }));
+      });
+    });
+
+    it('applies include and exclude patterns like a full build', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'src/a.ts': 'a', 'src/a.test.ts': 'test', 'docs/guide.md': 'guide' });
+        createCommit(repoPath, 'initial');
+        const first = getGitHash(repoPath, 'HEAD');
+        await createTestFiles(repoPath, { 'src/b.ts': 'b', 'src/b.test.ts': 'test', 'docs/more.md': 'more' });
+        const second = commitAll(repoPath, 'add files');
+
+        const filters = { include: ['src/'], exclude: ['*.test.ts'] };
+        const builder = createIncrementalTreeBuilder({ repoPath, ...filters });
+        await builder.build(first);
+        const incremental = await builder.build(second);
+
+        expect(incremental).toEqual(await buildRepositoryTree({ repoPath, ref: second, ...filters }));
+        expect(incremental.children[0].children.map((child) => child.name)).toEqual(['a.ts', 'b.ts']);
+      });
+    });
+
+    it('rejects a derived tree whose root was removed', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'packages/web/a.ts': 'a', 'README.md': 'r' });
+        createCommit(repoPath, 'initial');
+        const first = getGitHash(repoPath, 'HEAD');
+        await fs.rm(path.join(repoPath, 'packages'), { recursive: true });
+        const second = commitAll(repoPath, 'remove the package');
+
+        const builder = createIncrementalTreeBuilder({ repoPath, root: 'packages/web' });
+        await builder.build(first);
+
+        await expect(builder.build(second)).rejects.toThrow('Root path is not a directory at');
+      });
+    });
+
+    it('derives rooted trees like a full build', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'packages/web/a.ts': 'a', 'packages/web/old/b.ts': 'b', 'README.md': 'r' });
+        createCommit(repoPath, 'initial');
+        const first = getGitHash(repoPath, 'HEAD');
+        await createTestFiles(repoPath, { 'packages/web/c.ts': 'c', 'README.md': 'readme' });
+        await fs.rm(path.join(repoPath, 'packages/web/old'), { recursive: true });
+        const second = commitAll(repoPath, 'add and remove files');
+
+        const builder = createIncrementalTreeBuilder({ repoPath, root: 'packages/web' });
+        await builder.build(first);
+        const incremental = await builder.build(second);
+
+        expect(incremental).toEqual(await buildRepositoryTree({ repoPath, ref: second, root: 'packages/web' }));
+        expect(incremental.children.map((child) => child.relativePath)).toEqual([
+          'packages/web/a.ts',
+          'packages/web/c.ts'
+        ]);
+      });
+    });
+
+    it('does not mutate trees it returned earlier', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'a.txt': 'a' });
+        createCommit(repoPath, 'initial');
+        const first = getGitHash(repoPath, 'HEAD');
+        await createTestFiles(repoPath, { 'b.txt': 'b' });
+        const second = commitAll(repoPath, 'add b');
+
+        const builder = createIncrementalTreeBuilder({ repoPath });
+        const firstTree = await builder.build(first);
+        const snapshot = structuredClone(firstTree);
+        await builder.build(second);
+
+        expect(firstTree).toEqual(snapshot);
+      });
+    });
+
+    it('reads and writes the tree cache for derived trees', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'a.txt': 'a' });
+        createCommit(repoPath, 'initial');
+        const first = getGitHash(repoPath, 'HEAD');
+        await createTestFiles(repoPath, { 'b.txt': 'b' });
+        const second = commitAll(repoPath, 'add b');
+        const cache = createTreeCache({ directory: path.join(repoPath, '.git', 'octo-tree') });
+
+        const builder = createIncrementalTreeBuilder({ repoPath, cache });
+        await builder.build(first);
+        const derived = await builder.build(second);
+
+        expect(await cache.read(getGitHash(repoPath, `${second}^{tree}`))).toEqual(derived);
+
+        const readSpy = vi.spyOn(cache, 'read');
+        const rebuilt = createIncrementalTreeBuilder({ repoPath, cache });
+        await rebuilt.build(first);
+        expect(await rebuilt.build(second)).toEqual(derived);
+        expect(readSpy).toHaveBeenCalledWith(getGitHash(repoPath, `${second}^{tree}`));
+      });
+    });
+
+    it('starts over with a full build after reset', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'a.txt': 'a' });
+        createCommit(repoPath, 'initial');
+
+        const builder = createIncrementalTreeBuilder({ repoPath });
+        const firstTree = await builder.build('HEAD');
+        builder.reset();
+
+        expect(await builder.build('HEAD')).toEqual(firstTree);
+      });
+    });
+
+    it('rejects unknown refs without breaking later builds', async () => {
+      await withRepo(async (repoPath) => {
+        await createTestFiles(repoPath, { 'a.txt': 'a' });
+        createCommit(repoPath, 'initial');
+
+        const builder = createIncrementalTreeBuilder({ repoPath });
+        await expect(builder.build('does-not-exist')).rejects.toThrow();
+        expect((await builder.build('HEAD')).children.map((child) => child.name)).toEqual(['a.txt']);
+      });
+    });
+  });
+});
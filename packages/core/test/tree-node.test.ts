@@ -6,7 +6,11 @@ import {
   createDirectoryNode,
   createFileNode,
   sortChildrenRecursively,
-  aggregateDirectoryMetadata
+  aggregateDirectoryMetadata,
+  applyChurnMetrics,
+  aggregateAuthorship,
+  aggregateFileStatus,
+  computeBusFactor
 } from '../src/tree-node';
 import type { TreeNode } from '../src/types';
 
@@ -166,6 +170,144 @@ describe('tree-node', () => {
       expect(root.size).toBe(300);
       expect(root.mtimeMs).toBe(2000);
     });
+
+    it('aggregates churn metrics from files into directories', () => {
+      const root = createDirectoryNode('.', 'root', 0);
+      const sub = createDirectoryNode('sub', 'sub', 1);
+      const file1 = createFileNode('sub/file1.txt', 'file1.txt', 2, 100, 1000);
+      const file2 = createFileNode('file2.txt', 'file2.txt', 1, 200, 2000);
+      file1.churn = { commits: 3, linesAdded: 10, linesRemoved: 2, lastCommit: { hash: 'a', timestamp: 500 } };
+      file2.churn = { commits: 1, linesAdded: 4, linesRemoved: 0, lastCommit: { hash: 'b', timestamp: 900 } };
+
+      sub.children = [file1];
+      root.children = [sub, file2];
+
+      aggregateDirectoryMetadata(root);
+
+      expect(sub.churn).toEqual(file1.churn);
+      expect(root.churn).toEqual({
+        commits: 4,
+        linesAdded: 14,
+        linesRemoved: 2,
+        lastCommit: { hash: 'b', timestamp: 900 }
+      });
+    });
+
+    it('leaves churn undefined when no file carries metrics', () => {
+      const root = createDirectoryNode('.', 'root', 0);
+      root.children = [createFileNode('file.txt', 'file.txt', 1, 100, 1000)];
+
+      aggregateDirectoryMetadata(root);
+
+      expect(root.churn).toBeUndefined();
+    });
   });
-});
 
+  describe('applyChurnMetrics', () => {
+    it('attaches metrics to file nodes and zeroes files without history', () => {
+      const dir = createDirectoryNode('src', 'src', 1);
+      const tracked = createFileNode('src/a.ts', 'a.ts', 2, 10, 0);
+      const untouched = createFileNode('src/b.ts', 'b.ts', 2, 10, 0);
+      const nodeMap = new Map<string, TreeNode>([
+        ['src', dir],
+        ['src/a.ts', tracked],
+        ['src/b.ts', untouched]
+      ]);
+      const metrics = { commits: 2, linesAdded: 5, linesRemoved: 1, lastCommit: { hash: 'c', timestamp: 1 } };
+
+      applyChurnMetrics(nodeMap, new Map([['src/a.ts', metrics]]));
+
+      expect(tracked.churn).toEqual(metrics);
+      expect(untouched.churn).toEqual({ commits: 0, linesAdded: 0, linesRemoved: 0, lastCommit: null });
+      expect(dir.churn).toBeUndefined();
+    });
+  });
+
+  describe('computeBusFactor', () => {
+    it('returns the number of authors needed to cover more than half of the commits', () => {
+      expect(computeBusFactor([])).toBe(0);
+      expect(computeBusFactor([{ name: 'a', email: 'a@x', commits: 5 }])).toBe(1);
+      expect(
+        computeBusFactor([
+          { name: 'a', email: 'a@x', commits: 3 },
+          { name: 'b', email: 'b@x', commits: 3 },
+          { name: 'c', email: 'c@x', commits: 2 }
+        ])
+      ).toBe(2);
+    });
+  });
+
+  describe('aggregateAuthorship', () => {
+    it('rolls author commit counts up through directories', () => {
+      const root = createDirectoryNode('.', 'root', 0);
+      const sub = createDirectoryNode('sub', 'sub', 1);
+      const file1 = createFileNode('sub/a.ts', 'a.ts', 2, 10, 0);
+      const file2 = createFileNode('b.ts', 'b.ts', 1, 10, 0);
+      const untouched = createFileNode('c.ts', 'c.ts', 1, 10, 0);
+      sub.children = [file1];
+      root.children = [sub, file2, untouched];
+
+      const merged = aggregateAuthorship(
+        root,
+        new Map([
+          ['sub/a.ts', [{ name: 'Ada', email: 'ada@x', commits: 4 }]],
+          [
+            'b.ts',
+            [
+              { name: 'Ada', email: 'ada@x', commits: 1 },
+              { name: 'Bob', email: 'bob@x', commits: 3 }
+            ]
+          ]
+        ])
+      );
+
+      expect(merged.size).toBe(2);
+      expect(sub.authorship).toEqual({
+        topAuthors: [{ name: 'Ada', email: 'ada@x', commits: 4 }],
+        busFactor: 1,
+        totalCommits: 4
+      });
+      expect(root.authorship).toEqual({
+        topAuthors: [
+          { name: 'Ada', email: 'ada@x', commits: 5 },
+          { name: 'Bob', email: 'bob@x', commits: 3 }
+        ],
+        busFactor: 1,
+        totalCommits: 8
+      });
+      expect(untouched.authorship).toEqual({ topAuthors: [], busFactor: 0, totalCommits: 0 });
+    });
+  });
+
+  describe('aggregateFileStatus', () => {
+    it('tags files and rolls statuses up through directories', () => {
+      const root = createDirectoryNode('.', 'root', 0);
+      const added = createDirectoryNode('added', 'added', 1);
+      const mixed = createDirectoryNode('mixed', 'mixed', 1);
+      const empty = createDirectoryNode('empty', 'empty', 1);
+      const newFile = createFileNode('added/new.ts', 'new.ts', 2, 10, 0);
+      const otherNewFile = createFileNode('added/other.ts', 'other.ts', 2, 10, 0);
+      const edited = createFileNode('mixed/edited.ts', 'edited.ts', 2, 10, 0);
+      const clean = createFileNode('mixed/clean.ts', 'clean.ts', 2, 10, 0);
+      added.children = [newFile, otherNewFile];
+      mixed.children = [edited, clean];
+      root.children = [added, mixed, empty];
+
+      const status = aggregateFileStatus(
+        root,
+        new Map([
+          ['added/new.ts', 'untracked'],
+          ['added/other.ts', 'untracked'],
+          ['mixed/edited.ts', 'staged']
+        ])
+      );
+
+      expect(status).toBe('modified');
+      expect(added.status).toBe('untracked');
+      expect(mixed.status).toBe('modified');
+      expect(clean.status).toBe('clean');
+      expect(edited.status).toBe('staged');
+      expect(empty.status).toBe('clean');
+    });
+  });
+});
@@ -1,13 +1,27 @@
 import express from 'express';
 import { existsSync } from 'fs';
-import { buildRepositoryTree, type TreeNode, type RepositoryTree } from '@octotree/core';
+import {
+  buildRepositoryTree,
+  diffRepositoryTrees,
+  GitRepositoryError,
+  listCommitsForBranch,
+  listRepositoryRefs,
+  normalizeRootPath,
+  summarizeLanguages,
+  type TreeNode,
+  type RepositoryTree,
+  type RepositoryTreeDiff,
+  type RepositoryRefs,
+  type PathFilterOptions
+} from '@octotree/core';
 import type {
   AppInstance,
-  AppDependencies
+  AppDependencies,
+  TreeRequestOptions
 } from './types';
 import { collectGitStats } from '@octotree/core';
 import { resolveStaticAssets } from './static-assets';
-import { createTreeRoutes } from './routes';
+import { createRefRoutes, createTreeRoutes } from './routes';
 
 export const createApp = (
   repoPath: string,
@@ -19,35 +33,101 @@ export const createApp = (
   app.use(express.json());
 
   const buildPromises = new Map<string, Promise<TreeNode>>();
+  const diffPromises = new Map<string, Promise<RepositoryTreeDiff>>();
 
   const buildTree = dependencies?.buildRepositoryTreeFn ?? buildRepositoryTree;
   const collectStats = dependencies?.collectGitStatsFn ?? collectGitStats;
+  const diffTrees = dependencies?.diffRepositoryTreesFn ?? diffRepositoryTrees;
+  const listRefs = dependencies?.listRepositoryRefsFn ?? listRepositoryRefs;
+  const listCommits = dependencies?.listCommitsForBranchFn ?? listCommitsForBranch;
+  const treeCache = dependencies?.treeCache;
+  const incrementalBuilder = dependencies?.incrementalBuilder;
+  const watcher = dependencies?.watcher;
+  const pathFilters = dependencies?.pathFilters ?? {};
+
+  // Requests can only narrow the server's filters: excludes add up, a file must match both the
+  // server's and the request's includes, and a requested root must lie inside the server's
+  const mergePathFilters = (filters: PathFilterOptions): PathFilterOptions => {
+    const serverRoot = normalizeRootPath(pathFilters.root);
+    const requestedRoot = normalizeRootPath(filters.root);
+    if (serverRoot && requestedRoot && requestedRoot !== serverRoot && !requestedRoot.startsWith(`${serverRoot}/`)) {
+      throw new GitRepositoryError(`Root must be inside the server root ${serverRoot}: ${requestedRoot}`);
+    }
+    const root = requestedRoot ?? serverRoot;
+    const serverInclude = pathFilters.include ?? [];
+    const requestedInclude = filters.include ?? [];
+    const include = serverInclude.length > 0 ? serverInclude : requestedInclude;
+    const narrowInclude = serverInclude.length > 0 ? requestedInclude : [];
+    const exclude = [...(pathFilters.exclude ?? []), ...(filters.exclude ?? [])];
+    return {
+      ...(root ? { root } : {}),
+      ...(include.length > 0 ? { include } : {}),
+      ...(narrowInclude.length > 0 ? { narrowInclude } : {}),
+      ...(exclude.length > 0 ? { exclude } : {})
+    };
+  };
+
+  // Working-tree builds are keyed per change event, so a request after a change never joins a
+  // build that started before it and would answer with the old files
+  let workingTreeVersion = 0;
+  watcher?.subscribe(() => {
+    workingTreeVersion += 1;
+  });
 
   const resolveRef = (requestedRef?: string): {
     key: string;
     refForBuild: string;
     allowFallback: boolean;
+    workingTree: boolean;
   } => {
     if (requestedRef?.trim()) {
       const ref = requestedRef.trim();
-      return { key: ref, refForBuild: ref, allowFallback: false };
+      return { key: ref, refForBuild: ref, allowFallback: false, workingTree: false };
     }
     return {
-      key: defaultRef,
+      // Colons cannot appear in ref names, so this never clashes with an explicit ref
+      key: watcher ? `working-tree:${workingTreeVersion}` : defaultRef,
       refForBuild: defaultRef,
-      allowFallback: allowFallbackToWorkingTree
+      allowFallback: allowFallbackToWorkingTree,
+      // In live mode the default view tracks files on disk rather than the last commit
+      workingTree: watcher != null
     };
   };
 
-  const buildTreeForRef = async (requestedRef?: string): Promise<RepositoryTree> => {
-    const { key, refForBuild, allowFallback } = resolveRef(requestedRef);
+  // Builds with different options produce different payloads, so they must not share a promise
+  const resolveBuildKey = (refKey: string, options: TreeRequestOptions): string => {
+    const optionKeys = Object.entries(options)
+      .filter(([, value]) => value !== undefined && value !== false)
+      .map(([name, value]) => `${name}=${JSON.stringify(value)}`)
+      .sort();
+    return optionKeys.length > 0 ? `${refKey}?${optionKeys.join('&')}` : refKey;
+  };
+
+  const buildTreeForRef = async (
+    requestedRef?: string,
+    options: TreeRequestOptions = {}
+  ): Promise<RepositoryTree> => {
+    const { key: refKey, refForBuild, allowFallback, workingTree } = resolveRef(requestedRef);
+    // A server started with --ref always shows that revision, never files on disk
+    if (options.includeUntracked && !allowFallbackToWorkingTree) {
+      throw new GitRepositoryError('The untracked option cannot be used when the server is pinned to a ref');
+    }
+    const key = resolveBuildKey(refKey, options);
     let promise = buildPromises.get(key);
     if (!promise) {
-      promise = buildTree({
-        repoPath,
-        ref: refForBuild,
-        allowFallbackToWorkingTree: allowFallback
-      });
+      // Only plain trees at explicit refs can be derived; opt-in metrics need a full build
+      const canBuildIncrementally = incrementalBuilder && !allowFallback && key === refKey;
+      promise = canBuildIncrementally
+        ? incrementalBuilder.build(refForBuild)
+        : buildTree({
+            repoPath,
+            ref: refForBuild,
+            allowFallbackToWorkingTree: allowFallback,
+            ...(workingTree ? { workingTree } : {}),
+            ...options,
+            ...mergePathFilters(options),
+            ...(treeCache ? { cache: treeCache } : {})
+          });
       buildPromises.set(key, promise);
     }
 
@@ -55,28 +135,64 @@ export const createApp = (
     try {
       tree = await promise;
     } finally {
-      buildPromises.delete(key);
+      // A refresh may have replaced the entry with a newer build
+      if (buildPromises.get(key) === promise) {
+        buildPromises.delete(key);
+      }
     }
 
     const gitStats = await collectStats(repoPath, refForBuild);
     const entry: RepositoryTree = {
       tree,
       lastUpdated: Date.now(),
-      gitStats
+      gitStats,
+      languages: summarizeLanguages(tree)
     };
     return entry;
   };
 
-  const refreshTreeForRef = async (requestedRef?: string): Promise<RepositoryTree> => {
+  const refreshTreeForRef = async (
+    requestedRef?: string,
+    options: TreeRequestOptions = {}
+  ): Promise<RepositoryTree> => {
     const { key } = resolveRef(requestedRef);
-    buildPromises.delete(key);
-    return buildTreeForRef(requestedRef);
+    buildPromises.delete(resolveBuildKey(key, options));
+    return buildTreeForRef(requestedRef, options);
   };
 
+  const diffTreesForRefs = async (
+    baseRef: string,
+    headRef: string,
+    filters: PathFilterOptions = {}
+  ): Promise<RepositoryTreeDiff> => {
+    const key = resolveBuildKey(`${baseRef}..${headRef}`, filters);
+    let promise = diffPromises.get(key);
+    if (!promise) {
+      promise = diffTrees(repoPath, baseRef, headRef, { cache: treeCache, ...mergePathFilters(filters) });
+      diffPromises.set(key, promise);
+    }
+    try {
+      return await promise;
+    } finally {
+      diffPromises.delete(key);
+    }
+  };
+
+  // Refs move with every commit, so they are listed fresh for each request
+  const listRefsForRepo = (): Promise<RepositoryRefs> => listRefs(repoPath);
+  // Only commits changing the files a tree with the same filters would show
+  const listCommitsForRef = async (requestedRef?: string, filters: PathFilterOptions = {}): Promise<string[]> =>
+    listCommits(repoPath, requestedRef?.trim() || defaultRef, mergePathFilters(filters));
+
   // Setup routes
-  const treeRoutes = createTreeRoutes(buildTreeForRef, refreshTreeForRef);
+  const treeRoutes = createTreeRoutes(buildTreeForRef, refreshTreeForRef, diffTreesForRefs, watcher);
   app.get('/api/tree', treeRoutes.getTree);
   app.post('/api/tree/refresh', treeRoutes.refreshTree);
+  app.get('/api/diff', treeRoutes.getDiff);
+  app.get('/api/events', treeRoutes.getEvents);
+  const refRoutes = createRefRoutes(listRefsForRepo, listCommitsForRef);
+  app.get('/api/refs', refRoutes.getRefs);
+  app.get('/api/commits', refRoutes.getCommits);
 
   // Setup static assets
   const { root: staticRoot, indexPath } = resolveStaticAssets();
@@ -99,7 +215,10 @@ export const createApp = (
   return {
     app,
     getTree: buildTreeForRef,
-    refreshTree: refreshTreeForRef
+    refreshTree: refreshTreeForRef,
+    getDiff: diffTreesForRefs,
+    getRefs: listRefsForRepo,
+    getCommits: listCommitsForRef
   };
 };
 
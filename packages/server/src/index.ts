@@ -1,13 +1,40 @@
 import http from 'http';
-import type { TreeNode } from '@octotree/core';
-import type { ServerOptions, AppDependencies } from './types';
+import { createTreeCache, createIncrementalTreeBuilder, resolveDefaultCacheDirectory } from '@octotree/core';
+import type { TreeNode, TreeCache } from '@octotree/core';
+import type {
+  ServerOptions,
+  AppDependencies,
+  TreeRequestOptions,
+  RepositoryWatcher,
+  RepositoryChangeEvent
+} from './types';
 import { createApp } from './app';
+import { createRepositoryWatcher } from './watcher';
+
+// Without a resolvable cache location the server still works, it just rebuilds every tree
+const resolveTreeCache = async (repoPath: string, cacheDir?: string): Promise<TreeCache | undefined> => {
+  if (cacheDir) {
+    return createTreeCache({ directory: cacheDir });
+  }
+  try {
+    return createTreeCache({ directory: await resolveDefaultCacheDirectory(repoPath) });
+  } catch {
+    return undefined;
+  }
+};
 
 export const startServer = async ({
   port = 3000,
   repoPath,
   ref,
-  silent = false
+  silent = false,
+  cache = true,
+  cacheDir,
+  incremental = false,
+  watch = false,
+  root,
+  include,
+  exclude
 }: ServerOptions): Promise<http.Server> => {
   if (!repoPath) {
     throw new Error('Server requires a repository path');
@@ -15,8 +42,25 @@ export const startServer = async ({
 
   const gitRef = ref ?? 'HEAD';
   const allowFallbackToWorkingTree = ref == null;
-  const { app, refreshTree } = createApp(repoPath, gitRef, allowFallbackToWorkingTree);
-  await refreshTree(gitRef);
+  const treeCache = cache ? await resolveTreeCache(repoPath, cacheDir) : undefined;
+  const pathFilters = root || include || exclude ? { root, include, exclude } : undefined;
+  const incrementalBuilder = incremental
+    ? createIncrementalTreeBuilder({ repoPath, cache: treeCache, root, include, exclude })
+    : undefined;
+  // Watching only makes sense for the working tree; a pinned ref never changes
+  const watcher = watch && ref == null ? await createRepositoryWatcher(repoPath) : undefined;
+  const { app, refreshTree } = createApp(repoPath, gitRef, allowFallbackToWorkingTree, {
+    treeCache,
+    incrementalBuilder,
+    watcher,
+    pathFilters
+  });
+  try {
+    await refreshTree(watcher ? undefined : gitRef);
+  } catch (error) {
+    watcher?.close();
+    throw error;
+  }
 
   return new Promise((resolve, reject) => {
     const server = app.listen(port, () => {
@@ -26,10 +70,21 @@ export const startServer = async ({
       resolve(server);
     });
     server.on('error', (error) => {
+      watcher?.close();
       reject(error);
     });
+    server.on('close', () => {
+      watcher?.close();
+    });
   });
 };
 
-export { createApp };
-export type { TreeNode, AppDependencies, ServerOptions };
+export { createApp, createRepositoryWatcher };
+export type {
+  TreeNode,
+  AppDependencies,
+  ServerOptions,
+  TreeRequestOptions,
+  RepositoryWatcher,
+  RepositoryChangeEvent
+};
@@ -1,24 +1,99 @@
 import type { Request, Response } from 'express';
-import { GitRepositoryError, type RepositoryTree } from '@octotree/core';
+import {
+  GitRepositoryError,
+  type PathFilterOptions,
+  type RepositoryRefs,
+  type RepositoryTree,
+  type RepositoryTreeDiff
+} from '@octotree/core';
+import type { RepositoryWatcher, TreeRequestOptions } from './types';
 
-export const extractRefParam = (req: Request): string | undefined => {
-  const { ref } = req.query;
-  if (typeof ref === 'string' && ref.trim().length > 0) {
-    return ref.trim();
+type TreeHandler = (ref?: string, options?: TreeRequestOptions) => Promise<RepositoryTree>;
+type DiffHandler = (
+  baseRef: string,
+  headRef: string,
+  filters?: PathFilterOptions
+) => Promise<RepositoryTreeDiff>;
+type RefsHandler = () => Promise<RepositoryRefs>;
+type CommitsHandler = (ref?: string, filters?: PathFilterOptions) => Promise<string[]>;
+
+const extractStringParam = (req: Request, name: string): string | undefined => {
+  const value = req.query[name];
+  if (typeof value === 'string' && value.trim().length > 0) {
+    return value.trim();
   }
   return undefined;
 };
 
+export const extractRefParam = (req: Request): string | undefined => {
+  return extractStringParam(req, 'ref');
+};
+
+// Repeated parameters (`?exclude=a&exclude=b`) arrive as arrays
+const extractListParam = (req: Request, name: string): string[] => {
+  const value = req.query[name];
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((item): item is string => typeof item === 'string')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+};
+
+export const extractPathFilters = (req: Request): PathFilterOptions => {
+  const filters: PathFilterOptions = {};
+  const root = extractStringParam(req, 'root');
+  if (root) {
+    filters.root = root;
+  }
+  const include = extractListParam(req, 'include');
+  const exclude = extractListParam(req, 'exclude');
+  if (include.length > 0) {
+    filters.include = include;
+  }
+  if (exclude.length > 0) {
+    filters.exclude = exclude;
+  }
+  return filters;
+};
+
+export const parseBooleanParam = (value: unknown): boolean => {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  const normalized = value.trim().toLowerCase();
+  return normalized === 'true' || normalized === '1';
+};
+
+export const extractTreeOptions = (req: Request): TreeRequestOptions => {
+  const options: TreeRequestOptions = extractPathFilters(req);
+  if (parseBooleanParam(req.query.churn)) {
+    options.includeChurn = true;
+  }
+  if (parseBooleanParam(req.query.authors)) {
+    options.includeAuthorship = true;
+  }
+  if (parseBooleanParam(req.query.untracked)) {
+    options.includeUntracked = true;
+  }
+  return options;
+};
+
 export const handleTreeRequest = async (
   req: Request,
   res: Response,
-  handler: (ref?: string) => Promise<RepositoryTree>,
+  handler: TreeHandler,
   errorMessage: string
 ): Promise<void> => {
   const requestedRef = extractRefParam(req);
+  const options = extractTreeOptions(req);
+  // Untracked files only exist in the working tree, never at a ref
+  if (options.includeUntracked && requestedRef) {
+    res.status(400).json({ error: 'The untracked option cannot be combined with ref' });
+    return;
+  }
   try {
-    const { tree, lastUpdated, gitStats } = await handler(requestedRef);
-    res.json({ tree, lastUpdated, gitStats });
+    const { tree, lastUpdated, gitStats, languages } = await handler(requestedRef, options);
+    res.json({ tree, lastUpdated, gitStats, languages });
   } catch (error) {
     if (error instanceof GitRepositoryError) {
       res.status(400).json({ error: error.message });
@@ -29,9 +104,98 @@ export const handleTreeRequest = async (
   }
 };
 
+export const handleDiffRequest = async (
+  req: Request,
+  res: Response,
+  handler: DiffHandler
+): Promise<void> => {
+  const baseRef = extractStringParam(req, 'base');
+  const headRef = extractStringParam(req, 'head');
+  if (!baseRef || !headRef) {
+    res.status(400).json({ error: 'Both base and head query parameters are required' });
+    return;
+  }
+  try {
+    const diff = await handler(baseRef, headRef, extractPathFilters(req));
+    res.json(diff);
+  } catch (error) {
+    if (error instanceof GitRepositoryError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error(error);
+    res.status(500).json({ error: 'Failed to diff repository trees' });
+  }
+};
+
+export const handleRefsRequest = async (
+  _req: Request,
+  res: Response,
+  handler: RefsHandler
+): Promise<void> => {
+  try {
+    res.json(await handler());
+  } catch (error) {
+    if (error instanceof GitRepositoryError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error(error);
+    res.status(500).json({ error: 'Failed to list repository refs' });
+  }
+};
+
+export const handleCommitsRequest = async (
+  req: Request,
+  res: Response,
+  handler: CommitsHandler
+): Promise<void> => {
+  try {
+    res.json({ commits: await handler(extractRefParam(req), extractPathFilters(req)) });
+  } catch (error) {
+    if (error instanceof GitRepositoryError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error(error);
+    res.status(500).json({ error: 'Failed to list repository commits' });
+  }
+};
+
+const EVENT_STREAM_RETRY_MS = 2000;
+
+/**
+ * Streams repository change notifications as Server-Sent Events. Clients refetch `/api/tree`
+ * with their own query parameters when a `change` event arrives.
+ */
+export const handleEventsRequest = (
+  req: Request,
+  res: Response,
+  watcher: RepositoryWatcher | undefined
+): void => {
+  if (!watcher) {
+    res.status(404).json({ error: 'Live updates require the server to run in watch mode' });
+    return;
+  }
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+  res.write(`retry: ${EVENT_STREAM_RETRY_MS}\n\n`);
+
+  const unsubscribe = watcher.subscribe((event) => {
+    res.write(`event: change\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+  req.on('close', unsubscribe);
+};
+
 export const createTreeRoutes = (
-  buildTreeForRef: (ref?: string) => Promise<RepositoryTree>,
-  refreshTreeForRef: (ref?: string) => Promise<RepositoryTree>
+  buildTreeForRef: TreeHandler,
+  refreshTreeForRef: TreeHandler,
+  diffTreesForRefs: DiffHandler,
+  watcher?: RepositoryWatcher
 ) => {
   return {
     getTree: async (req: Request, res: Response) => {
@@ -39,7 +203,23 @@ export const createTreeRoutes = (
     },
     refreshTree: async (req: Request, res: Response) => {
       await handleTreeRequest(req, res, refreshTreeForRef, 'Failed to refresh repository tree');
+    },
+    getDiff: async (req: Request, res: Response) => {
+      await handleDiffRequest(req, res, diffTreesForRefs);
+    },
+    getEvents: (req: Request, res: Response) => {
+      handleEventsRequest(req, res, watcher);
     }
   };
 };
 
+export const createRefRoutes = (listRefs: RefsHandler, listCommits: CommitsHandler) => {
+  return {
+    getRefs: async (req: Request, res: Response) => {
+      await handleRefsRequest(req, res, listRefs);
+    },
+    getCommits: async (req: Request, res: Response) => {
+      await handleCommitsRequest(req, res, listCommits);
+    }
+  };
+};
@@ -1,22 +1,82 @@
 import type { Express } from 'express';
-import type { RepositoryTree } from '@octotree/core';
-import { buildRepositoryTree, collectGitStats } from '@octotree/core';
+import type {
+  RepositoryTree,
+  RepositoryTreeDiff,
+  RepositoryRefs,
+  BuildTreeOptions,
+  TreeCache,
+  IncrementalTreeBuilder,
+  PathFilterOptions
+} from '@octotree/core';
+import {
+  buildRepositoryTree,
+  collectGitStats,
+  diffRepositoryTrees,
+  listCommitsForBranch,
+  listRepositoryRefs
+} from '@octotree/core';
 
 export interface ServerOptions {
   port?: number;
   repoPath: string;
   ref?: string;
   silent?: boolean;
+  /** Persist built trees between requests and runs; defaults to true */
+  cache?: boolean;
+  /** Overrides the default `<git-common-dir>/octo-tree` cache location */
+  cacheDir?: string;
+  /** Derive each requested commit's tree from the previously requested one (used by `video`) */
+  incremental?: boolean;
+  /** Serve the working tree and push change events over `/api/events`; ignored when `ref` is set */
+  watch?: boolean;
+  /** Repository-relative directory every tree and diff is re-rooted at */
+  root?: string;
+  /** Gitignore-style globs limiting every tree and diff to matching files */
+  include?: string[];
+  /** Gitignore-style globs for files hidden from every tree and diff */
+  exclude?: string[];
 }
 
+/**
+ * Per-request tree build options that clients may opt into via query parameters.
+ */
+export type TreeRequestOptions = Pick<
+  BuildTreeOptions,
+  'includeChurn' | 'includeAuthorship' | 'includeUntracked' | 'root' | 'include' | 'exclude'
+>;
+
 export interface AppInstance {
   app: Express;
-  getTree: (ref?: string) => Promise<RepositoryTree>;
-  refreshTree: (ref?: string) => Promise<RepositoryTree>;
+  getTree: (ref?: string, options?: TreeRequestOptions) => Promise<RepositoryTree>;
+  refreshTree: (ref?: string, options?: TreeRequestOptions) => Promise<RepositoryTree>;
+  getDiff: (baseRef: string, headRef: string, filters?: PathFilterOptions) => Promise<RepositoryTreeDiff>;
+  getRefs: () => Promise<RepositoryRefs>;
+  /** Commits reachable from `ref` (the default ref when omitted) that change filtered files, oldest first */
+  getCommits: (ref?: string, filters?: PathFilterOptions) => Promise<string[]>;
+}
+
+export interface RepositoryChangeEvent {
+  /** Repository-relative paths that changed since the previous event */
+  paths: string[];
+  timestamp: number;
+}
+
+export interface RepositoryWatcher {
+  subscribe: (listener: (event: RepositoryChangeEvent) => void) => () => void;
+  close: () => void;
 }
 
 export interface AppDependencies {
   buildRepositoryTreeFn?: typeof buildRepositoryTree;
   collectGitStatsFn?: typeof collectGitStats;
+  diffRepositoryTreesFn?: typeof diffRepositoryTrees;
+  listRepositoryRefsFn?: typeof listRepositoryRefs;
+  listCommitsForBranchFn?: typeof listCommitsForBranch;
+  treeCache?: TreeCache;
+  incrementalBuilder?: IncrementalTreeBuilder;
+  /** Enables live mode: default trees come from the working tree and changes are pushed to clients */
+  watcher?: RepositoryWatcher;
+  /** Server-wide root and include/exclude patterns; requests may pick another root and add patterns */
+  pathFilters?: PathFilterOptions;
 }
 
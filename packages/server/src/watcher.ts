@@ -0,0 +1,107 @@
+import fs from 'fs';
+import path from 'path';
+import { listIgnoredPaths, resolveRepoRoot } from '@octotree/core';
+import type { RepositoryChangeEvent, RepositoryWatcher } from './types';
+
+export const DEFAULT_WATCH_DEBOUNCE_MS = 300;
+
+export interface RepositoryWatcherOptions {
+  debounceMs?: number;
+  watchFn?: typeof fs.watch;
+  listIgnoredPathsFn?: typeof listIgnoredPaths;
+}
+
+const GIT_DIRECTORY = '.git';
+
+// Inside .git only the index (staging) and HEAD/refs (new commits) change what the server shows
+const isRelevantGitPath = (relativePath: string): boolean => {
+  return (
+    relativePath === `${GIT_DIRECTORY}/index` ||
+    relativePath === `${GIT_DIRECTORY}/HEAD` ||
+    relativePath.startsWith(`${GIT_DIRECTORY}/refs/`)
+  );
+};
+
+const isGitPath = (relativePath: string): boolean => {
+  return relativePath === GIT_DIRECTORY || relativePath.startsWith(`${GIT_DIRECTORY}/`);
+};
+
+/**
+ * Watches the repository recursively and notifies subscribers once changes settle. Paths excluded
+ * by gitignore and git's own bookkeeping files are dropped, so build output does not trigger rebuilds.
+ */
+export const createRepositoryWatcher = async (
+  repoPath: string,
+  {
+    debounceMs = DEFAULT_WATCH_DEBOUNCE_MS,
+    watchFn = fs.watch,
+    listIgnoredPathsFn = listIgnoredPaths
+  }: RepositoryWatcherOptions = {}
+): Promise<RepositoryWatcher> => {
+  const repoRoot = await resolveRepoRoot(repoPath);
+  const listeners = new Set<(event: RepositoryChangeEvent) => void>();
+  const pendingPaths = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+
+  const flush = async (): Promise<void> => {
+    timer = null;
+    const paths = [...pendingPaths];
+    pendingPaths.clear();
+
+    let ignored = new Set<string>();
+    try {
+      ignored = await listIgnoredPathsFn(
+        repoRoot,
+        paths.filter((changedPath) => !isGitPath(changedPath))
+      );
+    } catch (error) {
+      // Err on the side of refreshing when gitignore rules cannot be evaluated
+      console.warn('Failed to evaluate gitignore rules for changed paths:', error);
+    }
+
+    const relevantPaths = paths.filter((changedPath) => !ignored.has(changedPath));
+    if (relevantPaths.length === 0) {
+      return;
+    }
+    const event: RepositoryChangeEvent = { paths: relevantPaths, timestamp: Date.now() };
+    listeners.forEach((listener) => listener(event));
+  };
+
+  const handleChange = (_eventType: string, filename: string | Buffer | null): void => {
+    // Some platforms omit the filename; treat that as a change to the repository root
+    const relativePath = filename ? filename.toString().split(path.sep).join('/') : '.';
+    if (isGitPath(relativePath) && !isRelevantGitPath(relativePath)) {
+      return;
+    }
+    pendingPaths.add(relativePath);
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => {
+      flush().catch((error) => console.warn('Failed to process file changes:', error));
+    }, debounceMs);
+  };
+
+  const fsWatcher = watchFn(repoRoot, { recursive: true }, handleChange);
+  fsWatcher.on('error', (error) => {
+    console.warn('File watcher error:', error);
+  });
+
+  const subscribe = (listener: (event: RepositoryChangeEvent) => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const close = (): void => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    listeners.clear();
+    fsWatcher.close();
+  };
+
+  return { subscribe, close };
+};
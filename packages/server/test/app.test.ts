@@ -1,6 +1,15 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { GitRepositoryError, type TreeNode, buildRepositoryTree, collectGitStats } from '@octotree/core';
+import {
+  GitRepositoryError,
+  type TreeNode,
+  buildRepositoryTree,
+  collectGitStats,
+  diffRepositoryTrees,
+  listCommitsForBranch,
+  listRepositoryRefs
+} from '@octotree/core';
 import { createApp } from '../src/app';
+import type { RepositoryChangeEvent } from '../src/types';
 import { createTree, createDeferred, getRouteHandler, createMockRequest, createMockResponse } from './utils';
 
 describe('app', () => {
@@ -38,6 +47,33 @@ describe('app', () => {
       expect(firstResult.gitStats).toEqual({ totalCommits: 5, latestCommitTimestamp: 1700000000000 });
     });
 
+    it('summarizes languages in the tree response', async () => {
+      const tree = createTree({
+        children: [
+          createTree({ id: 'file:a.ts', type: 'file', relativePath: 'a.ts', size: 40, language: 'TypeScript' }),
+          createTree({
+            id: 'file:b.js',
+            type: 'file',
+            relativePath: 'b.js',
+            size: 90,
+            language: 'JavaScript',
+            vendored: true
+          })
+        ]
+      });
+      buildRepositoryTreeMock.mockResolvedValue(tree);
+      collectGitStatsMock.mockResolvedValue(null);
+
+      const appInstance = createApp('/repo', 'HEAD', false, {
+        buildRepositoryTreeFn: buildRepositoryTreeMock as typeof buildRepositoryTree,
+        collectGitStatsFn: collectGitStatsMock as typeof collectGitStats
+      });
+
+      const result = await appInstance.getTree();
+
+      expect(result.languages).toEqual([{ language: 'TypeScript', files: 1, bytes: 40 }]);
+    });
+
     it('forces a rebuild when refreshTree is invoked', async () => {
       const initialTree = createTree({ id: 'initial' });
       const refreshedTree = createTree({ id: 'refreshed' });
@@ -160,6 +196,341 @@ describe('app', () => {
       });
     });
 
+    it('serves tree diffs on /api/diff', async () => {
+      const diff = {
+        tree: createTree(),
+        baseRef: 'v1',
+        headRef: 'v2',
+        summary: { added: 0, removed: 0, modified: 0, renamed: 0, unchanged: 0 }
+      };
+      const diffRepositoryTreesMock = vi.fn().mockResolvedValue(diff);
+
+      const appInstance = createApp('/repo', 'HEAD', false, {
+        buildRepositoryTreeFn: buildRepositoryTreeMock as typeof buildRepositoryTree,
+        collectGitStatsFn: collectGitStatsMock as typeof collectGitStats,
+        diffRepositoryTreesFn: diffRepositoryTreesMock as typeof diffRepositoryTrees
+      });
+      const handler = getRouteHandler(appInstance.app, '/api/diff', 'get');
+      const req = createMockRequest({ query: { base: 'v1', head: 'v2' } });
+      const res = createMockResponse();
+
+      await handler(req, res);
+
+      expect(diffRepositoryTreesMock).toHaveBeenCalledWith('/repo', 'v1', 'v2', { cache: undefined });
+      expect(res.json).toHaveBeenCalledWith(diff);
+    });
+
+    it('lists repository refs on /api/refs', async () => {
+      const refs = {
+        head: 'main',
+        branches: [{ name: 'main', hash: 'abc', timestamp: 1700000000000 }],
+        tags: [],
+        commits: []
+      };
+      const listRepositoryRefsMock = vi.fn().mockResolvedValue(refs);
+
+      const appInstance = createApp('/repo', 'HEAD', false, {
+        buildRepositoryTreeFn: buildRepositoryTreeMock as typeof buildRepositoryTree,
+        collectGitStatsFn: collectGitStatsMock as typeof collectGitStats,
+        listRepositoryRefsFn: listRepositoryRefsMock as typeof listRepositoryRefs
+      });
+      const handler = getRouteHandler(appInstance.app, '/api/refs', 'get');
+      const res = createMockResponse();
+
+      await handler(createMockRequest(), res);
+
+      expect(listRepositoryRefsMock).toHaveBeenCalledWith('/repo');
+      expect(res.json).toHaveBeenCalledWith(refs);
+    });
+
+    it('lists commits for the requested or default ref on /api/commits', async () => {
+      const listCommitsForBranchMock = vi.fn().mockResolvedValue(['abc', 'def']);
+
+      const appInstance = createApp('/repo', 'main', false, {
+        buildRepositoryTreeFn: buildRepositoryTreeMock as typeof buildRepositoryTree,
+        collectGitStatsFn: collectGitStatsMock as typeof collectGitStats,
+        listCommitsForBranchFn: listCommitsForBranchMock as typeof listCommitsForBranch
+      });
+      const handler = getRouteHandler(appInstance.app, '/api/commits', 'get');
+      const res = createMockResponse();
+
+      await handler(createMockRequest(), res);
+      await handler(createMockRequest({ query: { ref: 'v1' } }), createMockResponse());
+
+      expect(listCommitsForBranchMock).toHaveBeenNthCalledWith(1, '/repo', 'main', {});
+      expect(listCommitsForBranchMock).toHaveBeenNthCalledWith(2, '/repo', 'v1', {});
+      expect(res.json).toHaveBeenCalledWith({ commits: ['abc', 'def'] });
+    });
+
+    it('lists only commits changing files kept by the server and request filters', async () => {
+      const listCommitsForBranchMock = vi.fn().mockResolvedValue(['abc']);
+
+      const appInstance = createApp('/repo', 'main', false, {
+        buildRepositoryTreeFn: buildRepositoryTreeMock as typeof buildRepositoryTree,
+        collectGitStatsFn: collectGitStatsMock as typeof collectGitStats,
+        listCommitsForBranchFn: listCommitsForBranchMock as typeof listCommitsForBranch,
+        pathFilters: { root: 'packages', exclude: ['*.lock'] }
+      });
+
+      await appInstance.getCommits('v1', { root: 'packages/web', include: ['src/'] });
+
+      expect(listCommitsForBranchMock).toHaveBeenCalledWith('/repo', 'v1', {
+        root: 'packages/web',
+        include: ['src/'],
+        exclude: ['*.lock']
+      });
+    });
+
+    it('passes request options to the tree builder', async () => {
+      buildRepositoryTreeMock.mockResolvedValueOnce(createTree());
+      collectGitStatsMock.mockResolvedValue(null);
+
+      const appInstance = createApp('/repo', 'HEAD', false, {
+        buildRepositoryTreeFn: buildRepositoryTreeMock as typeof buildRepositoryTree,
+        collectGitStatsFn: collectGitStatsMock as typeof collectGitStats
+      });
+
+      await appInstance.getTree('main', { includeAuthorship: true });
+
+      expect(buildRepositoryTreeMock).toHaveBeenCalledWith({
+        repoPath: '/repo',
+        ref: 'main',
+        allowFallbackToWorkingTree: false,
+        includeAuthorship: true
+      });
+    });
+
+    it('passes the tree cache to the tree builder and differ', async () => {
+      buildRepositoryTreeMock.mockResolvedValueOnce(createTree());
+      collectGitStatsMock.mockResolvedValue(null);
+      const diffRepositoryTreesMock = vi.fn().mockResolvedValue({});
+      const treeCache = { directory: '/cache', read: vi.fn(), write: vi.fn(), clear: vi.fn() };
+
+      const appInstance = createApp('/repo', 'HEAD', false, {
+        buildRepositoryTreeFn: buildRepositoryTreeMock as typeof buildRepositoryTree,
+        collectGitStatsFn: collectGitStatsMock as typeof collectGitStats,
+        diffRepositoryTreesFn: diffRepositoryTreesMock as typeof diffRepositoryTrees,
+        treeCache
+      });
+
+      await appInstance.getTree('main');
+      await appInstance.getDiff('v1', 'v2');
+
+      expect(buildRepositoryTreeMock).toHaveBeenCalledWith({
+        repoPath: '/repo',
+        ref: 'main',
+        allowFallbackToWorkingTree: false,
+        cache: treeCache
+      });
+      expect(diffRepositoryTreesMock).toHaveBeenCalledWith('/repo', 'v1', 'v2', { cache: treeCache });
+    });
+
+    it('builds plain trees at explicit refs with the incremental builder', async () => {
+      collectGitStatsMock.mockResolvedValue(null);
+      buildRepositoryTreeMock.mockResolvedValue(createTree({ id: 'full' }));
+      const incrementalBuilder = {
+        build: vi.fn().mockResolvedValue(createTree({ id: 'incremental' })),
+        reset: vi.fn()
+      };
+
+      const appInstance = createApp('/repo', 'HEAD', true, {
+        buildRepositoryTreeFn: buildRepositoryTreeMock as typeof buildRepositoryTree,
+        collectGitStatsFn: collectGitStatsMock as typeof collectGitStats,
+        incrementalBuilder
+      });
+
+      const explicit = await appInstance.getTree('abc123');
+      const withOptions = await appInstance.getTree('abc123', { includeAuthorship: true });
+      const fallback = await appInstance.getTree();
+
+      expect(explicit.tree.id).toBe('incremental');
+      expect(incrementalBuilder.build).toHaveBeenCalledTimes(1);
+      expect(incrementalBuilder.build).toHaveBeenCalledWith('abc123');
+      expect(withOptions.tree.id).toBe('full');
+      expect(fallback.tree.id).toBe('full');
+    });
+
+    it('combines server-wide path filters with request filters', async () => {
+      collectGitStatsMock.mockResolvedValue(null);
+      buildRepositoryTreeMock.mockResolvedValue(createTree());
+      const diffRepositoryTreesMock = vi.fn().mockResolvedValue({});
+
+      const appInstance = createApp('/repo', 'HEAD', false, {
+        buildRepositoryTreeFn: buildRepositoryTreeMock as typeof buildRepositoryTree,
+        collectGitStatsFn: collectGitStatsMock as typeof collectGitStats,
+        diffRepositoryTreesFn: diffRepositoryTreesMock as typeof diffRepositoryTrees,
+        pathFilters: { exclude: ['vendor/'] }
+      });
+
+      await appInstance.getTree('main');
+      await appInstance.getTree('main', { include: ['src/'], exclude: ['*.lock'] });
+      await appInstance.getDiff('v1', 'v2', { exclude: ['*.lock'] });
+
+      expect(buildRepositoryTreeMock).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ exclude: ['vendor/'] })
+      );
+      expect(buildRepositoryTreeMock).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ include: ['src/'], exclude: ['vendor/', '*.lock'] })
+      );
+      expect(diffRepositoryTreesMock).toHaveBeenCalledWith('/repo', 'v1', 'v2', {
+        cache: undefined,
+        exclude: ['vendor/', '*.lock']
+      });
+    });
+
+    it('lets a requested root narrow the server-wide root but not leave it', async () => {
+      collectGitStatsMock.mockResolvedValue(null);
+      buildRepositoryTreeMock.mockResolvedValue(createTree());
+
+      const appInstance = createApp('/repo', 'HEAD', false, {
+        buildRepositoryTreeFn: buildRepositoryTreeMock as typeof buildRepositoryTree,
+        collectGitStatsFn: collectGitStatsMock as typeof collectGitStats,
+        pathFilters: { root: 'packages/web' }
+      });
+
+      await appInstance.getTree('main');
+      await appInstance.getTree('main', { root: 'packages/web/src' });
+      await expect(appInstance.getTree('main', { root: 'packages/core' })).rejects.toThrow(
+        'Root must be inside the server root packages/web: packages/core'
+      );
+      await expect(appInstance.getTree('main', { root: 'packages/web-old' })).rejects.toThrow(GitRepositoryError);
+
+      expect(buildRepositoryTreeMock).toHaveBeenCalledTimes(2);
+      expect(buildRepositoryTreeMock).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ root: 'packages/web' })
+      );
+      expect(buildRepositoryTreeMock).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ root: 'packages/web/src' })
+      );
+    });
+
+    it('narrows server-wide includes with requested ones instead of widening them', async () => {
+      collectGitStatsMock.mockResolvedValue(null);
+      buildRepositoryTreeMock.mockResolvedValue(createTree());
+      const diffRepositoryTreesMock = vi.fn().mockResolvedValue({});
+
+      const appInstance = createApp('/repo', 'HEAD', false, {
+        buildRepositoryTreeFn: buildRepositoryTreeMock as typeof buildRepositoryTree,
+        collectGitStatsFn: collectGitStatsMock as typeof collectGitStats,
+        diffRepositoryTreesFn: diffRepositoryTreesMock as typeof diffRepositoryTrees,
+        pathFilters: { include: ['docs/'] }
+      });
+
+      await appInstance.getTree('main', { include: ['src/'] });
+      await appInstance.getDiff('v1', 'v2', { include: ['*.md'] });
+
+      expect(buildRepositoryTreeMock).toHaveBeenCalledWith(
+        expect.objectContaining({ include: ['docs/'], narrowInclude: ['src/'] })
+      );
+      expect(diffRepositoryTreesMock).toHaveBeenCalledWith('/repo', 'v1', 'v2', {
+        cache: undefined,
+        include: ['docs/'],
+        narrowInclude: ['*.md']
+      });
+    });
+
+    it('rejects untracked trees when the server is pinned to a ref', async () => {
+      const appInstance = createApp('/repo', 'v1.0', false, {
+        buildRepositoryTreeFn: buildRepositoryTreeMock as typeof buildRepositoryTree,
+        collectGitStatsFn: collectGitStatsMock as typeof collectGitStats
+      });
+
+      await expect(appInstance.getTree(undefined, { includeUntracked: true })).rejects.toThrow(
+        'The untracked option cannot be used when the server is pinned to a ref'
+      );
+      expect(buildRepositoryTreeMock).not.toHaveBeenCalled();
+    });
+
+    it('builds untracked trees from the working tree when the server is not pinned', async () => {
+      collectGitStatsMock.mockResolvedValue(null);
+      buildRepositoryTreeMock.mockResolvedValue(createTree());
+      const appInstance = createApp('/repo', 'HEAD', true, {
+        buildRepositoryTreeFn: buildRepositoryTreeMock as typeof buildRepositoryTree,
+        collectGitStatsFn: collectGitStatsMock as typeof collectGitStats
+      });
+
+      await appInstance.getTree(undefined, { includeUntracked: true });
+
+      expect(buildRepositoryTreeMock).toHaveBeenCalledWith(expect.objectContaining({ includeUntracked: true }));
+    });
+
+    it('builds the working tree for default requests when watching the repository', async () => {
+      collectGitStatsMock.mockResolvedValue(null);
+      buildRepositoryTreeMock.mockResolvedValue(createTree());
+      const watcher = { subscribe: vi.fn(() => vi.fn()), close: vi.fn() };
+
+      const appInstance = createApp('/repo', 'HEAD', false, {
+        buildRepositoryTreeFn: buildRepositoryTreeMock as typeof buildRepositoryTree,
+        collectGitStatsFn: collectGitStatsMock as typeof collectGitStats,
+        watcher
+      });
+
+      await appInstance.getTree();
+      await appInstance.getTree('main');
+
+      expect(buildRepositoryTreeMock).toHaveBeenNthCalledWith(1, expect.objectContaining({ workingTree: true }));
+      expect(buildRepositoryTreeMock).toHaveBeenNthCalledWith(2, expect.not.objectContaining({ workingTree: true }));
+      expect(() => getRouteHandler(appInstance.app, '/api/events', 'get')).not.toThrow();
+    });
+
+    it('starts a fresh working tree build for requests after a change event', async () => {
+      const stale = createDeferred<TreeNode>();
+      buildRepositoryTreeMock
+        .mockReturnValueOnce(stale.promise)
+        .mockResolvedValueOnce(createTree({ id: 'fresh' }));
+      collectGitStatsMock.mockResolvedValue(null);
+      let emitChange: (event: RepositoryChangeEvent) => void = () => {};
+      const watcher = {
+        subscribe: vi.fn((listener: (event: RepositoryChangeEvent) => void) => {
+          emitChange = listener;
+          return vi.fn();
+        }),
+        close: vi.fn()
+      };
+
+      const appInstance = createApp('/repo', 'HEAD', true, {
+        buildRepositoryTreeFn: buildRepositoryTreeMock as typeof buildRepositoryTree,
+        collectGitStatsFn: collectGitStatsMock as typeof collectGitStats,
+        watcher
+      });
+
+      const before = appInstance.getTree();
+      emitChange({ paths: ['src/index.ts'], timestamp: 1 });
+      const after = appInstance.getTree();
+
+      expect(buildRepositoryTreeMock).toHaveBeenCalledTimes(2);
+      stale.resolve(createTree({ id: 'stale' }));
+      expect((await before).tree.id).toBe('stale');
+      expect((await after).tree.id).toBe('fresh');
+    });
+
+    it('does not share in-flight builds across different options', async () => {
+      const deferred = createDeferred<TreeNode>();
+      buildRepositoryTreeMock
+        .mockReturnValueOnce(deferred.promise)
+        .mockResolvedValueOnce(createTree({ id: 'with-authors' }));
+      collectGitStatsMock.mockResolvedValue(null);
+
+      const appInstance = createApp('/repo', 'HEAD', false, {
+        buildRepositoryTreeFn: buildRepositoryTreeMock as typeof buildRepositoryTree,
+        collectGitStatsFn: collectGitStatsMock as typeof collectGitStats
+      });
+
+      const plain = appInstance.getTree('main');
+      const withAuthors = appInstance.getTree('main', { includeAuthorship: true });
+
+      expect(buildRepositoryTreeMock).toHaveBeenCalledTimes(2);
+
+      deferred.resolve(createTree({ id: 'plain' }));
+      const [plainResult, authorsResult] = await Promise.all([plain, withAuthors]);
+      expect(plainResult.tree.id).toBe('plain');
+      expect(authorsResult.tree.id).toBe('with-authors');
+    });
+
 
   });
 });
@@ -2,15 +2,29 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import http from 'http';
 import { startServer } from '../src/index';
 import { createApp } from '../src/app';
+import { createRepositoryWatcher } from '../src/watcher';
 import { createTree } from './utils';
 
 vi.mock('../src/app', () => ({
   createApp: vi.fn()
 }));
 
+vi.mock('../src/watcher', () => ({
+  createRepositoryWatcher: vi.fn()
+}));
+
+vi.mock('@octotree/core', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@octotree/core')>()),
+  resolveDefaultCacheDirectory: vi.fn()
+}));
+
+const defaultCache = { treeCache: expect.objectContaining({ directory: '/repo/.git/octo-tree' }) };
+
 describe('index', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     vi.clearAllMocks();
+    const { resolveDefaultCacheDirectory } = await import('@octotree/core');
+    vi.mocked(resolveDefaultCacheDirectory).mockResolvedValue('/repo/.git/octo-tree');
   });
 
   afterEach(() => {
@@ -66,7 +80,7 @@ describe('index', () => {
 
       const server = await startServer({ repoPath: '/repo' });
 
-      expect(createApp).toHaveBeenCalledWith('/repo', 'HEAD', true);
+      expect(createApp).toHaveBeenCalledWith('/repo', 'HEAD', true, defaultCache);
       expect(mockRefreshTree).toHaveBeenCalledWith('HEAD');
       expect(mockApp.listen).toHaveBeenCalledWith(3000, expect.any(Function));
       expect(server).toBeDefined();
@@ -93,13 +107,136 @@ describe('index', () => {
 
       const server = await startServer({ repoPath: '/repo', ref: 'main' });
 
-      expect(createApp).toHaveBeenCalledWith('/repo', 'main', false);
+      expect(createApp).toHaveBeenCalledWith('/repo', 'main', false, defaultCache);
       expect(mockRefreshTree).toHaveBeenCalledWith('main');
 
       await closeServer(server);
     });
 
 
+    it('uses a custom cache directory when provided', async () => {
+      const mockApp = createMockApp();
+      setupCreateAppMock(mockApp, createMockRefreshTree());
+
+      const server = await startServer({ repoPath: '/repo', cacheDir: '/tmp/trees' });
+
+      expect(createApp).toHaveBeenCalledWith('/repo', 'HEAD', true, {
+        treeCache: expect.objectContaining({ directory: '/tmp/trees' })
+      });
+
+      await closeServer(server);
+    });
+
+    it('creates an incremental builder when incremental is set', async () => {
+      const mockApp = createMockApp();
+      setupCreateAppMock(mockApp, createMockRefreshTree());
+
+      const server = await startServer({ repoPath: '/repo', incremental: true });
+
+      expect(createApp).toHaveBeenCalledWith('/repo', 'HEAD', true, {
+        ...defaultCache,
+        incrementalBuilder: expect.objectContaining({ build: expect.any(Function) })
+      });
+
+      await closeServer(server);
+    });
+
+    it('watches the working tree when watch is set', async () => {
+      const watcher = { subscribe: vi.fn(), close: vi.fn() };
+      vi.mocked(createRepositoryWatcher).mockResolvedValue(watcher);
+      const mockApp = createMockApp();
+      const mockRefreshTree = createMockRefreshTree();
+      setupCreateAppMock(mockApp, mockRefreshTree);
+
+      const server = await startServer({ repoPath: '/repo', watch: true });
+
+      expect(createRepositoryWatcher).toHaveBeenCalledWith('/repo');
+      expect(createApp).toHaveBeenCalledWith('/repo', 'HEAD', true, { ...defaultCache, watcher });
+      expect(mockRefreshTree).toHaveBeenCalledWith(undefined);
+
+      await closeServer(server);
+    });
+
+    it('applies path filters to the app and the incremental builder', async () => {
+      const mockApp = createMockApp();
+      setupCreateAppMock(mockApp, createMockRefreshTree());
+
+      const server = await startServer({
+        repoPath: '/repo',
+        incremental: true,
+        include: ['src/'],
+        exclude: ['*.lock']
+      });
+
+      expect(createApp).toHaveBeenCalledWith('/repo', 'HEAD', true, {
+        ...defaultCache,
+        incrementalBuilder: expect.objectContaining({ build: expect.any(Function) }),
+        pathFilters: { include: ['src/'], exclude: ['*.lock'] }
+      });
+
+      await closeServer(server);
+    });
+
+    it('passes the root to the app', async () => {
+      const mockApp = createMockApp();
+      setupCreateAppMock(mockApp, createMockRefreshTree());
+
+      const server = await startServer({ repoPath: '/repo', root: 'packages/web' });
+
+      expect(createApp).toHaveBeenCalledWith(
+        '/repo',
+        'HEAD',
+        true,
+        expect.objectContaining({ pathFilters: expect.objectContaining({ root: 'packages/web' }) })
+      );
+
+      await closeServer(server);
+    });
+
+    it('does not watch when a ref is pinned', async () => {
+      const mockApp = createMockApp();
+      setupCreateAppMock(mockApp, createMockRefreshTree());
+
+      const server = await startServer({ repoPath: '/repo', ref: 'main', watch: true });
+
+      expect(createRepositoryWatcher).not.toHaveBeenCalled();
+
+      await closeServer(server);
+    });
+
+    it('closes the watcher when the initial build fails', async () => {
+      const watcher = { subscribe: vi.fn(), close: vi.fn() };
+      vi.mocked(createRepositoryWatcher).mockResolvedValue(watcher);
+      setupCreateAppMock(createMockApp(), vi.fn().mockRejectedValue(new Error('boom')));
+
+      await expect(startServer({ repoPath: '/repo', watch: true })).rejects.toThrow('boom');
+      expect(watcher.close).toHaveBeenCalled();
+    });
+
+    it('disables the tree cache when cache is false', async () => {
+      const mockApp = createMockApp();
+      setupCreateAppMock(mockApp, createMockRefreshTree());
+
+      const server = await startServer({ repoPath: '/repo', cache: false, cacheDir: '/tmp/trees' });
+
+      expect(createApp).toHaveBeenCalledWith('/repo', 'HEAD', true, { treeCache: undefined });
+
+      await closeServer(server);
+    });
+
+    it('runs without a cache when the cache directory cannot be resolved', async () => {
+      const { resolveDefaultCacheDirectory } = await import('@octotree/core');
+      vi.mocked(resolveDefaultCacheDirectory).mockRejectedValueOnce(new Error('not a repository'));
+      const mockApp = createMockApp();
+      setupCreateAppMock(mockApp, createMockRefreshTree());
+
+      const server = await startServer({ repoPath: '/repo' });
+
+      expect(createApp).toHaveBeenCalledWith('/repo', 'HEAD', true, { treeCache: undefined });
+
+      await closeServer(server);
+    });
+
     it('does not log when silent is true', async () => {
       const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
       const mockApp = createMockApp();
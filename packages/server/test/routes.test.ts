@@ -3,9 +3,17 @@ import { GitRepositoryError, type RepositoryTree } from '@octotree/core';
 import type { Request } from 'express';
 import {
   extractRefParam,
+  extractTreeOptions,
+  parseBooleanParam,
   handleTreeRequest,
-  createTreeRoutes
+  handleDiffRequest,
+  handleEventsRequest,
+  handleRefsRequest,
+  handleCommitsRequest,
+  createTreeRoutes,
+  createRefRoutes
 } from '../src/routes';
+import type { RepositoryChangeEvent } from '../src/types';
 import { createMockRequest, createMockResponse, createTree } from './utils';
 
 describe('routes', () => {
@@ -41,6 +49,58 @@ describe('routes', () => {
     });
   });
 
+  describe('parseBooleanParam', () => {
+    it('accepts true and 1 as enabled values', () => {
+      expect(parseBooleanParam('true')).toBe(true);
+      expect(parseBooleanParam(' TRUE ')).toBe(true);
+      expect(parseBooleanParam('1')).toBe(true);
+    });
+
+    it('treats anything else as disabled', () => {
+      expect(parseBooleanParam('false')).toBe(false);
+      expect(parseBooleanParam('0')).toBe(false);
+      expect(parseBooleanParam(undefined)).toBe(false);
+      expect(parseBooleanParam(['true'])).toBe(false);
+    });
+  });
+
+  describe('extractTreeOptions', () => {
+    it('returns empty options by default', () => {
+      const req = createMockRequest({ query: {} });
+      expect(extractTreeOptions(req)).toEqual({});
+    });
+
+    it('opts into authorship with the authors parameter', () => {
+      const req = createMockRequest({ query: { authors: 'true' } });
+      expect(extractTreeOptions(req)).toEqual({ includeAuthorship: true });
+    });
+
+    it('opts into churn with the churn parameter', () => {
+      const req = createMockRequest({ query: { churn: 'true', authors: 'true' } });
+      expect(extractTreeOptions(req)).toEqual({ includeChurn: true, includeAuthorship: true });
+    });
+
+    it('collects single and repeated include and exclude parameters', () => {
+      const req = createMockRequest({
+        query: { include: 'src/', exclude: ['vendor/', ' ', 'package-lock.json'] }
+      });
+      expect(extractTreeOptions(req)).toEqual({
+        include: ['src/'],
+        exclude: ['vendor/', 'package-lock.json']
+      });
+    });
+
+    it('extracts the root parameter', () => {
+      const req = createMockRequest({ query: { root: ' packages/web ' } });
+      expect(extractTreeOptions(req)).toEqual({ root: 'packages/web' });
+    });
+
+    it('opts into untracked files with the untracked parameter', () => {
+      const req = createMockRequest({ query: { untracked: 'true' } });
+      expect(extractTreeOptions(req)).toEqual({ includeUntracked: true });
+    });
+  });
+
   describe('handleTreeRequest', () => {
     it('handles successful tree request', async () => {
       const req = createMockRequest({ query: { ref: 'main' } });
@@ -49,20 +109,44 @@ describe('routes', () => {
       const entry: RepositoryTree = {
         tree,
         lastUpdated: 1000,
-        gitStats: { totalCommits: 5, latestCommitTimestamp: 1700000000000 }
+        gitStats: { totalCommits: 5, latestCommitTimestamp: 1700000000000 },
+        languages: [{ language: 'TypeScript', files: 1, bytes: 100 }]
       };
       const handler = vi.fn().mockResolvedValue(entry);
 
       await handleTreeRequest(req, res, handler, 'Test error');
 
-      expect(handler).toHaveBeenCalledWith('main');
+      expect(handler).toHaveBeenCalledWith('main', {});
       expect(res.json).toHaveBeenCalledWith({
         tree,
         lastUpdated: 1000,
-        gitStats: { totalCommits: 5, latestCommitTimestamp: 1700000000000 }
+        gitStats: { totalCommits: 5, latestCommitTimestamp: 1700000000000 },
+        languages: [{ language: 'TypeScript', files: 1, bytes: 100 }]
       });
     });
 
+    it('rejects untracked requests pinned to a ref', async () => {
+      const req = createMockRequest({ query: { ref: 'main', untracked: 'true' } });
+      const res = createMockResponse();
+      const handler = vi.fn();
+
+      await handleTreeRequest(req, res, handler, 'Test error');
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: 'The untracked option cannot be combined with ref' });
+    });
+
+    it('passes opt-in tree options to the handler', async () => {
+      const req = createMockRequest({ query: { ref: 'main', authors: '1' } });
+      const res = createMockResponse();
+      const handler = vi.fn().mockResolvedValue({ tree: createTree(), lastUpdated: 1, gitStats: null });
+
+      await handleTreeRequest(req, res, handler, 'Test error');
+
+      expect(handler).toHaveBeenCalledWith('main', { includeAuthorship: true });
+    });
+
     it('handles GitRepositoryError with 400 status', async () => {
       const req = createMockRequest({ query: { ref: 'bad-ref' } });
       const res = createMockResponse();
@@ -112,11 +196,173 @@ describe('routes', () => {
 
       await handleTreeRequest(req, res, handler, 'Test error');
 
-      expect(handler).toHaveBeenCalledWith(undefined);
+      expect(handler).toHaveBeenCalledWith(undefined, {});
       expect(res.json).toHaveBeenCalledWith(entry);
     });
   });
 
+  describe('handleDiffRequest', () => {
+    it('responds with the diff between base and head', async () => {
+      const req = createMockRequest({ query: { base: ' v1 ', head: 'v2' } });
+      const res = createMockResponse();
+      const diff = {
+        tree: createTree(),
+        baseRef: 'v1',
+        headRef: 'v2',
+        summary: { added: 1, removed: 0, modified: 0, renamed: 0, unchanged: 0 }
+      };
+      const handler = vi.fn().mockResolvedValue(diff);
+
+      await handleDiffRequest(req, res, handler);
+
+      expect(handler).toHaveBeenCalledWith('v1', 'v2', {});
+      expect(res.json).toHaveBeenCalledWith(diff);
+    });
+
+    it('passes path filters to the diff handler', async () => {
+      const req = createMockRequest({ query: { base: 'v1', head: 'v2', exclude: ['vendor/', '*.lock'] } });
+      const handler = vi.fn().mockResolvedValue({});
+
+      await handleDiffRequest(req, createMockResponse(), handler);
+
+      expect(handler).toHaveBeenCalledWith('v1', 'v2', { exclude: ['vendor/', '*.lock'] });
+    });
+
+    it('requires both base and head', async () => {
+      const req = createMockRequest({ query: { base: 'v1' } });
+      const res = createMockResponse();
+      const handler = vi.fn();
+
+      await handleDiffRequest(req, res, handler);
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Both base and head query parameters are required' });
+    });
+
+    it('maps GitRepositoryError to 400 and other errors to 500', async () => {
+      const req = createMockRequest({ query: { base: 'v1', head: 'v2' } });
+      const badRefRes = createMockResponse();
+      await handleDiffRequest(req, badRefRes, vi.fn().mockRejectedValue(new GitRepositoryError('bad ref')));
+      expect(badRefRes.status).toHaveBeenCalledWith(400);
+      expect(badRefRes.json).toHaveBeenCalledWith({ error: 'bad ref' });
+
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const failureRes = createMockResponse();
+      await handleDiffRequest(req, failureRes, vi.fn().mockRejectedValue(new Error('boom')));
+      expect(failureRes.status).toHaveBeenCalledWith(500);
+      expect(failureRes.json).toHaveBeenCalledWith({ error: 'Failed to diff repository trees' });
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('handleRefsRequest', () => {
+    it('responds with the repository refs', async () => {
+      const refs = { head: 'main', branches: [], tags: [], commits: [] };
+      const res = createMockResponse();
+
+      await createRefRoutes(vi.fn().mockResolvedValue(refs), vi.fn()).getRefs(createMockRequest(), res);
+
+      expect(res.json).toHaveBeenCalledWith(refs);
+    });
+
+    it('maps GitRepositoryError to 400 and other errors to 500', async () => {
+      const req = createMockRequest();
+      const badRepoRes = createMockResponse();
+      await handleRefsRequest(req, badRepoRes, vi.fn().mockRejectedValue(new GitRepositoryError('not a repo')));
+      expect(badRepoRes.status).toHaveBeenCalledWith(400);
+      expect(badRepoRes.json).toHaveBeenCalledWith({ error: 'not a repo' });
+
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const failureRes = createMockResponse();
+      await handleRefsRequest(req, failureRes, vi.fn().mockRejectedValue(new Error('boom')));
+      expect(failureRes.status).toHaveBeenCalledWith(500);
+      expect(failureRes.json).toHaveBeenCalledWith({ error: 'Failed to list repository refs' });
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('handleCommitsRequest', () => {
+    it('lists commits for the requested ref', async () => {
+      const handler = vi.fn().mockResolvedValue(['abc', 'def']);
+      const res = createMockResponse();
+
+      await createRefRoutes(vi.fn(), handler).getCommits(
+        createMockRequest({ query: { ref: ' main ', root: 'packages/web', exclude: ['*.lock'] } }),
+        res
+      );
+
+      expect(handler).toHaveBeenCalledWith('main', { root: 'packages/web', exclude: ['*.lock'] });
+      expect(res.json).toHaveBeenCalledWith({ commits: ['abc', 'def'] });
+    });
+
+    it('maps GitRepositoryError to 400 and other errors to 500', async () => {
+      const req = createMockRequest();
+      const badRefRes = createMockResponse();
+      await handleCommitsRequest(req, badRefRes, vi.fn().mockRejectedValue(new GitRepositoryError('bad ref')));
+      expect(badRefRes.status).toHaveBeenCalledWith(400);
+      expect(badRefRes.json).toHaveBeenCalledWith({ error: 'bad ref' });
+
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const failureRes = createMockResponse();
+      await handleCommitsRequest(req, failureRes, vi.fn().mockRejectedValue(new Error('boom')));
+      expect(failureRes.status).toHaveBeenCalledWith(500);
+      expect(failureRes.json).toHaveBeenCalledWith({ error: 'Failed to list repository commits' });
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('handleEventsRequest', () => {
+    it('returns 404 when the server is not watching the repository', () => {
+      const res = createMockResponse();
+
+      handleEventsRequest(createMockRequest(), res, undefined);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'Live updates require the server to run in watch mode' });
+    });
+
+    it('streams change events until the client disconnects', () => {
+      let closeHandler: () => void = () => undefined;
+      const req = createMockRequest({
+        on: vi.fn((event: string, handler: () => void) => {
+          if (event === 'close') {
+            closeHandler = handler;
+          }
+          return req;
+        }) as unknown as Request['on']
+      });
+      const res = Object.assign(createMockResponse(), {
+        setHeader: vi.fn(),
+        flushHeaders: vi.fn(),
+        write: vi.fn()
+      });
+      let listener: (event: RepositoryChangeEvent) => void = () => undefined;
+      const unsubscribe = vi.fn();
+      const watcher = {
+        subscribe: vi.fn((next: (event: RepositoryChangeEvent) => void) => {
+          listener = next;
+          return unsubscribe;
+        }),
+        close: vi.fn()
+      };
+
+      handleEventsRequest(req, res, watcher);
+
+      expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'text/event-stream');
+      expect(res.flushHeaders).toHaveBeenCalled();
+      expect(res.write).toHaveBeenCalledWith('retry: 2000\n\n');
+
+      listener({ paths: ['src/a.ts'], timestamp: 42 });
+      expect(res.write).toHaveBeenLastCalledWith(
+        'event: change\ndata: {"paths":["src/a.ts"],"timestamp":42}\n\n'
+      );
+
+      closeHandler();
+      expect(unsubscribe).toHaveBeenCalled();
+    });
+  });
+
   describe('createTreeRoutes', () => {
     it('creates getTree route handler', async () => {
       const req = createMockRequest({ query: { ref: 'main' } });
@@ -130,10 +376,10 @@ describe('routes', () => {
       const buildTreeForRef = vi.fn().mockResolvedValue(entry);
       const refreshTreeForRef = vi.fn();
 
-      const routes = createTreeRoutes(buildTreeForRef, refreshTreeForRef);
+      const routes = createTreeRoutes(buildTreeForRef, refreshTreeForRef, vi.fn());
       await routes.getTree(req, res);
 
-      expect(buildTreeForRef).toHaveBeenCalledWith('main');
+      expect(buildTreeForRef).toHaveBeenCalledWith('main', {});
       expect(res.json).toHaveBeenCalledWith(entry);
     });
 
@@ -149,10 +395,10 @@ describe('routes', () => {
       const buildTreeForRef = vi.fn();
       const refreshTreeForRef = vi.fn().mockResolvedValue(entry);
 
-      const routes = createTreeRoutes(buildTreeForRef, refreshTreeForRef);
+      const routes = createTreeRoutes(buildTreeForRef, refreshTreeForRef, vi.fn());
       await routes.refreshTree(req, res);
 
-      expect(refreshTreeForRef).toHaveBeenCalledWith('feature');
+      expect(refreshTreeForRef).toHaveBeenCalledWith('feature', {});
       expect(res.json).toHaveBeenCalledWith(entry);
     });
 
@@ -166,7 +412,7 @@ describe('routes', () => {
       const refreshTreeForRef = vi.fn();
       const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
 
-      const routes = createTreeRoutes(buildTreeForRef, refreshTreeForRef);
+      const routes = createTreeRoutes(buildTreeForRef, refreshTreeForRef, vi.fn());
       await routes.getTree(req, res);
 
       expect(statusMock).toHaveBeenCalledWith(400);
@@ -185,7 +431,7 @@ describe('routes', () => {
       const refreshTreeForRef = vi.fn().mockRejectedValue(error);
       const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
 
-      const routes = createTreeRoutes(buildTreeForRef, refreshTreeForRef);
+      const routes = createTreeRoutes(buildTreeForRef, refreshTreeForRef, vi.fn());
       await routes.refreshTree(req, res);
 
       expect(statusMock).toHaveBeenCalledWith(500);
@@ -0,0 +1,128 @@
+import { EventEmitter } from 'events';
+import type fs from 'fs';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createRepositoryWatcher } from '../src/watcher';
+
+vi.mock('@octotree/core', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@octotree/core')>()),
+  resolveRepoRoot: vi.fn()
+}));
+
+type ChangeHandler = (eventType: string, filename: string | null) => void;
+
+const createFakeWatch = () => {
+  const fsWatcher = Object.assign(new EventEmitter(), { close: vi.fn() });
+  let handler: ChangeHandler = () => undefined;
+  const watchFn = vi.fn((_path: string, _options: unknown, listener: ChangeHandler) => {
+    handler = listener;
+    return fsWatcher;
+  });
+  return {
+    watchFn: watchFn as unknown as typeof fs.watch,
+    fsWatcher,
+    emit: (filename: string | null) => handler('change', filename)
+  };
+};
+
+describe('createRepositoryWatcher', () => {
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    const { resolveRepoRoot } = await import('@octotree/core');
+    vi.mocked(resolveRepoRoot).mockResolvedValue('/repo');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('watches the repository root recursively', async () => {
+    const fake = createFakeWatch();
+
+    await createRepositoryWatcher('/repo/sub', { watchFn: fake.watchFn });
+
+    expect(fake.watchFn).toHaveBeenCalledWith('/repo', { recursive: true }, expect.any(Function));
+  });
+
+  it('debounces bursts of changes into a single event', async () => {
+    const fake = createFakeWatch();
+    const listIgnoredPathsFn = vi.fn().mockResolvedValue(new Set());
+    const watcher = await createRepositoryWatcher('/repo', {
+      debounceMs: 100,
+      watchFn: fake.watchFn,
+      listIgnoredPathsFn
+    });
+    const listener = vi.fn();
+    watcher.subscribe(listener);
+
+    fake.emit('src/a.ts');
+    await vi.advanceTimersByTimeAsync(50);
+    fake.emit('src/b.ts');
+    fake.emit('src/a.ts');
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ paths: ['src/a.ts', 'src/b.ts'], timestamp: expect.any(Number) });
+    expect(listIgnoredPathsFn).toHaveBeenCalledWith('/repo', ['src/a.ts', 'src/b.ts']);
+  });
+
+  it('drops gitignored paths and git internals', async () => {
+    const fake = createFakeWatch();
+    const listIgnoredPathsFn = vi.fn().mockResolvedValue(new Set(['dist/bundle.js']));
+    const watcher = await createRepositoryWatcher('/repo', {
+      debounceMs: 10,
+      watchFn: fake.watchFn,
+      listIgnoredPathsFn
+    });
+    const listener = vi.fn();
+    watcher.subscribe(listener);
+
+    fake.emit('dist/bundle.js');
+    fake.emit('.git/objects/ab/cdef');
+    fake.emit('.git/index.lock');
+    await vi.advanceTimersByTimeAsync(10);
+    expect(listener).not.toHaveBeenCalled();
+
+    fake.emit('dist/bundle.js');
+    fake.emit('.git/index');
+    await vi.advanceTimersByTimeAsync(10);
+    expect(listener).toHaveBeenCalledWith({ paths: ['.git/index'], timestamp: expect.any(Number) });
+    expect(listIgnoredPathsFn).toHaveBeenLastCalledWith('/repo', ['dist/bundle.js']);
+  });
+
+  it('still notifies when gitignore rules cannot be evaluated', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fake = createFakeWatch();
+    const watcher = await createRepositoryWatcher('/repo', {
+      debounceMs: 10,
+      watchFn: fake.watchFn,
+      listIgnoredPathsFn: vi.fn().mockRejectedValue(new Error('git missing'))
+    });
+    const listener = vi.fn();
+    watcher.subscribe(listener);
+
+    fake.emit(null);
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(listener).toHaveBeenCalledWith({ paths: ['.'], timestamp: expect.any(Number) });
+    warnSpy.mockRestore();
+  });
+
+  it('stops notifying after unsubscribe and close', async () => {
+    const fake = createFakeWatch();
+    const watcher = await createRepositoryWatcher('/repo', {
+      debounceMs: 10,
+      watchFn: fake.watchFn,
+      listIgnoredPathsFn: vi.fn().mockResolvedValue(new Set())
+    });
+    const listener = vi.fn();
+    const unsubscribe = watcher.subscribe(listener);
+
+    unsubscribe();
+    fake.emit('a.txt');
+    await vi.advanceTimersByTimeAsync(10);
+    expect(listener).not.toHaveBeenCalled();
+
+    watcher.close();
+    expect(fake.fsWatcher.close).toHaveBeenCalled();
+  });
+});
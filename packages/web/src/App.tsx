@@ -1,62 +1,309 @@
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
 import './App.css';
 import { RadialTree } from './components/RadialTree';
-import type { TreeNode, RepositoryTree, GitStats } from '@octotree/core';
+import { CommitOverlay } from './components/CommitOverlay';
+import { RefPicker } from './components/RefPicker';
+import { Timeline } from './components/Timeline';
+import { TitleCard } from './components/TitleCard';
+import { parseRendererMode, type RendererMode } from './components/canvasRenderer';
+import {
+  COLOR_MODES,
+  COLOR_MODE_TREE_PARAMS,
+  DEFAULT_COLOR_MODE,
+  FALLBACK_CATEGORY_COLORS,
+  LANGUAGE_COLORS,
+  OTHER_CATEGORY_COLOR,
+  parseColorMode,
+  type ColorMode
+} from './colorModes';
+import { normalizeFocusPath } from './focus';
+import { formatCount, formatTimestamp } from './format';
+import { createRequestCache, isCommitHash, neighborIndices } from './history';
+import { parseSearchQuery, searchTree } from './search';
+import type {
+  TreeNode,
+  RepositoryTree,
+  RepositoryTreeDiff,
+  RepositoryRefs,
+  GitStats,
+  TreeDiffSummary,
+  FileStatus,
+  LanguageStats
+} from '@octotree/core';
 
-const formatTimestamp = (timestamp: number | null): string => {
-  if (!timestamp) {
-    return 'Never';
+// Page query parameters that narrow the tree to a subdirectory or matching paths
+const PATH_FILTER_PARAMS = ['root', 'include', 'exclude'];
+// Page query parameters that select which tree the API builds; `ref` is kept in state for the picker
+const FORWARDED_TREE_PARAMS = ['untracked', ...PATH_FILTER_PARAMS];
+
+const appendTreeQuery = (endpoint: string, params: string[] = FORWARDED_TREE_PARAMS): string => {
+  if (typeof window === 'undefined') {
+    return endpoint;
+  }
+  try {
+    const url = new URL(window.location.href);
+    const query = new URLSearchParams();
+    for (const name of params) {
+      for (const value of url.searchParams.getAll(name)) {
+        if (value) {
+          query.append(name, value);
+        }
+      }
+    }
+    if (!query.toString()) {
+      return endpoint;
+    }
+    const separator = endpoint.includes('?') ? '&' : '?';
+    return `${endpoint}${separator}${query.toString()}`;
+  } catch (error) {
+    console.warn('Failed to append tree query parameters:', error);
+    return endpoint;
+  }
+};
+
+const readFlag = (name: string): boolean => {
+  if (typeof window === 'undefined') {
+    return false;
+  }
+  const value = new URLSearchParams(window.location.search).get(name)?.trim().toLowerCase();
+  return value === 'true' || value === '1';
+};
+
+const readTitle = (): string | null => {
+  if (typeof window === 'undefined') {
+    return null;
   }
-  const date = new Date(timestamp);
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
+  return new URLSearchParams(window.location.search).get('title')?.trim() || null;
 };
 
-const formatCount = (value: number | null | undefined, label: string): string => {
+const readColorMode = (): ColorMode => {
+  if (typeof window === 'undefined') {
+    return DEFAULT_COLOR_MODE;
+  }
+  return parseColorMode(new URLSearchParams(window.location.search).get('color')) ?? DEFAULT_COLOR_MODE;
+};
+
+// Keeps view state in the URL so reloads and shared links show the same view
+const replaceQueryParam = (name: string, value: string | null): void => {
+  if (typeof window === 'undefined') {
+    return;
+  }
+  const url = new URL(window.location.href);
   if (value == null) {
-    return '—';
+    url.searchParams.delete(name);
+  } else {
+    url.searchParams.set(name, value);
   }
-  return `${value.toLocaleString()} ${label}`;
+  window.history.replaceState(window.history.state, '', url.toString());
 };
 
-const appendRefQuery = (endpoint: string): string => {
+const writeColorMode = (mode: ColorMode): void => {
+  replaceQueryParam('color', mode === DEFAULT_COLOR_MODE ? null : mode);
+};
+
+const readRendererMode = (): RendererMode => {
   if (typeof window === 'undefined') {
-    return endpoint;
+    return 'auto';
+  }
+  return parseRendererMode(new URLSearchParams(window.location.search).get('renderer')) ?? 'auto';
+};
+
+const readFocusPath = (): string | null => {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  return normalizeFocusPath(new URLSearchParams(window.location.search).get('focus'));
+};
+
+const readHighlight = (): string => {
+  if (typeof window === 'undefined') {
+    return '';
+  }
+  return new URLSearchParams(window.location.search).get('highlight') ?? '';
+};
+
+const readRef = (): string | null => {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  return new URLSearchParams(window.location.search).get('ref')?.trim() || null;
+};
+
+interface BlendParams {
+  from: string;
+  amount: number;
+}
+
+// `?blendFrom=<ref>&blend=<0..1>` draws the tree part way from another ref, for video frames
+const readBlendParams = (): BlendParams | null => {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  const params = new URLSearchParams(window.location.search);
+  const from = params.get('blendFrom')?.trim();
+  const rawAmount = params.get('blend');
+  const amount = Number(rawAmount);
+  if (!from || !rawAmount || !Number.isFinite(amount) || amount < 0 || amount > 1) {
+    return null;
+  }
+  return { from, amount };
+};
+
+const buildTreeEndpoint = (mode: ColorMode, ref: string | null): string => {
+  const query = new URLSearchParams(COLOR_MODE_TREE_PARAMS[mode]);
+  if (ref) {
+    query.set('ref', ref);
+  }
+  return query.toString() ? `/api/tree?${query.toString()}` : '/api/tree';
+};
+
+interface DiffParams {
+  base: string;
+  head: string;
+}
+
+const readDiffParams = (): DiffParams | null => {
+  if (typeof window === 'undefined') {
+    return null;
   }
   try {
-    const url = new URL(window.location.href);
-    const ref = url.searchParams.get('ref');
-    if (!ref) {
-      return endpoint;
+    const params = new URLSearchParams(window.location.search);
+    const base = params.get('base')?.trim();
+    const head = params.get('head')?.trim();
+    if (!base || !head) {
+      return null;
     }
-    const separator = endpoint.includes('?') ? '&' : '?';
-    return `${endpoint}${separator}ref=${encodeURIComponent(ref)}`;
+    return { base, head };
   } catch (error) {
-    console.warn('Failed to append ref query parameter:', error);
-    return endpoint;
+    console.warn('Failed to parse diff query parameters:', error);
+    return null;
+  }
+};
+
+const canStreamEvents = (): boolean => typeof window !== 'undefined' && typeof EventSource !== 'undefined';
+
+// The API reports failures as `{ "error": message }`; anything else is shown as is
+const readErrorMessage = (body: string): string => {
+  try {
+    const parsed = JSON.parse(body) as { error?: unknown };
+    return typeof parsed.error === 'string' ? parsed.error : body;
+  } catch {
+    return body;
   }
 };
 
-const fetchTree = async (endpoint: string, init?: RequestInit): Promise<RepositoryTree> => {
-  const url = appendRefQuery(endpoint);
+const fetchJson = async <T,>(url: string, init?: RequestInit): Promise<T> => {
   const response = await fetch(url, {
     headers: { 'Content-Type': 'application/json' },
     ...init
   });
   if (!response.ok) {
-    const message = await response.text();
+    const message = readErrorMessage(await response.text());
     throw new Error(message || 'Failed to load tree');
   }
-  return (await response.json()) as RepositoryTree;
+  return (await response.json()) as T;
+};
+
+const fetchTree = async (url: string, init?: RequestInit): Promise<RepositoryTree> => {
+  return fetchJson<RepositoryTree>(url, init);
+};
+
+const treeUrl = (mode: ColorMode, ref: string | null): string => appendTreeQuery(buildTreeEndpoint(mode, ref));
+
+const fetchDiff = async ({ base, head }: DiffParams): Promise<RepositoryTreeDiff> => {
+  const query = new URLSearchParams({ base, head });
+  return fetchJson<RepositoryTreeDiff>(
+    appendTreeQuery(`/api/diff?${query.toString()}`, PATH_FILTER_PARAMS)
+  );
+};
+
+const DIFF_SUMMARY_LINES: Array<{ key: keyof TreeDiffSummary; label: string }> = [
+  { key: 'added', label: 'added' },
+  { key: 'removed', label: 'removed' },
+  { key: 'modified', label: 'modified' },
+  { key: 'renamed', label: 'renamed' }
+];
+
+const STATUS_SUMMARY_LINES: Array<{ key: Exclude<FileStatus, 'clean'>; label: string }> = [
+  { key: 'modified', label: 'modified' },
+  { key: 'staged', label: 'staged' },
+  { key: 'untracked', label: 'untracked' },
+  { key: 'deleted', label: 'deleted' }
+];
+
+const LANGUAGE_BAR_LIMIT = 5;
+
+interface LanguageSegment {
+  language: string;
+  share: number;
+  color: string;
+}
+
+// Keeps the largest languages and folds the rest into "Other" so the bar stays readable
+const buildLanguageSegments = (languages: LanguageStats[]): LanguageSegment[] => {
+  const totalBytes = languages.reduce((sum, entry) => sum + entry.bytes, 0);
+  if (totalBytes === 0) {
+    return [];
+  }
+  const segments = languages.slice(0, LANGUAGE_BAR_LIMIT).map(({ language, bytes }, index) => ({
+    language,
+    share: bytes / totalBytes,
+    color: LANGUAGE_COLORS[language] ?? FALLBACK_CATEGORY_COLORS[index % FALLBACK_CATEGORY_COLORS.length]
+  }));
+  const otherBytes = languages.slice(LANGUAGE_BAR_LIMIT).reduce((sum, entry) => sum + entry.bytes, 0);
+  if (otherBytes > 0) {
+    segments.push({ language: 'Other', share: otherBytes / totalBytes, color: OTHER_CATEGORY_COLOR });
+  }
+  return segments;
 };
 
+const formatShare = (share: number): string => `${(share * 100).toFixed(1)}%`;
+
+// Long result lists stop being useful well before they stop being cheap to render
+const SEARCH_RESULT_LIMIT = 50;
+
+const parentDirectory = (relativePath: string): string => relativePath.split('/').slice(0, -1).join('/');
+
+// Trees kept for commits around the one on screen, so scrubbing back and forth does not refetch
+const HISTORY_CACHE_SIZE = 16;
+const HISTORY_PREFETCH_RADIUS = 2;
+// Long enough for the morph between two commits to finish before the next one starts
+const HISTORY_PLAYBACK_MS = 800;
+
 export const App: React.FC = () => {
   const [tree, setTree] = useState<TreeNode | null>(null);
+  const [blendTree, setBlendTree] = useState<TreeNode | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [gitStats, setGitStats] = useState<GitStats | null>(null);
+  const [diffSummary, setDiffSummary] = useState<TreeDiffSummary | null>(null);
+  const [languages, setLanguages] = useState<LanguageStats[]>([]);
+  const [colorMode, setColorMode] = useState<ColorMode>(() => readColorMode());
+  const [focusPath, setFocusPath] = useState<string | null>(() => readFocusPath());
+  const [searchText, setSearchText] = useState(() => readHighlight());
+  const [ref, setRef] = useState<string | null>(() => readRef());
+  const [refs, setRefs] = useState<RepositoryRefs | null>(null);
+  const [history, setHistory] = useState<string[] | null>(null);
+  // The ref whose history the timeline lists; scrubbing the timeline changes `ref` but not this
+  const [historyRef, setHistoryRef] = useState<string | null>(() => readRef());
+  const [playing, setPlaying] = useState(false);
+  // The ref whose tree is on screen; playback waits for it to catch up with `ref`
+  const [loadedRef, setLoadedRef] = useState<string | null | undefined>(undefined);
+  const [historyTrees] = useState(() => createRequestCache<RepositoryTree>(HISTORY_CACHE_SIZE));
+  const latestLoadRef = useRef(0);
+  const hasTreeRef = useRef(false);
+  // Typing stays responsive while large trees are searched and re-highlighted
+  const deferredSearchText = useDeferredValue(searchText);
+
+  const diffParams = useMemo(() => readDiffParams(), []);
+  // Live updates follow the working tree, so they are only meaningful for the default view
+  const liveMode = diffParams == null && ref == null && canStreamEvents();
+  const statusMode = useMemo(() => diffParams == null && readFlag('untracked'), [diffParams]);
+  const rendererMode = useMemo(() => readRendererMode(), []);
+  // Captions and title cards for recorded frames, set by the CLI's `video --overlay --title`
+  const overlay = useMemo(() => diffParams == null && readFlag('overlay'), [diffParams]);
+  const title = useMemo(() => readTitle(), []);
+  const blendParams = useMemo(() => (diffParams == null && !statusMode ? readBlendParams() : null), [diffParams, statusMode]);
 
   const levelOverride = useMemo(() => {
     if (typeof window === 'undefined') {
@@ -79,26 +326,121 @@ export const App: React.FC = () => {
     }
   }, []);
 
-  const loadTree = useCallback(async () => {
-    setLoading(true);
+  // Silent reloads keep the current tree on screen so live updates re-render in place
+  // Responses to superseded loads (such as commits scrubbed past) are dropped
+  const loadTree = useCallback(async ({ silent = false }: { silent?: boolean } = {}) => {
+    latestLoadRef.current += 1;
+    const load = latestLoadRef.current;
+    if (!silent) {
+      setLoading(true);
+    }
     setError(null);
     try {
-      const { tree: fetchedTree, gitStats: stats } = await fetchTree('/api/tree');
-      setTree(fetchedTree);
-      setGitStats(stats ?? null);
+      if (diffParams) {
+        const { tree: fetchedTree, summary } = await fetchDiff(diffParams);
+        if (load !== latestLoadRef.current) {
+          return;
+        }
+        setTree(fetchedTree);
+        setDiffSummary(summary);
+      } else {
+        const loadRef = (treeRef: string | null): Promise<RepositoryTree> => {
+          const url = treeUrl(colorMode, treeRef);
+          return isCommitHash(treeRef) ? historyTrees.load(url, () => fetchTree(url)) : fetchTree(url);
+        };
+        const [response, blendResponse] = await Promise.all([
+          loadRef(ref),
+          blendParams ? loadRef(blendParams.from) : null
+        ]);
+        if (load !== latestLoadRef.current) {
+          return;
+        }
+        setTree(response.tree);
+        setBlendTree(blendResponse?.tree ?? null);
+        setGitStats(response.gitStats ?? null);
+        setLanguages(response.languages ?? []);
+        setLoadedRef(ref);
+      }
+      hasTreeRef.current = true;
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Unknown error fetching tree.');
+      if (load === latestLoadRef.current) {
+        setError(err instanceof Error ? err.message : 'Unknown error fetching tree.');
+      }
     } finally {
-      setLoading(false);
+      if (!silent && load === latestLoadRef.current) {
+        setLoading(false);
+      }
     }
-  }, []);
+  }, [diffParams, colorMode, ref, historyTrees, blendParams]);
 
+  // Once a tree is on screen it stays there while the next ref or color mode loads
   useEffect(() => {
-    loadTree().catch((err) => {
+    loadTree({ silent: hasTreeRef.current }).catch((err) => {
       console.error(err);
     });
   }, [loadTree]);
 
+  useEffect(() => {
+    if (diffParams) {
+      return undefined;
+    }
+    let cancelled = false;
+    fetchJson<RepositoryRefs>('/api/refs')
+      .then((response) => {
+        if (!cancelled) {
+          setRefs(response);
+        }
+      })
+      .catch((err) => {
+        // Without refs the picker stays hidden; ?ref= still works
+        console.warn('Failed to list repository refs:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [diffParams]);
+
+  useEffect(() => {
+    if (diffParams || statusMode) {
+      return undefined;
+    }
+    let cancelled = false;
+    const endpoint = historyRef ? `/api/commits?ref=${encodeURIComponent(historyRef)}` : '/api/commits';
+    fetchJson<{ commits: string[] }>(appendTreeQuery(endpoint, PATH_FILTER_PARAMS))
+      .then((response) => {
+        if (!cancelled) {
+          setHistory(response.commits);
+        }
+      })
+      .catch((err) => {
+        console.warn('Failed to list repository history:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [diffParams, statusMode, historyRef]);
+
+  useEffect(() => {
+    if (!liveMode) {
+      return undefined;
+    }
+    const events = new EventSource('/api/events');
+    events.addEventListener('change', () => {
+      loadTree({ silent: true }).catch((err) => {
+        console.error(err);
+      });
+    });
+    events.onerror = () => {
+      // The server answers 404 when it was not started with --watch; stop retrying
+      if (events.readyState === EventSource.CLOSED) {
+        events.close();
+      }
+    };
+    return () => {
+      events.close();
+    };
+  }, [liveMode, loadTree]);
+
   const aggregateStats = useMemo(() => {
     if (!tree) {
       return null;
@@ -107,6 +449,13 @@ export const App: React.FC = () => {
     let directories = 0;
     let nodes = 0;
     let maxDepth = 0;
+    const statusCounts: Record<FileStatus, number> = {
+      clean: 0,
+      modified: 0,
+      staged: 0,
+      untracked: 0,
+      deleted: 0
+    };
 
     const walk = (node: TreeNode) => {
       nodes += 1;
@@ -114,42 +463,276 @@ export const App: React.FC = () => {
         directories += 1;
       } else {
         files += 1;
+        if (node.status) {
+          statusCounts[node.status] += 1;
+        }
       }
       maxDepth = Math.max(maxDepth, node.depth);
       node.children?.forEach(walk);
     };
 
     walk(tree);
-    return { files, directories, nodes, maxDepth };
+    return { files, directories, nodes, maxDepth, statusCounts };
   }, [tree]);
 
+  const languageSegments = useMemo(() => buildLanguageSegments(languages), [languages]);
+
+  const search = useMemo(() => parseSearchQuery(deferredSearchText), [deferredSearchText]);
+  const searchResults = useMemo(
+    () => (tree && search.query ? searchTree(tree, search.query) : null),
+    [tree, search]
+  );
+  const highlighted = useMemo(
+    () => (searchResults ? new Set(searchResults.matches.map((node) => node.id)) : null),
+    [searchResults]
+  );
+
+  // Errors loading a picked ref are shown next to the picker rather than in place of the tree
+  const refError = refs && ref && !diffParams && !statusMode ? error : null;
+  const treeVisible = !loading && (!error || refError != null) && tree != null;
+
+  const handleColorModeChange = useCallback((event: React.ChangeEvent<HTMLSelectElement>) => {
+    const mode = parseColorMode(event.target.value) ?? DEFAULT_COLOR_MODE;
+    writeColorMode(mode);
+    setColorMode(mode);
+  }, []);
+
+  const handleFocusChange = useCallback((path: string | null) => {
+    const normalized = normalizeFocusPath(path);
+    replaceQueryParam('focus', normalized);
+    setFocusPath(normalized);
+  }, []);
+
+  const handleRefChange = useCallback((next: string | null) => {
+    replaceQueryParam('ref', next);
+    setRef(next);
+  }, []);
+
+  // The default view shows the latest commit; refs that are not in the history have no position
+  const historyIndex = useMemo(() => {
+    if (!history) {
+      return -1;
+    }
+    return ref == null ? history.length - 1 : history.indexOf(ref);
+  }, [history, ref]);
+  const historyVisible = history != null && history.length > 1 && !diffParams && !statusMode && !blendParams;
+  const isPlaying = playing && historyVisible && error == null;
+
+  const handleHistoryIndexChange = useCallback(
+    (index: number) => {
+      if (history?.[index]) {
+        handleRefChange(history[index]);
+      }
+    },
+    [history, handleRefChange]
+  );
+
+  const handlePickedRefChange = useCallback(
+    (next: string | null) => {
+      setHistoryRef(next);
+      handleRefChange(next);
+    },
+    [handleRefChange]
+  );
+
+  // Advances once the current commit's tree has arrived, stopping at the latest commit
+  useEffect(() => {
+    if (!isPlaying || !history || historyIndex < 0 || loadedRef !== ref) {
+      return undefined;
+    }
+    const timer = window.setTimeout(() => {
+      if (historyIndex >= history.length - 1) {
+        setPlaying(false);
+      } else {
+        handleRefChange(history[historyIndex + 1]);
+      }
+    }, HISTORY_PLAYBACK_MS);
+    return () => {
+      window.clearTimeout(timer);
+    };
+  }, [isPlaying, history, historyIndex, loadedRef, ref, handleRefChange]);
+
+  // Neighboring commits load in the background once the current one is on screen
+  useEffect(() => {
+    if (!historyVisible || !history || historyIndex < 0 || loadedRef !== ref) {
+      return;
+    }
+    for (const index of neighborIndices(historyIndex, history.length, HISTORY_PREFETCH_RADIUS, isPlaying)) {
+      const url = treeUrl(colorMode, history[index]);
+      historyTrees.load(url, () => fetchTree(url)).catch(() => undefined);
+    }
+  }, [historyVisible, history, historyIndex, loadedRef, ref, isPlaying, colorMode, historyTrees]);
+
+  const handleSearchChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    replaceQueryParam('highlight', event.target.value.trim() || null);
+    setSearchText(event.target.value);
+  }, []);
+
+  // Results focus the directory they are in, or themselves when they are one
+  const handleResultClick = useCallback(
+    (node: TreeNode) => {
+      const directory = node.type === 'directory' ? node.relativePath : parentDirectory(node.relativePath);
+      handleFocusChange(directory === tree?.relativePath ? null : directory);
+    },
+    [tree, handleFocusChange]
+  );
+
   return (
     <div className="app">
       <main className="app__content">
         <aside className="app__sidebar" aria-live="polite">
           <div className="sidebar__section sidebar__section--stacked">
             <span className="sidebar__heading">{tree?.name ?? '—'}</span>
-            <span className="sidebar__line">
-              {formatTimestamp(gitStats?.latestCommitTimestamp ?? null)}
-            </span>
-            <span className="sidebar__line">
-              {formatCount(gitStats?.totalCommits ?? null, 'commits')}
-            </span>
+            {tree && tree.relativePath !== '.' && (
+              <span className="sidebar__breadcrumb" aria-label="Tree root">
+                {tree.relativePath.split('/').join(' / ')}
+              </span>
+            )}
+            {diffParams ? (
+              <>
+                <span className="sidebar__line">
+                  {diffParams.base} → {diffParams.head}
+                </span>
+                {DIFF_SUMMARY_LINES.map(({ key, label }) => (
+                  <span key={key} className={`sidebar__line sidebar__line--${key}`}>
+                    {formatCount(diffSummary?.[key] ?? null, label)}
+                  </span>
+                ))}
+              </>
+            ) : (
+              <>
+                <span className="sidebar__line">
+                  {formatTimestamp(gitStats?.latestCommitTimestamp ?? null)}
+                </span>
+                <span className="sidebar__line">
+                  {formatCount(gitStats?.totalCommits ?? null, 'commits')}
+                </span>
+              </>
+            )}
             <span className="sidebar__line">
               {formatCount(aggregateStats?.files ?? null, 'files')}
             </span>
             <span className="sidebar__line">
               {formatCount(aggregateStats?.directories ?? null, 'directories')}
             </span>
+            {statusMode &&
+              STATUS_SUMMARY_LINES.map(({ key, label }) => (
+                <span key={key} className={`sidebar__line sidebar__line--${key}`}>
+                  {formatCount(aggregateStats?.statusCounts[key] ?? null, label)}
+                </span>
+              ))}
+            {!diffParams && languageSegments.length > 0 && (
+              <div className="sidebar__languages" aria-label="Language breakdown">
+                <div className="language-bar">
+                  {languageSegments.map(({ language, share, color }) => (
+                    <span
+                      key={language}
+                      className="language-bar__segment"
+                      style={{ width: formatShare(share), backgroundColor: color }}
+                      title={`${language} ${formatShare(share)}`}
+                    />
+                  ))}
+                </div>
+                {languageSegments.map(({ language, share, color }) => (
+                  <span key={language} className="sidebar__line sidebar__line--language">
+                    <span className="language-bar__swatch" style={{ backgroundColor: color }} />
+                    {language} {formatShare(share)}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+          {refs && !diffParams && !statusMode && (
+            <RefPicker refs={refs} value={ref} onChange={handlePickedRefChange} error={refError} />
+          )}
+          {historyVisible && (
+            <Timeline
+              commits={history}
+              index={historyIndex}
+              onIndexChange={handleHistoryIndexChange}
+              playing={isPlaying}
+              onPlayingChange={setPlaying}
+            />
+          )}
+          {!diffParams && !statusMode && (
+            <label className="sidebar__section sidebar__control">
+              <span className="sidebar__control-label">Color by</span>
+              <select value={colorMode} onChange={handleColorModeChange}>
+                {COLOR_MODES.map(({ mode, label }) => (
+                  <option key={mode} value={mode}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <div className="sidebar__section sidebar__search">
+            <label className="sidebar__section sidebar__control">
+              <span className="sidebar__control-label">Search</span>
+              <input
+                type="search"
+                value={searchText}
+                onChange={handleSearchChange}
+                placeholder="name, glob or /regex/"
+                aria-invalid={search.error ? true : undefined}
+              />
+            </label>
+            {search.error && <span className="sidebar__error">{search.error}</span>}
+            {searchResults && (
+              <>
+                <span className="sidebar__line">
+                  {formatCount(searchResults.files, 'files')} · {formatCount(searchResults.directories, 'directories')}
+                </span>
+                <ul className="search-results" aria-label="Search results">
+                  {searchResults.matches.slice(0, SEARCH_RESULT_LIMIT).map((node) => (
+                    <li key={node.id}>
+                      <button
+                        type="button"
+                        className={`search-results__item search-results__item--${node.type}`}
+                        onClick={() => handleResultClick(node)}
+                        title={node.relativePath}
+                      >
+                        {node.relativePath}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+                {searchResults.matches.length > SEARCH_RESULT_LIMIT && (
+                  <span className="sidebar__line sidebar__line--more">
+                    {formatCount(searchResults.matches.length - SEARCH_RESULT_LIMIT, 'more')}
+                  </span>
+                )}
+              </>
+            )}
           </div>
         </aside>
 
         <section className="app__visualization">
           {loading && <p>Loading repository tree…</p>}
-          {error && !loading && <p role="alert">{error}</p>}
-          {!loading && !error && tree && <RadialTree data={tree} level={levelOverride} />}
+          {error && !loading && !refError && <p role="alert">{error}</p>}
+          {treeVisible && tree && (
+            <RadialTree
+              data={tree}
+              level={levelOverride}
+              diff={diffParams != null}
+              status={statusMode}
+              colorBy={colorMode}
+              focus={focusPath}
+              onFocusChange={handleFocusChange}
+              renderer={rendererMode}
+              highlighted={highlighted}
+              blendFrom={blendTree}
+              blend={blendParams?.amount}
+            />
+          )}
+          {overlay && treeVisible && gitStats?.latestCommit && (
+            <CommitOverlay commit={gitStats.latestCommit} files={aggregateStats?.files ?? null} />
+          )}
         </section>
       </main>
+      {title && treeVisible && (
+        <TitleCard title={title} repository={tree?.name ?? null} commit={gitStats?.latestCommit ?? null} />
+      )}
     </div>
   );
 };
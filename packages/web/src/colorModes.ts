@@ -0,0 +1,323 @@
+import type { RadialTreeColorMode, TreeNode } from '@octotree/core';
+
+// Mirrors RADIAL_TREE_COLOR_MODES in @octotree/core, which the CLI validates `--color` against
+export type ColorMode = RadialTreeColorMode;
+
+export const DEFAULT_COLOR_MODE: ColorMode = 'size';
+
+export const COLOR_MODES: Array<{ mode: ColorMode; label: string }> = [
+  { mode: 'size', label: 'Size' },
+  { mode: 'language', label: 'Language' },
+  { mode: 'age', label: 'Last modified' },
+  { mode: 'churn', label: 'Churn' },
+  { mode: 'author', label: 'Author' }
+];
+
+export const parseColorMode = (value: string | null | undefined): ColorMode | null => {
+  const normalized = value?.trim().toLowerCase();
+  return COLOR_MODES.find(({ mode }) => mode === normalized)?.mode ?? null;
+};
+
+// Metrics the server only computes on request; age prefers last commit times from churn
+export const COLOR_MODE_TREE_PARAMS: Partial<Record<ColorMode, Record<string, string>>> = {
+  age: { churn: 'true' },
+  churn: { churn: 'true' },
+  author: { authors: 'true' }
+};
+
+// GitHub's colors for common languages; others take a fallback color by rank
+export const LANGUAGE_COLORS: Record<string, string> = {
+  C: '#555555',
+  'C#': '#178600',
+  'C++': '#f34b7d',
+  CSS: '#663399',
+  Go: '#00add8',
+  HTML: '#e34c26',
+  Java: '#b07219',
+  JavaScript: '#f1e05a',
+  JSON: '#292929',
+  Kotlin: '#a97bff',
+  Markdown: '#083fa1',
+  PHP: '#4f5d95',
+  Python: '#3572a5',
+  Ruby: '#701516',
+  Rust: '#dea584',
+  SCSS: '#c6538c',
+  Shell: '#89e051',
+  Swift: '#f05138',
+  TSX: '#3178c6',
+  TypeScript: '#3178c6',
+  YAML: '#cb171e'
+};
+export const FALLBACK_CATEGORY_COLORS = ['#22d3ee', '#a78bfa', '#fb923c', '#34d399', '#f472b6', '#facc15'];
+export const OTHER_CATEGORY_COLOR = '#64748b';
+const NO_DATA_COLOR = '#334155';
+const CATEGORY_LIMIT = 6;
+
+interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+const SIZE_GRADIENT: [Rgb, Rgb] = [
+  { r: 21, g: 94, b: 51 }, // #015625
+  { r: 209, g: 250, b: 229 } // #e2fef0
+];
+const AGE_GRADIENT: [Rgb, Rgb] = [
+  { r: 49, g: 46, b: 129 }, // #312e81
+  { r: 253, g: 224, b: 71 } // #fde047
+];
+const CHURN_GRADIENT: [Rgb, Rgb] = [
+  { r: 30, g: 58, b: 138 }, // #1e3a8a
+  { r: 248, g: 113, b: 113 } // #f87171
+];
+
+const toCss = ({ r, g, b }: Rgb): string => `rgb(${r}, ${g}, ${b})`;
+
+const interpolate = ([start, end]: [Rgb, Rgb], amount: number): string => {
+  const channel = (from: number, to: number) => Math.round(from + (to - from) * amount);
+  return toCss({ r: channel(start.r, end.r), g: channel(start.g, end.g), b: channel(start.b, end.b) });
+};
+
+export interface LinkColor {
+  color: string;
+  /** Links are drawn in ascending order so the highlighted ones end up on top */
+  order: number;
+}
+
+export interface LegendItem {
+  key: string;
+  label: string;
+  color: string;
+}
+
+export interface LinkColorScale {
+  colorOf: (node: TreeNode) => LinkColor;
+  legend: LegendItem[];
+}
+
+const forEachFile = (node: TreeNode, visit: (file: TreeNode) => void): void => {
+  if (node.type === 'file') {
+    visit(node);
+  }
+  node.children?.forEach((child) => forEachFile(child, visit));
+};
+
+const percentile = (values: number[], fraction: number): number => {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const value = sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+  // Fall back to the maximum so a mostly-zero distribution still spreads
+  return value > 0 ? value : sorted[sorted.length - 1];
+};
+
+/**
+ * Colors each branch by the largest value of `metric` among the files below it, scaled up to
+ * `ceiling` and clamped beyond it.
+ */
+const createGradientScale = (
+  root: TreeNode,
+  metric: (file: TreeNode) => number | null,
+  gradient: [Rgb, Rgb],
+  floor: number,
+  ceiling: number
+): LinkColorScale['colorOf'] => {
+  const maxByNode = new Map<string, number | null>();
+  const visit = (node: TreeNode): number | null => {
+    let max = node.type === 'file' ? metric(node) : null;
+    for (const child of node.children ?? []) {
+      const childMax = visit(child);
+      if (childMax != null && (max == null || childMax > max)) {
+        max = childMax;
+      }
+    }
+    maxByNode.set(node.id, max);
+    return max;
+  };
+  visit(root);
+
+  const range = ceiling - floor;
+  return (node) => {
+    const value = maxByNode.get(node.id);
+    if (value == null) {
+      return { color: NO_DATA_COLOR, order: -1 };
+    }
+    const amount = range > 0 ? Math.min(Math.max((value - floor) / range, 0), 1) : 1;
+    return { color: interpolate(gradient, amount), order: amount };
+  };
+};
+
+const formatDate = (timestamp: number): string => new Date(timestamp).toISOString().slice(0, 10);
+
+const createSizeScale = (root: TreeNode): LinkColorScale => {
+  const sizes: number[] = [];
+  forEachFile(root, (file) => sizes.push(file.size));
+  const ceiling = percentile(sizes, 0.98);
+  return {
+    colorOf: createGradientScale(root, (file) => file.size, SIZE_GRADIENT, 0, ceiling > 0 ? ceiling : 1),
+    legend: [
+      { key: 'small', label: 'Small files', color: toCss(SIZE_GRADIENT[0]) },
+      { key: 'large', label: 'Largest files', color: toCss(SIZE_GRADIENT[1]) }
+    ]
+  };
+};
+
+// Commit builds stamp every file with the commit time, so the last commit touching a file is preferred
+const lastModifiedOf = (file: TreeNode): number | null => {
+  const timestamp = file.churn?.lastCommit?.timestamp ?? file.mtimeMs;
+  return timestamp > 0 ? timestamp : null;
+};
+
+const createAgeScale = (root: TreeNode): LinkColorScale => {
+  let oldest = Infinity;
+  let newest = -Infinity;
+  forEachFile(root, (file) => {
+    const timestamp = lastModifiedOf(file);
+    if (timestamp != null) {
+      oldest = Math.min(oldest, timestamp);
+      newest = Math.max(newest, timestamp);
+    }
+  });
+  const hasData = Number.isFinite(oldest);
+  return {
+    colorOf: createGradientScale(root, lastModifiedOf, AGE_GRADIENT, oldest, newest),
+    legend: [
+      {
+        key: 'oldest',
+        label: hasData ? `Oldest (${formatDate(oldest)})` : 'Oldest',
+        color: toCss(AGE_GRADIENT[0])
+      },
+      {
+        key: 'newest',
+        label: hasData ? `Newest (${formatDate(newest)})` : 'Newest',
+        color: toCss(AGE_GRADIENT[1])
+      }
+    ]
+  };
+};
+
+const createChurnScale = (root: TreeNode): LinkColorScale => {
+  const commits: number[] = [];
+  forEachFile(root, (file) => {
+    if (file.churn) {
+      commits.push(file.churn.commits);
+    }
+  });
+  const ceiling = Math.max(1, percentile(commits, 0.98));
+  return {
+    colorOf: createGradientScale(root, (file) => file.churn?.commits ?? null, CHURN_GRADIENT, 0, ceiling),
+    legend: [
+      { key: 'cold', label: 'Rarely changed', color: toCss(CHURN_GRADIENT[0]) },
+      { key: 'hot', label: `${ceiling.toLocaleString()}+ commits`, color: toCss(CHURN_GRADIENT[1]) }
+    ]
+  };
+};
+
+/**
+ * Colors branches by a category, keeping the `CATEGORY_LIMIT` heaviest categories and folding
+ * the rest into "Other". `categoryOf` decides a node's category, including for directories.
+ */
+const createCategoryScale = (
+  root: TreeNode,
+  categoryOf: (node: TreeNode) => { key: string; label: string } | null,
+  weightOf: (file: TreeNode) => number,
+  colorFor: (key: string, rank: number) => string
+): LinkColorScale => {
+  const weights = new Map<string, { label: string; weight: number }>();
+  forEachFile(root, (file) => {
+    const category = categoryOf(file);
+    if (category) {
+      const entry = weights.get(category.key) ?? { label: category.label, weight: 0 };
+      entry.weight += weightOf(file);
+      weights.set(category.key, entry);
+    }
+  });
+  const ranked = [...weights.entries()]
+    .sort(([keyA, a], [keyB, b]) => b.weight - a.weight || keyA.localeCompare(keyB))
+    .slice(0, CATEGORY_LIMIT);
+  const colors = new Map(ranked.map(([key], rank) => [key, colorFor(key, rank)]));
+
+  const legend = ranked.map(([key, { label }]) => ({ key, label, color: colors.get(key) ?? OTHER_CATEGORY_COLOR }));
+  if (weights.size > ranked.length) {
+    legend.push({ key: 'other', label: 'Other', color: OTHER_CATEGORY_COLOR });
+  }
+
+  return {
+    colorOf: (node) => {
+      const category = categoryOf(node);
+      if (!category) {
+        return { color: NO_DATA_COLOR, order: -1 };
+      }
+      return { color: colors.get(category.key) ?? OTHER_CATEGORY_COLOR, order: 0 };
+    },
+    legend
+  };
+};
+
+const fallbackColor = (rank: number): string => FALLBACK_CATEGORY_COLORS[rank % FALLBACK_CATEGORY_COLORS.length];
+
+// A directory takes the language holding the most bytes below it
+const createLanguageScale = (root: TreeNode): LinkColorScale => {
+  const dominantLanguage = new Map<string, string | null>();
+  const visit = (node: TreeNode): Map<string, number> => {
+    const bytes = new Map<string, number>();
+    if (node.type === 'file') {
+      if (node.language) {
+        bytes.set(node.language, node.size);
+      }
+    } else {
+      for (const child of node.children ?? []) {
+        for (const [language, size] of visit(child)) {
+          bytes.set(language, (bytes.get(language) ?? 0) + size);
+        }
+      }
+    }
+    let dominant: string | null = null;
+    for (const [language, size] of bytes) {
+      if (dominant == null || size > (bytes.get(dominant) ?? 0)) {
+        dominant = language;
+      }
+    }
+    dominantLanguage.set(node.id, dominant);
+    return bytes;
+  };
+  visit(root);
+
+  return createCategoryScale(
+    root,
+    (node) => {
+      const language = dominantLanguage.get(node.id);
+      return language ? { key: language, label: language } : null;
+    },
+    (file) => file.size,
+    (language, rank) => LANGUAGE_COLORS[language] ?? fallbackColor(rank)
+  );
+};
+
+// Directories carry authorship rolled up from their files, so every node has its own top author
+const createAuthorScale = (root: TreeNode): LinkColorScale => {
+  return createCategoryScale(
+    root,
+    (node) => {
+      const author = node.authorship?.topAuthors[0];
+      return author ? { key: (author.email || author.name).toLowerCase(), label: author.name } : null;
+    },
+    () => 1,
+    (_, rank) => fallbackColor(rank)
+  );
+};
+
+const SCALE_FACTORIES: Record<ColorMode, (root: TreeNode) => LinkColorScale> = {
+  size: createSizeScale,
+  language: createLanguageScale,
+  age: createAgeScale,
+  churn: createChurnScale,
+  author: createAuthorScale
+};
+
+export const createLinkColorScale = (root: TreeNode, mode: ColorMode): LinkColorScale => {
+  return SCALE_FACTORIES[mode](root);
+};
@@ -0,0 +1,24 @@
+import React from 'react';
+import type { CommitSummary } from '@octotree/core';
+import { formatCount, formatTimestamp } from '../format';
+
+interface CommitOverlayProps {
+  commit: CommitSummary;
+  /** Files in the tree on screen, or null while unknown */
+  files: number | null;
+}
+
+/** Caption for the commit on screen, drawn over a corner of the tree for recorded frames */
+export const CommitOverlay: React.FC<CommitOverlayProps> = ({ commit, files }) => (
+  <figure className="commit-overlay" aria-label="Commit details">
+    <span className="commit-overlay__line">
+      <span className="commit-overlay__hash">{commit.shortHash}</span> · {formatTimestamp(commit.timestamp)}
+    </span>
+    <span className="commit-overlay__subject">{commit.subject}</span>
+    <span className="commit-overlay__line">
+      {commit.author} · {formatCount(files, 'files')}
+    </span>
+  </figure>
+);
+
+CommitOverlay.displayName = 'CommitOverlay';
@@ -1,23 +1,42 @@
-import React, { useCallback, useMemo, useRef, useState } from 'react';
-import {
-  hierarchy,
-  tree,
-  type HierarchyPointNode,
-  type HierarchyPointLink
-} from 'd3-hierarchy';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { linkRadial } from 'd3-shape';
-import type { TreeNode } from '@octotree/core';
+import type { ChangeStatus, FileStatus, TreeNode } from '@octotree/core';
 import {
   RADIAL_TREE_CONTAINER,
   RADIAL_TREE_LINK_CLASS,
   RADIAL_TREE_LEVELS_CLASS,
   RADIAL_TREE_LINKS_CLASS,
+  RADIAL_TREE_RENDERED_ATTRIBUTE,
   RADIAL_TREE_TOOLTIP_CLASS
 } from '../selectors';
+import { DEFAULT_COLOR_MODE, type ColorMode } from '../colorModes';
+import { resolveFocusTrail } from '../focus';
+import { createLinkHitIndex, interpolatePoint, type PolarPoint } from './layout';
+import { drawRadialTree, resolveRenderer, type RendererMode } from './canvasRenderer';
+import { DIFF_COLORS, FILE_STATUS_COLORS, highlightOf } from './treeLayout';
+import { blendLayouts, type TreeBlend } from './blend';
+import { useTreeLayout, type LaidOutTree } from './useTreeLayout';
+
+export { DIFF_COLORS, FILE_STATUS_COLORS };
 
 interface RadialTreeProps {
   data: TreeNode;
   level?: number | null;
+  diff?: boolean;
+  status?: boolean;
+  colorBy?: ColorMode;
+  /** Repository-relative directory to re-root the layout at */
+  focus?: string | null;
+  /** Called with the directory to focus when a branch or breadcrumb is clicked, null for the root */
+  onFocusChange?: (path: string | null) => void;
+  /** `auto` draws on a canvas once the tree has too many links for SVG */
+  renderer?: RendererMode;
+  /** Ids of nodes to highlight; every branch not leading to or from one is dimmed */
+  highlighted?: ReadonlySet<string> | null;
+  /** Tree to draw `data` blended with, such as the previous commit of a video */
+  blendFrom?: TreeNode | null;
+  /** How far the drawing is from `blendFrom` (0) to `data` (1) */
+  blend?: number;
 }
 
 interface TooltipState {
@@ -26,13 +45,75 @@ interface TooltipState {
   y: number;
 }
 
-const separation = (
-  a: HierarchyPointNode<TreeNode>,
-  b: HierarchyPointNode<TreeNode>
-): number => {
-  return a.parent === b.parent ? 1 : 2;
+interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+interface FocusTransition {
+  from: Map<string, PolarPoint>;
+  progress: number;
+}
+
+interface DragState {
+  clientX: number;
+  clientY: number;
+  view: ViewTransform;
+  unitsPerPixel: number;
+  moved: boolean;
+}
+
+const IDENTITY_VIEW: ViewTransform = { scale: 1, x: 0, y: 0 };
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 16;
+// Pointer travel (in CSS pixels) below which a press still counts as a click
+const DRAG_THRESHOLD = 4;
+const FOCUS_TRANSITION_MS = 450;
+
+const easeCubicInOut = (t: number): number => {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
 };
 
+const canAnimate = (): boolean => {
+  if (typeof window === 'undefined' || typeof window.requestAnimationFrame !== 'function') {
+    return false;
+  }
+  return !window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+};
+
+/**
+ * Zooms by `factor` around `point` (relative to the canvas center), keeping the tree position
+ * under it in place.
+ */
+export const zoomViewAt = (view: ViewTransform, point: PolarPoint, factor: number): ViewTransform => {
+  const scale = Math.min(Math.max(view.scale * factor, MIN_ZOOM), MAX_ZOOM);
+  if (scale === MIN_ZOOM) {
+    return IDENTITY_VIEW;
+  }
+  const ratio = scale / view.scale;
+  return {
+    scale,
+    x: point.x - (point.x - view.x) * ratio,
+    y: point.y - (point.y - view.y) * ratio
+  };
+};
+
+// Mirrors the stroke opacities in App.css for the canvas renderer
+const STROKE_OPACITY = 0.85;
+const MUTED_STROKE_OPACITY: Partial<Record<ChangeStatus | FileStatus, number>> = {
+  removed: 0.35,
+  deleted: 0.35,
+  unchanged: 0.5,
+  clean: 0.5
+};
+const DIMMED_STROKE_OPACITY = 0.12;
+
+// States of a node while highlighting; a matched directory lights its whole subtree
+const DIMMED = 0;
+const ON_PATH = 1;
+const IN_MATCH = 2;
+
 export const formatBytes = (bytes: number): string => {
   if (bytes === 0) {
     return '0 B';
@@ -43,12 +124,67 @@ export const formatBytes = (bytes: number): string => {
   return `${value.toFixed(value >= 10 || magnitude === 0 ? 0 : 1)} ${units[magnitude]}`;
 };
 
-const START_COLOR = { r: 21, g: 94, b: 51 }; // #015625
-const END_COLOR = { r: 209, g: 250, b: 229 }; // #e2fef0
+const DIFF_LEGEND: Array<{ status: ChangeStatus; label: string }> = [
+  { status: 'added', label: 'Added' },
+  { status: 'removed', label: 'Removed' },
+  { status: 'modified', label: 'Modified' },
+  { status: 'renamed', label: 'Renamed' },
+  { status: 'unchanged', label: 'Unchanged' }
+];
 
-export const RadialTree: React.FC<RadialTreeProps> = ({ data, level }) => {
-  const containerRef = useRef<HTMLDivElement | null>(null);
-  const [tooltip, setTooltip] = useState<TooltipState | null>(null);
+const FILE_STATUS_LEGEND: Array<{ status: FileStatus; label: string }> = [
+  { status: 'untracked', label: 'Untracked' },
+  { status: 'deleted', label: 'Deleted' },
+  { status: 'modified', label: 'Modified' },
+  { status: 'staged', label: 'Staged' },
+  { status: 'clean', label: 'Clean' }
+];
+
+const formatSizeDelta = (delta: number): string => {
+  if (delta === 0) {
+    return '±0 B';
+  }
+  return `${delta > 0 ? '+' : '−'}${formatBytes(Math.abs(delta))}`;
+};
+
+const LayoutProgress: React.FC<{ progress: number }> = ({ progress }) => {
+  const percent = Math.round(progress * 100);
+  return (
+    <div
+      className="radial-tree__progress"
+      role="progressbar"
+      aria-label="Laying out tree"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={percent}
+    >
+      <span className="radial-tree__progress-bar" style={{ width: `${percent}%` }} />
+    </div>
+  );
+};
+
+export const RadialTree: React.FC<RadialTreeProps> = ({
+  data,
+  level,
+  diff = false,
+  status = false,
+  colorBy = DEFAULT_COLOR_MODE,
+  focus = null,
+  onFocusChange,
+  renderer = 'auto',
+  highlighted = null,
+  blendFrom = null,
+  blend = 1
+}) => {
+  const focusTrail = useMemo(() => resolveFocusTrail(data, focus), [data, focus]);
+  const focusNode = focusTrail[focusTrail.length - 1];
+  const blendFocusNode = useMemo(() => {
+    if (!blendFrom) {
+      return null;
+    }
+    const trail = resolveFocusTrail(blendFrom, focus);
+    return trail[trail.length - 1];
+  }, [blendFrom, focus]);
 
   const normalizedLevel = useMemo(() => {
     if (typeof level !== 'number') {
@@ -60,82 +196,155 @@ export const RadialTree: React.FC<RadialTreeProps> = ({ data, level }) => {
     return Math.round(level);
   }, [level]);
 
-  const { root, radius, maxDepth, maxFileSizeMap, sizePercentile: sizePercentile } = useMemo(() => {
-    const hierarchyRoot = hierarchy<TreeNode>(data, (node) => node.children);
-    hierarchyRoot.sum((node) => (node.type === 'file' ? 1 : 0));
-    const layout = tree<TreeNode>()
-      .size([2 * Math.PI, 1])
-      .separation(separation);
-    const positionedRoot = layout(hierarchyRoot);
-
-    const computedMaxDepth = Math.max(1, positionedRoot.height);
-    const effectiveMaxDepth = Math.max(1, normalizedLevel ?? computedMaxDepth);
-    const baseRadius = 160;
-    const depthSpacing = 110;
-    const computedRadius = baseRadius + effectiveMaxDepth * depthSpacing;
-    const maxRadius = 800;
-    const radius = Math.min(computedRadius, maxRadius);
-
-    positionedRoot.each((node) => {
-      const depthForLayout = Math.min(node.depth, effectiveMaxDepth);
-      node.y = (depthForLayout / effectiveMaxDepth) * radius;
-    });
+  const layoutOptions = { level: normalizedLevel, colorBy, diff, status };
+  const { laidOut, progress } = useTreeLayout(focusNode, layoutOptions);
+  const { laidOut: blendLaidOut, progress: blendProgress } = useTreeLayout(blendFocusNode, layoutOptions);
+  const treeBlend = useMemo(
+    () => (laidOut && blendLaidOut ? blendLayouts(blendLaidOut, laidOut, blend) : null),
+    [laidOut, blendLaidOut, blend]
+  );
 
-    const maxFileSizeMap = new Map<string, number>();
-    const fileSizes: number[] = [];
+  if (!laidOut || (blendFocusNode && !blendLaidOut)) {
+    return (
+      <div className={RADIAL_TREE_CONTAINER} data-color-mode={colorBy}>
+        <LayoutProgress progress={progress ?? blendProgress ?? 0} />
+      </div>
+    );
+  }
 
-    const computeMaxFileSize = (node: HierarchyPointNode<TreeNode>): number => {
-      let maxSize = node.data.type === 'file' ? node.data.size : 0;
-      if (node.data.type === 'file') {
-        fileSizes.push(node.data.size);
-      }
-      if (node.children) {
-        for (const child of node.children) {
-          maxSize = Math.max(maxSize, computeMaxFileSize(child));
-        }
-      }
-      maxFileSizeMap.set(node.data.id, maxSize);
-      return maxSize;
-    };
+  return (
+    <RadialTreeView
+      data={data}
+      focusTrail={focusTrail}
+      laidOut={laidOut}
+      progress={progress ?? blendProgress}
+      diff={diff}
+      status={status}
+      colorBy={colorBy}
+      onFocusChange={onFocusChange}
+      renderer={renderer}
+      highlighted={highlighted}
+      blend={treeBlend}
+    />
+  );
+};
 
-    computeMaxFileSize(positionedRoot);
+RadialTree.displayName = 'RadialTree';
 
-    let sizePercentile = 0;
-    if (fileSizes.length > 0) {
-      fileSizes.sort((a, b) => a - b);
-      const index = Math.min(fileSizes.length - 1, Math.floor(fileSizes.length * 0.98));
-      sizePercentile = fileSizes[index];
-    }
+interface RadialTreeViewProps {
+  data: TreeNode;
+  /** Directories from the root down to the focused one */
+  focusTrail: TreeNode[];
+  laidOut: LaidOutTree;
+  /** How far the next layout is, null when `laidOut` is up to date */
+  progress: number | null;
+  diff: boolean;
+  status: boolean;
+  colorBy: ColorMode;
+  onFocusChange?: (path: string | null) => void;
+  renderer: RendererMode;
+  highlighted: ReadonlySet<string> | null;
+  /** Replaces animated transitions with a fixed state between two trees */
+  blend: TreeBlend | null;
+}
+
+const RadialTreeView: React.FC<RadialTreeViewProps> = ({
+  data,
+  focusTrail,
+  laidOut: { layout, nodes },
+  progress,
+  diff,
+  status,
+  colorBy,
+  onFocusChange,
+  renderer,
+  highlighted,
+  blend
+}) => {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const surfaceRef = useRef<SVGSVGElement | HTMLCanvasElement | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const suppressClickRef = useRef(false);
+  const [tooltip, setTooltip] = useState<TooltipState | null>(null);
+  const [transition, setTransition] = useState<FocusTransition | null>(null);
+
+  const focusNode = focusTrail[focusTrail.length - 1];
+  const { rootId, radius, maxDepth, canvasSize, angles, radii, parents } = layout;
+
+  // Zoom and pan belong to one focus; re-focusing starts from the whole layout again
+  const [zoom, setZoom] = useState<{ focusId: string; view: ViewTransform } | null>(null);
+  const view = zoom?.focusId === rootId ? zoom.view : IDENTITY_VIEW;
+  const setView = useCallback(
+    (update: (current: ViewTransform) => ViewTransform) => {
+      setZoom((current) => ({
+        focusId: rootId,
+        view: update(current?.focusId === rootId ? current.view : IDENTITY_VIEW)
+      }));
+    },
+    [rootId]
+  );
 
-    if (sizePercentile === 0 && fileSizes.length > 0) {
-      sizePercentile = fileSizes[fileSizes.length - 1];
+  // Re-focusing or loading another tree (such as the next commit in history) morphs every branch
+  // from its previous position; branches new to the layout grow out of their nearest ancestor that
+  // was already on screen
+  const positions = useMemo(() => {
+    const byId = new Map<string, PolarPoint>();
+    nodes.forEach((node, index) => byId.set(node.id, { x: angles[index], y: radii[index] }));
+    return byId;
+  }, [nodes, angles, radii]);
+  const [shownLayout, setShownLayout] = useState({ focusId: rootId, nodes, positions });
+  if (shownLayout.positions !== positions) {
+    setShownLayout({ focusId: rootId, nodes, positions });
+    if (!blend && (shownLayout.focusId !== rootId || shownLayout.nodes !== nodes)) {
+      setTransition(canAnimate() ? { from: shownLayout.positions, progress: 0 } : null);
     }
+  }
 
-    return {
-      root: positionedRoot,
-      radius,
-      maxDepth: effectiveMaxDepth,
-      maxFileSizeMap,
-      sizePercentile: sizePercentile
+  // Restarts the clock whenever a new transition begins, even one interrupting another
+  const transitionFrom = transition?.from;
+  useEffect(() => {
+    if (!transitionFrom) {
+      return undefined;
+    }
+    let frame = 0;
+    const start = performance.now();
+    const step = (now: number) => {
+      const elapsed = Math.min((now - start) / FOCUS_TRANSITION_MS, 1);
+      if (elapsed >= 1) {
+        setTransition(null);
+        return;
+      }
+      setTransition((current) => current && { ...current, progress: easeCubicInOut(elapsed) });
+      frame = window.requestAnimationFrame(step);
+    };
+    frame = window.requestAnimationFrame(step);
+    return () => {
+      window.cancelAnimationFrame(frame);
     };
-  }, [data, normalizedLevel]);
+  }, [transitionFrom]);
 
-  const maxFiles = useMemo(() => {
-    let max = 0;
-    for (const node of root.descendants()) {
-      if (node.depth > maxDepth) {
-        continue;
+  const activeTransition = useMemo(
+    () => (blend ? { from: blend.from, progress: blend.amount } : transition),
+    [blend, transition]
+  );
+
+  const positionOf = useCallback(
+    (index: number): PolarPoint => {
+      const target = { x: angles[index], y: radii[index] };
+      if (!activeTransition) {
+        return target;
       }
-      const files = node.value ?? (node.data.type === 'file' ? 1 : 0);
-      if (files > max) {
-        max = files;
+      let origin: PolarPoint | undefined;
+      for (let current = index; current >= 0 && !origin; current = parents[current]) {
+        origin = activeTransition.from.get(nodes[current].id);
       }
-    }
-    return max;
-  }, [root, maxDepth]);
+      return interpolatePoint(origin ?? { x: target.x, y: 0 }, target, activeTransition.progress);
+    },
+    [angles, radii, parents, nodes, activeTransition]
+  );
 
   const linkPath = useMemo(() => {
-    return linkRadial<HierarchyPointLink<TreeNode>, HierarchyPointNode<TreeNode>>()
+    return linkRadial<{ source: PolarPoint; target: PolarPoint }, PolarPoint>()
       .angle((node) => node.x)
       .radius((node) => node.y);
   }, []);
@@ -144,95 +353,437 @@ export const RadialTree: React.FC<RadialTreeProps> = ({ data, level }) => {
     return Array.from({ length: maxDepth + 1 }, (_, index) => (index / maxDepth) * radius);
   }, [maxDepth, radius]);
 
-  const canvasPadding = 200;
-  const canvasSize = radius * 2 + canvasPadding;
-
   const linkRenderData = useMemo(() => {
-    return root
-      .links()
-      .filter((link) => link.target.depth <= maxDepth)
-      .map((link) => {
-        const fileCount = link.target.value ?? (link.target.data.type === 'file' ? 1 : 0);
-        const normalizedCount = maxFiles > 0 ? fileCount / maxFiles : 0;
-        const baseWidth = 2;
-        const widthRange = 20;
-        const strokeWidth = baseWidth + normalizedCount * widthRange;
-
-        const maxFileSize = maxFileSizeMap.get(link.target.data.id) ?? 0;
-        const denominator = sizePercentile > 0 ? sizePercentile : 1;
-        const normalizedSize = Math.min(maxFileSize / denominator, 1);
-        const interpolateChannel = (start: number, end: number) =>
-          Math.round(start + (end - start) * normalizedSize);
-        const strokeColor = `rgb(${interpolateChannel(START_COLOR.r, END_COLOR.r)}, ${interpolateChannel(
-          START_COLOR.g,
-          END_COLOR.g
-        )}, ${interpolateChannel(START_COLOR.b, END_COLOR.b)})`;
-
-        return {
-          link,
-          strokeWidth,
-          strokeColor,
-          normalizedSize
-        };
-      })
-      .sort((a, b) => a.normalizedSize - b.normalizedSize);
-  }, [root, maxDepth, maxFiles, maxFileSizeMap, sizePercentile]);
+    return Array.from(layout.linkTargets, (target, linkIndex) => {
+      const highlight = highlightOf(layout, linkIndex);
+      return {
+        source: parents[target],
+        target,
+        node: nodes[target],
+        strokeWidth: layout.strokeWidths[linkIndex],
+        strokeColor: layout.palette[layout.strokeColors[linkIndex]],
+        highlight,
+        dashed: highlight === 'removed' || highlight === 'deleted'
+      };
+    });
+  }, [layout, parents, nodes]);
+
+  // Lights matches, the branches leading to them and everything below matched directories.
+  // Parents come before their children, so subtrees light up going forward and paths going back.
+  const dimmedLinks = useMemo(() => {
+    if (!highlighted) {
+      return null;
+    }
+    const states = new Uint8Array(nodes.length);
+    nodes.forEach((node, index) => {
+      if (highlighted.has(node.id) || (parents[index] >= 0 && states[parents[index]] === IN_MATCH)) {
+        states[index] = IN_MATCH;
+      }
+    });
+    for (let index = nodes.length - 1; index > 0; index -= 1) {
+      if (states[index] !== DIMMED && states[parents[index]] === DIMMED) {
+        states[parents[index]] = ON_PATH;
+      }
+    }
+    return linkRenderData.map(({ target }) => states[target] === DIMMED);
+  }, [highlighted, nodes, parents, linkRenderData]);
+
+  const activeRenderer = resolveRenderer(renderer, linkRenderData.length);
+
+  // Hit-testing runs against the settled layout; hovering mid-transition shows no tooltip
+  const hitIndex = useMemo(() => {
+    if (activeRenderer !== 'canvas') {
+      return null;
+    }
+    return createLinkHitIndex(
+      linkRenderData.map(({ source, target, strokeWidth }) => ({
+        source: { x: angles[source], y: radii[source] },
+        target: { x: angles[target], y: radii[target] },
+        strokeWidth
+      }))
+    );
+  }, [activeRenderer, linkRenderData, angles, radii]);
+
+  const legend = useMemo(() => {
+    if (diff) {
+      return {
+        label: 'Diff legend',
+        items: DIFF_LEGEND.map(({ status: key, label }) => ({ key, label, color: DIFF_COLORS[key] }))
+      };
+    }
+    if (status) {
+      return {
+        label: 'Status legend',
+        items: FILE_STATUS_LEGEND.map(({ status: key, label }) => ({
+          key,
+          label,
+          color: FILE_STATUS_COLORS[key]
+        }))
+      };
+    }
+    // The default size gradient keeps the original legend-free look
+    if (colorBy !== DEFAULT_COLOR_MODE) {
+      return { label: 'Color legend', items: layout.legend };
+    }
+    return null;
+  }, [diff, status, colorBy, layout]);
+
+  const showTooltip = useCallback((node: TreeNode, clientX: number, clientY: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) {
+      setTooltip({ node, x: clientX, y: clientY });
+      return;
+    }
+    setTooltip({ node, x: clientX - rect.left, y: clientY - rect.top });
+  }, []);
 
   const handleLinkHover = useCallback(
-    (event: React.MouseEvent<SVGPathElement>, node: HierarchyPointNode<TreeNode>) => {
-      const rect = containerRef.current?.getBoundingClientRect();
-      if (!rect) {
-        setTooltip({ node: node.data, x: event.clientX, y: event.clientY });
+    (event: React.MouseEvent<SVGPathElement>, node: TreeNode) => {
+      showTooltip(node, event.clientX, event.clientY);
+    },
+    [showTooltip]
+  );
+
+  const resetTooltip = useCallback(() => {
+    setTooltip(null);
+  }, []);
+
+  // Layout units per CSS pixel; the square surface is scaled to fit the smaller side
+  const unitsPerPixel = useCallback((): number => {
+    const rect = surfaceRef.current?.getBoundingClientRect();
+    const side = rect ? Math.min(rect.width, rect.height) : 0;
+    return side > 0 ? canvasSize / side : 1;
+  }, [canvasSize]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return undefined;
+    }
+    // React registers wheel listeners as passive, which cannot stop the page from scrolling.
+    // Listening on the container keeps working when the renderer swaps the surface element.
+    const handleWheel = (event: WheelEvent) => {
+      const surface = surfaceRef.current;
+      if (!surface || !(event.target instanceof Node) || !surface.contains(event.target)) {
         return;
       }
-      const x = event.clientX - rect.left;
-      const y = event.clientY - rect.top;
-      setTooltip({ node: node.data, x, y });
+      event.preventDefault();
+      const rect = surface.getBoundingClientRect();
+      const units = unitsPerPixel();
+      const point = {
+        x: (event.clientX - rect.left - rect.width / 2) * units,
+        y: (event.clientY - rect.top - rect.height / 2) * units
+      };
+      setView((current) => zoomViewAt(current, point, Math.exp(-event.deltaY * 0.002)));
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => {
+      container.removeEventListener('wheel', handleWheel);
+    };
+  }, [unitsPerPixel, setView]);
+
+  const handlePointerDown = useCallback(
+    (event: React.PointerEvent<Element>) => {
+      if (event.button !== 0) {
+        return;
+      }
+      dragRef.current = {
+        clientX: event.clientX,
+        clientY: event.clientY,
+        view,
+        unitsPerPixel: unitsPerPixel(),
+        moved: false
+      };
     },
-    []
+    [view, unitsPerPixel]
   );
 
-  const resetTooltip = useCallback(() => {
+  const handlePointerMove = useCallback((event: React.PointerEvent<Element>) => {
+    const drag = dragRef.current;
+    if (!drag) {
+      return;
+    }
+    const dx = event.clientX - drag.clientX;
+    const dy = event.clientY - drag.clientY;
+    if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) {
+      return;
+    }
+    drag.moved = true;
     setTooltip(null);
+    setView(() => ({
+      scale: drag.view.scale,
+      x: drag.view.x + dx * drag.unitsPerPixel,
+      y: drag.view.y + dy * drag.unitsPerPixel
+    }));
+  }, [setView]);
+
+  const handlePointerUp = useCallback(() => {
+    // The click that follows a drag must not focus the branch it was released on
+    suppressClickRef.current = dragRef.current?.moved ?? false;
+    dragRef.current = null;
+  }, []);
+
+  const handleLinkClick = useCallback(
+    (node: TreeNode) => {
+      if (suppressClickRef.current || !onFocusChange || node.type !== 'directory') {
+        return;
+      }
+      setTooltip(null);
+      onFocusChange(node.relativePath);
+    },
+    [onFocusChange]
+  );
+
+  const handleSurfaceClick = useCallback(() => {
+    suppressClickRef.current = false;
   }, []);
 
+  const findCanvasLink = useCallback(
+    (event: React.MouseEvent<HTMLCanvasElement>): TreeNode | null => {
+      if (!hitIndex || activeTransition) {
+        return null;
+      }
+      const rect = event.currentTarget.getBoundingClientRect();
+      const units = unitsPerPixel();
+      const point: [number, number] = [
+        ((event.clientX - rect.left - rect.width / 2) * units - view.x) / view.scale,
+        ((event.clientY - rect.top - rect.height / 2) * units - view.y) / view.scale
+      ];
+      const index = hitIndex.find(point, (2 * units) / view.scale);
+      return index == null ? null : linkRenderData[index].node;
+    },
+    [hitIndex, activeTransition, unitsPerPixel, view, linkRenderData]
+  );
+
+  const handleCanvasPointerMove = useCallback(
+    (event: React.PointerEvent<HTMLCanvasElement>) => {
+      handlePointerMove(event);
+      if (dragRef.current?.moved) {
+        return;
+      }
+      const node = findCanvasLink(event);
+      if (node) {
+        showTooltip(node, event.clientX, event.clientY);
+      } else {
+        setTooltip(null);
+      }
+      event.currentTarget.style.cursor = node && onFocusChange && node.type === 'directory' ? 'pointer' : '';
+    },
+    [handlePointerMove, findCanvasLink, showTooltip, onFocusChange]
+  );
+
+  const handleCanvasPointerLeave = useCallback(() => {
+    handlePointerUp();
+    setTooltip(null);
+  }, [handlePointerUp]);
+
+  const handleCanvasClick = useCallback(
+    (event: React.MouseEvent<HTMLCanvasElement>) => {
+      const node = findCanvasLink(event);
+      if (node) {
+        handleLinkClick(node);
+      }
+      handleSurfaceClick();
+    },
+    [findCanvasLink, handleLinkClick, handleSurfaceClick]
+  );
+
+  const setSurface = useCallback((element: SVGSVGElement | HTMLCanvasElement | null) => {
+    surfaceRef.current = element;
+  }, []);
+
+  const pixelRatio = typeof window === 'undefined' ? 1 : Math.min(window.devicePixelRatio || 1, 2);
+  // A layout about to be replaced is not worth capturing
+  const isRendered = progress == null && linkRenderData.length > 0;
+
+  useEffect(() => {
+    const canvas = surfaceRef.current;
+    if (activeRenderer !== 'canvas' || !(canvas instanceof HTMLCanvasElement)) {
+      return;
+    }
+    const context = canvas.getContext('2d');
+    if (!context) {
+      return;
+    }
+    drawRadialTree(context, {
+      canvasSize,
+      pixelRatio,
+      view,
+      levels: depthLevels,
+      links: [
+        ...(blend?.fadingLinks ?? []).map(({ source, target, strokeWidth, strokeColor, opacity }) => ({
+          source,
+          target,
+          strokeWidth,
+          strokeColor,
+          strokeOpacity: STROKE_OPACITY * opacity,
+          dashed: false
+        })),
+        ...linkRenderData.map(({ source, target, strokeWidth, strokeColor, highlight, dashed }, linkIndex) => ({
+          source: positionOf(source),
+          target: positionOf(target),
+          strokeWidth: blend ? blend.strokeWidths[linkIndex] : strokeWidth,
+          strokeColor,
+          strokeOpacity:
+            (dimmedLinks?.[linkIndex]
+              ? DIMMED_STROKE_OPACITY
+              : (MUTED_STROKE_OPACITY[highlight ?? 'modified'] ?? STROKE_OPACITY)) * (blend?.opacities[linkIndex] ?? 1),
+          dashed
+        }))
+      ]
+    });
+    // The CLI waits for this before capturing, as there are no link elements to wait for
+    canvas.setAttribute(RADIAL_TREE_RENDERED_ATTRIBUTE, String(isRendered));
+  }, [activeRenderer, canvasSize, pixelRatio, view, depthLevels, linkRenderData, dimmedLinks, positionOf, isRendered, blend]);
+
+  const handleBreadcrumbClick = useCallback(
+    (node: TreeNode) => {
+      onFocusChange?.(node === data ? null : node.relativePath);
+    },
+    [data, onFocusChange]
+  );
+
+  const resetView = useCallback(() => {
+    setView(() => IDENTITY_VIEW);
+  }, [setView]);
+
+  const isFocused = focusNode !== data;
+  const isZoomed = view !== IDENTITY_VIEW;
+
   return (
-    <div className={RADIAL_TREE_CONTAINER} ref={containerRef}>
-      <svg
-        width={canvasSize}
-        height={canvasSize}
-        viewBox={`0 0 ${canvasSize} ${canvasSize}`}
-        role="img"
-        aria-label="Radial file tree"
-        preserveAspectRatio="xMidYMid meet"
-      >
-        <g transform={`translate(${canvasSize / 2}, ${canvasSize / 2})`}>
-          <g className={RADIAL_TREE_LEVELS_CLASS} fill="none">
-            {depthLevels.map((levelRadius, index) => (
-              <circle
-                key={index}
-                r={levelRadius}
-                strokeDasharray="4 8"
-              />
-            ))}
+    <div
+      className={RADIAL_TREE_CONTAINER}
+      ref={containerRef}
+      data-color-mode={colorBy}
+      data-focus={isFocused ? focusNode.relativePath : undefined}
+      data-renderer={activeRenderer}
+    >
+      {(isFocused || isZoomed) && (
+        <div className="radial-tree__controls">
+          {isFocused && (
+            <nav className="radial-tree__breadcrumb" aria-label="Focused directory">
+              {focusTrail.map((node, index) =>
+                index === focusTrail.length - 1 ? (
+                  <span key={node.id} aria-current="location">
+                    {node.name}
+                  </span>
+                ) : (
+                  <React.Fragment key={node.id}>
+                    <button type="button" onClick={() => handleBreadcrumbClick(node)}>
+                      {node.name}
+                    </button>
+                    <span aria-hidden="true">/</span>
+                  </React.Fragment>
+                )
+              )}
+            </nav>
+          )}
+          {isZoomed && (
+            <button type="button" className="radial-tree__reset" onClick={resetView}>
+              Reset view
+            </button>
+          )}
+        </div>
+      )}
+      {activeRenderer === 'canvas' ? (
+        <canvas
+          ref={setSurface}
+          width={Math.round(canvasSize * pixelRatio)}
+          height={Math.round(canvasSize * pixelRatio)}
+          role="img"
+          aria-label="Radial file tree"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handleCanvasPointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handleCanvasPointerLeave}
+          onClick={handleCanvasClick}
+        />
+      ) : (
+        <svg
+          ref={setSurface}
+          width={canvasSize}
+          height={canvasSize}
+          viewBox={`0 0 ${canvasSize} ${canvasSize}`}
+          role="img"
+          aria-label="Radial file tree"
+          preserveAspectRatio="xMidYMid meet"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+          onClick={handleSurfaceClick}
+          {...{ [RADIAL_TREE_RENDERED_ATTRIBUTE]: isRendered ? 'true' : undefined }}
+        >
+          <g
+            transform={`translate(${canvasSize / 2 + view.x}, ${canvasSize / 2 + view.y}) scale(${view.scale})`}
+          >
+            <g className={RADIAL_TREE_LEVELS_CLASS} fill="none">
+              {depthLevels.map((levelRadius, index) => (
+                <circle
+                  key={index}
+                  r={levelRadius}
+                  strokeDasharray="4 8"
+                />
+              ))}
+            </g>
+            {blend && blend.fadingLinks.length > 0 && (
+              <g className="radial-tree__fading-links" fill="none" aria-hidden="true">
+                {blend.fadingLinks.map(({ id, source, target, strokeWidth, strokeColor, opacity }) => (
+                  <path
+                    key={id}
+                    d={linkPath({ source, target }) ?? undefined}
+                    strokeWidth={strokeWidth}
+                    stroke={strokeColor}
+                    opacity={opacity}
+                  />
+                ))}
+              </g>
+            )}
+            <g className={RADIAL_TREE_LINKS_CLASS} fill="none">
+              {linkRenderData.map(({ source, target, node, strokeWidth, strokeColor, highlight, dashed }, linkIndex) => (
+                <path
+                  key={node.id}
+                  d={linkPath({ source: positionOf(source), target: positionOf(target) }) ?? undefined}
+                  className={[
+                    RADIAL_TREE_LINK_CLASS,
+                    highlight && `${RADIAL_TREE_LINK_CLASS}--${highlight}`,
+                    dimmedLinks?.[linkIndex] && `${RADIAL_TREE_LINK_CLASS}--dimmed`
+                  ]
+                    .filter(Boolean)
+                    .join(' ')}
+                  data-node-id={node.id}
+                  data-highlighted={highlighted?.has(node.id) ? true : undefined}
+                  data-change={layout.highlightKind === 'change' ? highlight ?? undefined : undefined}
+                  data-status={layout.highlightKind === 'status' ? highlight ?? undefined : undefined}
+                  data-focusable={onFocusChange && node.type === 'directory' ? true : undefined}
+                  strokeWidth={blend ? blend.strokeWidths[linkIndex] : strokeWidth}
+                  opacity={blend && blend.opacities[linkIndex] < 1 ? blend.opacities[linkIndex] : undefined}
+                  stroke={strokeColor}
+                  strokeDasharray={dashed ? '6 6' : undefined}
+                  onMouseEnter={(event) => handleLinkHover(event, node)}
+                  onMouseMove={(event) => handleLinkHover(event, node)}
+                  onMouseLeave={resetTooltip}
+                  onClick={() => handleLinkClick(node)}
+                />
+              ))}
+            </g>
           </g>
-          <g className={RADIAL_TREE_LINKS_CLASS} fill="none">
-            {linkRenderData.map(({ link, strokeWidth, strokeColor }) => (
-              <path
-                key={link.target.data.id}
-                d={linkPath(link) ?? undefined}
-                className={RADIAL_TREE_LINK_CLASS}
-                data-node-id={link.target.data.id}
-                strokeWidth={strokeWidth}
-                stroke={strokeColor}
-                onMouseEnter={(event) => handleLinkHover(event, link.target)}
-                onMouseMove={(event) => handleLinkHover(event, link.target)}
-                onMouseLeave={resetTooltip}
+        </svg>
+      )}
+      {progress != null && <LayoutProgress progress={progress} />}
+      {legend && (
+        <ul className="radial-tree__legend" aria-label={legend.label}>
+          {legend.items.map(({ key, label, color }) => (
+            <li key={key} className="radial-tree__legend-item">
+              <span
+                className={`radial-tree__legend-swatch radial-tree__legend-swatch--${key}`}
+                style={{ backgroundColor: color }}
               />
-            ))}
-          </g>
-        </g>
-      </svg>
+              {label}
+            </li>
+          ))}
+        </ul>
+      )}
       {tooltip && (
         <div
           className={RADIAL_TREE_TOOLTIP_CLASS}
@@ -260,6 +811,54 @@ export const RadialTree: React.FC<RadialTreeProps> = ({ data, level }) => {
                 <dd>{formatBytes(tooltip.node.size)}</dd>
               </div>
             )}
+            {!diff && colorBy === 'language' && tooltip.node.language && (
+              <div className="tooltip__item">
+                <dt>Language</dt>
+                <dd>{tooltip.node.language}</dd>
+              </div>
+            )}
+            {!diff && colorBy === 'age' && tooltip.node.churn?.lastCommit && (
+              <div className="tooltip__item">
+                <dt>Last commit</dt>
+                <dd>{new Date(tooltip.node.churn.lastCommit.timestamp).toISOString().slice(0, 10)}</dd>
+              </div>
+            )}
+            {!diff && colorBy === 'churn' && tooltip.node.churn && (
+              <div className="tooltip__item">
+                <dt>Commits</dt>
+                <dd>{tooltip.node.churn.commits.toLocaleString()}</dd>
+              </div>
+            )}
+            {!diff && colorBy === 'author' && tooltip.node.authorship?.topAuthors[0] && (
+              <div className="tooltip__item">
+                <dt>Top author</dt>
+                <dd>{tooltip.node.authorship.topAuthors[0].name}</dd>
+              </div>
+            )}
+            {!diff && status && tooltip.node.status && (
+              <div className="tooltip__item">
+                <dt>Status</dt>
+                <dd>{tooltip.node.status}</dd>
+              </div>
+            )}
+            {diff && tooltip.node.change && (
+              <>
+                <div className="tooltip__item">
+                  <dt>Change</dt>
+                  <dd>{tooltip.node.change.status}</dd>
+                </div>
+                <div className="tooltip__item">
+                  <dt>Delta</dt>
+                  <dd>{formatSizeDelta(tooltip.node.change.sizeDelta)}</dd>
+                </div>
+                {tooltip.node.change.previousPath && (
+                  <div className="tooltip__item">
+                    <dt>From</dt>
+                    <dd>{tooltip.node.change.previousPath}</dd>
+                  </div>
+                )}
+              </>
+            )}
           </dl>
         </div>
       )}
@@ -267,4 +866,4 @@ export const RadialTree: React.FC<RadialTreeProps> = ({ data, level }) => {
   );
 };
 
-RadialTree.displayName = 'RadialTree';
+RadialTreeView.displayName = 'RadialTreeView';
@@ -0,0 +1,86 @@
+import React, { useCallback } from 'react';
+import type { RepositoryRefs } from '@octotree/core';
+
+interface RefPickerProps {
+  refs: RepositoryRefs;
+  /** Selected ref, or null for the server's default */
+  value: string | null;
+  onChange: (ref: string | null) => void;
+  /** Shown below the select, such as the error returned for a ref that does not exist */
+  error?: string | null;
+}
+
+// Commit subjects are cut short so the select does not stretch the sidebar
+const SUBJECT_LENGTH = 48;
+
+const truncate = (value: string, length: number): string =>
+  value.length > length ? `${value.slice(0, length - 1)}…` : value;
+
+/**
+ * Select listing branches, tags and recent commits. A ref typed into the URL that is not listed
+ * stays selectable so the select always shows what is on screen.
+ */
+export const RefPicker: React.FC<RefPickerProps> = ({ refs, value, onChange, error = null }) => {
+  const listed =
+    value == null ||
+    refs.branches.some(({ name }) => name === value) ||
+    refs.tags.some(({ name }) => name === value) ||
+    refs.commits.some(({ hash }) => hash === value);
+
+  const handleChange = useCallback(
+    (event: React.ChangeEvent<HTMLSelectElement>) => {
+      onChange(event.target.value || null);
+    },
+    [onChange]
+  );
+
+  return (
+    <div className="sidebar__section ref-picker">
+      <label className="sidebar__section sidebar__control">
+        <span className="sidebar__control-label">Ref</span>
+        <select
+          value={value ?? ''}
+          onChange={handleChange}
+          aria-invalid={error ? true : undefined}
+        >
+          <option value="">{refs.head ? `Default (${refs.head})` : 'Default'}</option>
+          {!listed && <option value={value}>{value}</option>}
+          {refs.branches.length > 0 && (
+            <optgroup label="Branches">
+              {refs.branches.map(({ name }) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+          {refs.tags.length > 0 && (
+            <optgroup label="Tags">
+              {refs.tags.map(({ name }) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+          {refs.commits.length > 0 && (
+            <optgroup label="Recent commits">
+              {refs.commits.map(({ hash, shortHash, subject, author }) => (
+                <option key={hash} value={hash}>
+                  {shortHash} {truncate(subject, SUBJECT_LENGTH)} ({author})
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+      </label>
+      {error && (
+        <span className="sidebar__error" role="alert">
+          {error}
+        </span>
+      )}
+    </div>
+  );
+};
+
+RefPicker.displayName = 'RefPicker';
@@ -0,0 +1,68 @@
+import React, { useCallback } from 'react';
+
+interface TimelineProps {
+  /** Commit hashes, oldest first */
+  commits: string[];
+  /** Position of the commit on screen, or -1 when the tree is not one of `commits` */
+  index: number;
+  onIndexChange: (index: number) => void;
+  playing: boolean;
+  onPlayingChange: (playing: boolean) => void;
+}
+
+/**
+ * Slider over the repository history with a play button. Playing from the last commit starts
+ * over from the first.
+ */
+export const Timeline: React.FC<TimelineProps> = ({ commits, index, onIndexChange, playing, onPlayingChange }) => {
+  const last = commits.length - 1;
+  const position = index < 0 ? last : index;
+  const commit = index < 0 ? null : commits[index];
+
+  const handleSliderChange = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      onPlayingChange(false);
+      onIndexChange(Number(event.target.value));
+    },
+    [onIndexChange, onPlayingChange]
+  );
+
+  const handlePlayClick = useCallback(() => {
+    if (!playing && index === last) {
+      onIndexChange(0);
+    }
+    onPlayingChange(!playing);
+  }, [playing, index, last, onIndexChange, onPlayingChange]);
+
+  const label = commit ? `${commit.slice(0, 7)} · ${position + 1} / ${commits.length}` : `${commits.length} commits`;
+
+  return (
+    <div className="sidebar__section timeline">
+      <span className="sidebar__control-label">History</span>
+      <div className="timeline__controls">
+        <button
+          type="button"
+          className="timeline__play"
+          onClick={handlePlayClick}
+          aria-label={playing ? 'Pause history' : 'Play history'}
+        >
+          {playing ? '❚❚' : '▶'}
+        </button>
+        <input
+          type="range"
+          className="timeline__slider"
+          min={0}
+          max={last}
+          step={1}
+          value={position}
+          onChange={handleSliderChange}
+          aria-label="Commit"
+          aria-valuetext={commit ? `Commit ${position + 1} of ${commits.length}, ${commit.slice(0, 7)}` : undefined}
+        />
+      </div>
+      <span className="timeline__label">{label}</span>
+    </div>
+  );
+};
+
+Timeline.displayName = 'Timeline';
@@ -0,0 +1,25 @@
+import React from 'react';
+import type { CommitSummary } from '@octotree/core';
+import { formatTimestamp } from '../format';
+
+interface TitleCardProps {
+  title: string;
+  /** Repository or subdirectory name shown under the title */
+  repository: string | null;
+  /** Commit behind the card, whose date is shown */
+  commit: CommitSummary | null;
+}
+
+/** Full-page card over the tree, used for the opening and closing frames of a video */
+export const TitleCard: React.FC<TitleCardProps> = ({ title, repository, commit }) => (
+  <div className="title-card" role="dialog" aria-label={title}>
+    <h1 className="title-card__title">{title}</h1>
+    {(repository || commit) && (
+      <p className="title-card__subtitle">
+        {[repository, commit && formatTimestamp(commit.timestamp)].filter(Boolean).join(' · ')}
+      </p>
+    )}
+  </div>
+);
+
+TitleCard.displayName = 'TitleCard';
@@ -0,0 +1,83 @@
+import { interpolatePoint, type PolarPoint } from './layout';
+import type { LaidOutTree } from './useTreeLayout';
+
+/** A branch that is gone from the target tree, shrinking into its nearest surviving ancestor */
+export interface FadingLink {
+  id: string;
+  source: PolarPoint;
+  target: PolarPoint;
+  strokeWidth: number;
+  strokeColor: string;
+  opacity: number;
+}
+
+/** A state part way from one tree to another, as drawn between two frames of a video */
+export interface TreeBlend {
+  /** Source tree positions by node id; branches of the target tree move from there */
+  from: Map<string, PolarPoint>;
+  /** 0 draws the source tree, 1 the target */
+  amount: number;
+  /** Stroke width of each target link, grown from its width in the source tree or from nothing */
+  strokeWidths: Float64Array;
+  /** Opacity of each target link; branches new to the target fade in */
+  opacities: Float64Array;
+  fadingLinks: FadingLink[];
+}
+
+export const blendLayouts = (source: LaidOutTree, target: LaidOutTree, amount: number): TreeBlend => {
+  const progress = Math.min(Math.max(amount, 0), 1);
+  const { layout: sourceLayout, nodes: sourceNodes } = source;
+  const { layout: targetLayout, nodes: targetNodes } = target;
+
+  const from = new Map<string, PolarPoint>();
+  sourceNodes.forEach((node, index) => {
+    from.set(node.id, { x: sourceLayout.angles[index], y: sourceLayout.radii[index] });
+  });
+  const targetIndices = new Map<string, number>();
+  targetNodes.forEach((node, index) => targetIndices.set(node.id, index));
+
+  const sourceWidths = new Map<string, number>();
+  sourceLayout.linkTargets.forEach((nodeIndex, linkIndex) => {
+    sourceWidths.set(sourceNodes[nodeIndex].id, sourceLayout.strokeWidths[linkIndex]);
+  });
+
+  const strokeWidths = new Float64Array(targetLayout.linkTargets.length);
+  const opacities = new Float64Array(targetLayout.linkTargets.length);
+  targetLayout.linkTargets.forEach((nodeIndex, linkIndex) => {
+    const width = targetLayout.strokeWidths[linkIndex];
+    const previousWidth = sourceWidths.get(targetNodes[nodeIndex].id);
+    strokeWidths[linkIndex] = (previousWidth ?? 0) + (width - (previousWidth ?? 0)) * progress;
+    opacities[linkIndex] = previousWidth == null ? progress : 1;
+  });
+
+  // Removed nodes collapse onto where their nearest ancestor in the target tree ends up
+  const destinationOf = (index: number): PolarPoint => {
+    for (let current = index; current >= 0; current = sourceLayout.parents[current]) {
+      const match = targetIndices.get(sourceNodes[current].id);
+      if (match != null) {
+        return { x: targetLayout.angles[match], y: targetLayout.radii[match] };
+      }
+    }
+    return { x: sourceLayout.angles[index], y: 0 };
+  };
+  const blendedPoint = (index: number): PolarPoint =>
+    interpolatePoint({ x: sourceLayout.angles[index], y: sourceLayout.radii[index] }, destinationOf(index), progress);
+
+  const fadingLinks: FadingLink[] = [];
+  sourceLayout.linkTargets.forEach((nodeIndex, linkIndex) => {
+    const node = sourceNodes[nodeIndex];
+    if (targetIndices.has(node.id)) {
+      return;
+    }
+    fadingLinks.push({
+      id: node.id,
+      source: blendedPoint(sourceLayout.parents[nodeIndex]),
+      target: blendedPoint(nodeIndex),
+      strokeWidth: sourceLayout.strokeWidths[linkIndex] * (1 - progress),
+      strokeColor: sourceLayout.palette[sourceLayout.strokeColors[linkIndex]],
+      opacity: 1 - progress
+    });
+  });
+
+  return { from, amount: progress, strokeWidths, opacities, fadingLinks };
+};
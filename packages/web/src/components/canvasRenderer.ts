@@ -0,0 +1,93 @@
+import { linkRadial } from 'd3-shape';
+import type { PolarPoint } from './layout';
+
+export type RendererMode = 'auto' | 'svg' | 'canvas';
+
+export const RENDERER_MODES: RendererMode[] = ['auto', 'svg', 'canvas'];
+
+// SVG keeps every branch in the DOM, which stops keeping up with pointer events and transitions
+// somewhere past this many links
+export const CANVAS_LINK_THRESHOLD = 20000;
+
+export const parseRendererMode = (value: string | null | undefined): RendererMode | null => {
+  const normalized = value?.trim().toLowerCase();
+  return RENDERER_MODES.find((mode) => mode === normalized) ?? null;
+};
+
+/**
+ * Picks the renderer for `linkCount` visible links: `auto` switches to canvas past
+ * `CANVAS_LINK_THRESHOLD`.
+ */
+export const resolveRenderer = (mode: RendererMode, linkCount: number): 'svg' | 'canvas' => {
+  if (mode !== 'auto') {
+    return mode;
+  }
+  return linkCount > CANVAS_LINK_THRESHOLD ? 'canvas' : 'svg';
+};
+
+export interface CanvasLink {
+  source: PolarPoint;
+  target: PolarPoint;
+  strokeWidth: number;
+  strokeColor: string;
+  strokeOpacity: number;
+  dashed: boolean;
+}
+
+export interface CanvasScene {
+  /** Side length of the square canvas, in layout units */
+  canvasSize: number;
+  pixelRatio: number;
+  view: { scale: number; x: number; y: number };
+  levels: number[];
+  links: CanvasLink[];
+}
+
+// Mirrors the SVG styles in App.css so both renderers look alike
+const LEVEL_STROKE = 'rgba(148, 163, 184, 0.25)';
+const LEVEL_DASH = [4, 8];
+const REMOVED_DASH = [6, 6];
+
+/**
+ * Draws the levels and links onto a 2D canvas whose backing store is
+ * `canvasSize * pixelRatio` pixels square.
+ */
+export const drawRadialTree = (context: CanvasRenderingContext2D, scene: CanvasScene): void => {
+  const { canvasSize, pixelRatio, view, levels, links } = scene;
+  context.setTransform(1, 0, 0, 1, 0, 0);
+  context.clearRect(0, 0, context.canvas.width, context.canvas.height);
+  context.setTransform(
+    pixelRatio * view.scale,
+    0,
+    0,
+    pixelRatio * view.scale,
+    pixelRatio * (canvasSize / 2 + view.x),
+    pixelRatio * (canvasSize / 2 + view.y)
+  );
+
+  context.lineWidth = 1;
+  context.strokeStyle = LEVEL_STROKE;
+  context.setLineDash(LEVEL_DASH);
+  for (const levelRadius of levels) {
+    context.beginPath();
+    context.arc(0, 0, levelRadius, 0, 2 * Math.PI);
+    context.stroke();
+  }
+
+  const link = linkRadial<CanvasLink, PolarPoint>()
+    .angle((point) => point.x)
+    .radius((point) => point.y)
+    .context(context);
+  context.lineCap = 'round';
+  for (const datum of links) {
+    context.beginPath();
+    link(datum);
+    context.setLineDash(datum.dashed ? REMOVED_DASH : []);
+    context.lineWidth = datum.strokeWidth;
+    context.strokeStyle = datum.strokeColor;
+    context.globalAlpha = datum.strokeOpacity;
+    context.stroke();
+  }
+  context.globalAlpha = 1;
+  context.setLineDash([]);
+};
@@ -0,0 +1,191 @@
+import { hierarchy, tree, type HierarchyPointNode } from 'd3-hierarchy';
+import type { TreeNode } from '@octotree/core';
+
+/** A position in the radial layout: `x` is the angle in radians, `y` the distance from the center */
+export interface PolarPoint {
+  x: number;
+  y: number;
+}
+
+// Angles take the shorter way around so branches do not sweep across the whole circle
+export const interpolatePoint = (from: PolarPoint, to: PolarPoint, amount: number): PolarPoint => {
+  let angleDelta = (to.x - from.x) % (2 * Math.PI);
+  if (angleDelta > Math.PI) {
+    angleDelta -= 2 * Math.PI;
+  } else if (angleDelta < -Math.PI) {
+    angleDelta += 2 * Math.PI;
+  }
+  return { x: from.x + angleDelta * amount, y: from.y + (to.y - from.y) * amount };
+};
+
+export interface RadialLayout {
+  root: HierarchyPointNode<TreeNode>;
+  radius: number;
+  maxDepth: number;
+  /** Side length of the square canvas, in layout units */
+  canvasSize: number;
+}
+
+const BASE_RADIUS = 160;
+const DEPTH_SPACING = 110;
+const MAX_RADIUS = 800;
+const CANVAS_PADDING = 200;
+
+const separation = (
+  a: HierarchyPointNode<TreeNode>,
+  b: HierarchyPointNode<TreeNode>
+): number => {
+  return a.parent === b.parent ? 1 : 2;
+};
+
+/**
+ * Lays `rootNode` out radially. Every node's `value` is the number of files below it, and depths
+ * past `level` are drawn on the outermost ring.
+ */
+export const computeRadialLayout = (rootNode: TreeNode, level: number | null): RadialLayout => {
+  const hierarchyRoot = hierarchy<TreeNode>(rootNode, (node) => node.children);
+  hierarchyRoot.sum((node) => (node.type === 'file' ? 1 : 0));
+  const layout = tree<TreeNode>()
+    .size([2 * Math.PI, 1])
+    .separation(separation);
+  const root = layout(hierarchyRoot);
+
+  const maxDepth = Math.max(1, level ?? Math.max(1, root.height));
+  const radius = Math.min(BASE_RADIUS + maxDepth * DEPTH_SPACING, MAX_RADIUS);
+
+  root.each((node) => {
+    const depthForLayout = Math.min(node.depth, maxDepth);
+    node.y = (depthForLayout / maxDepth) * radius;
+  });
+
+  return { root, radius, maxDepth, canvasSize: radius * 2 + CANVAS_PADDING };
+};
+
+const toCartesian = ({ x: angle, y: radius }: PolarPoint): [number, number] => {
+  // Matches d3's pointRadial: angle zero points up and angles grow clockwise
+  return [radius * Math.sin(angle), -radius * Math.cos(angle)];
+};
+
+// Points along the curve d3's linkRadial draws: a cubic Bézier through the mid radius
+const CURVE_SAMPLES = 8;
+const POINTS_PER_LINK = CURVE_SAMPLES + 1;
+
+const sampleLinkCurve = (
+  source: PolarPoint,
+  target: PolarPoint,
+  samples: Float64Array,
+  offset: number
+): void => {
+  const middle = (source.y + target.y) / 2;
+  const [x0, y0] = toCartesian(source);
+  const [x1, y1] = toCartesian({ x: source.x, y: middle });
+  const [x2, y2] = toCartesian({ x: target.x, y: middle });
+  const [x3, y3] = toCartesian(target);
+  for (let step = 0; step <= CURVE_SAMPLES; step += 1) {
+    const t = step / CURVE_SAMPLES;
+    const u = 1 - t;
+    const a = u * u * u;
+    const b = 3 * u * u * t;
+    const c = 3 * u * t * t;
+    const d = t * t * t;
+    samples[offset + step * 2] = a * x0 + b * x1 + c * x2 + d * x3;
+    samples[offset + step * 2 + 1] = a * y0 + b * y1 + c * y2 + d * y3;
+  }
+};
+
+const distanceToSegment = (
+  px: number,
+  py: number,
+  samples: Float64Array,
+  offset: number
+): number => {
+  const ax = samples[offset];
+  const ay = samples[offset + 1];
+  const dx = samples[offset + 2] - ax;
+  const dy = samples[offset + 3] - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0 ? Math.min(Math.max(((px - ax) * dx + (py - ay) * dy) / lengthSquared, 0), 1) : 0;
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+};
+
+export interface HitTestLink {
+  source: PolarPoint;
+  target: PolarPoint;
+  strokeWidth: number;
+}
+
+export interface LinkHitIndex {
+  /**
+   * Returns the index of the link drawn under `point` (cartesian, relative to the center), or
+   * null. Links later in the list are drawn on top and win ties.
+   */
+  find: (point: [number, number], tolerance?: number) => number | null;
+}
+
+const CELL_SIZE = 24;
+// Cell coordinates are offset so both fit in one non-negative integer key
+const CELL_OFFSET = 1 << 15;
+
+const cellKey = (column: number, row: number): number => {
+  return (column + CELL_OFFSET) * 2 * CELL_OFFSET + row + CELL_OFFSET;
+};
+
+/**
+ * Buckets the sampled segments of every link into a uniform grid, so hovering a canvas with
+ * hundreds of thousands of links only measures the few segments near the pointer. Each cell
+ * lists `linkIndex * CURVE_SAMPLES + segment` for the segments crossing it.
+ */
+export const createLinkHitIndex = (links: HitTestLink[]): LinkHitIndex => {
+  const samples = new Float64Array(links.length * POINTS_PER_LINK * 2);
+  const cells = new Map<number, number[]>();
+  let maxHalfWidth = 0;
+
+  links.forEach(({ source, target, strokeWidth }, linkIndex) => {
+    maxHalfWidth = Math.max(maxHalfWidth, strokeWidth / 2);
+    const offset = linkIndex * POINTS_PER_LINK * 2;
+    sampleLinkCurve(source, target, samples, offset);
+    for (let segment = 0; segment < CURVE_SAMPLES; segment += 1) {
+      const ax = samples[offset + segment * 2];
+      const ay = samples[offset + segment * 2 + 1];
+      const bx = samples[offset + segment * 2 + 2];
+      const by = samples[offset + segment * 2 + 3];
+      const maxColumn = Math.floor(Math.max(ax, bx) / CELL_SIZE);
+      const maxRow = Math.floor(Math.max(ay, by) / CELL_SIZE);
+      for (let column = Math.floor(Math.min(ax, bx) / CELL_SIZE); column <= maxColumn; column += 1) {
+        for (let row = Math.floor(Math.min(ay, by) / CELL_SIZE); row <= maxRow; row += 1) {
+          const key = cellKey(column, row);
+          const entries = cells.get(key);
+          if (entries) {
+            entries.push(linkIndex * CURVE_SAMPLES + segment);
+          } else {
+            cells.set(key, [linkIndex * CURVE_SAMPLES + segment]);
+          }
+        }
+      }
+    }
+  });
+
+  return {
+    find: ([px, py], tolerance = 2) => {
+      const reach = Math.ceil((maxHalfWidth + tolerance) / CELL_SIZE);
+      const column = Math.floor(px / CELL_SIZE);
+      const row = Math.floor(py / CELL_SIZE);
+      let best: number | null = null;
+      for (let dx = -reach; dx <= reach; dx += 1) {
+        for (let dy = -reach; dy <= reach; dy += 1) {
+          for (const entry of cells.get(cellKey(column + dx, row + dy)) ?? []) {
+            const linkIndex = Math.floor(entry / CURVE_SAMPLES);
+            if (best != null && linkIndex <= best) {
+              continue;
+            }
+            const offset = (linkIndex * POINTS_PER_LINK + (entry % CURVE_SAMPLES)) * 2;
+            if (distanceToSegment(px, py, samples, offset) <= links[linkIndex].strokeWidth / 2 + tolerance) {
+              best = linkIndex;
+            }
+          }
+        }
+      }
+      return best;
+    }
+  };
+};
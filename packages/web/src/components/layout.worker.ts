@@ -0,0 +1,11 @@
+import { computeTreeLayout, layoutTransferables } from './treeLayout';
+import type { LayoutRequest, LayoutResponse } from './useTreeLayout';
+
+const post = (message: LayoutResponse, transfer: Transferable[] = []): void => {
+  self.postMessage(message, { transfer });
+};
+
+self.onmessage = ({ data: { id, root, options } }: MessageEvent<LayoutRequest>) => {
+  const layout = computeTreeLayout(root, options, (progress) => post({ id, type: 'progress', progress }));
+  post({ id, type: 'layout', layout }, layoutTransferables(layout));
+};
@@ -0,0 +1,238 @@
+import type { HierarchyPointNode } from 'd3-hierarchy';
+import type { ChangeStatus, FileStatus, TreeNode } from '@octotree/core';
+import { createLinkColorScale, type ColorMode, type LegendItem } from '../colorModes';
+import { computeRadialLayout } from './layout';
+
+export const DIFF_COLORS: Record<ChangeStatus, string> = {
+  added: '#22c55e',
+  removed: '#f87171',
+  modified: '#facc15',
+  renamed: '#38bdf8',
+  unchanged: '#475569'
+};
+
+// Draw unchanged branches first so changes stay visible on top
+const DIFF_DRAW_ORDER: Record<ChangeStatus, number> = {
+  unchanged: 0,
+  removed: 1,
+  renamed: 2,
+  modified: 3,
+  added: 4
+};
+
+export const FILE_STATUS_COLORS: Record<FileStatus, string> = {
+  untracked: '#22c55e',
+  deleted: '#f87171',
+  modified: '#facc15',
+  staged: '#38bdf8',
+  clean: '#475569'
+};
+
+const FILE_STATUS_DRAW_ORDER: Record<FileStatus, number> = {
+  clean: 0,
+  deleted: 1,
+  staged: 2,
+  modified: 3,
+  untracked: 4
+};
+
+const CHANGE_STATUSES = Object.keys(DIFF_COLORS) as ChangeStatus[];
+const FILE_STATUSES = Object.keys(FILE_STATUS_COLORS) as FileStatus[];
+
+const BASE_STROKE_WIDTH = 2;
+const STROKE_WIDTH_RANGE = 20;
+
+export interface TreeLayoutOptions {
+  level: number | null;
+  colorBy: ColorMode;
+  diff: boolean;
+  status: boolean;
+}
+
+/**
+ * A laid out and styled tree, packed into typed arrays so it can be transferred from the layout
+ * worker without copying. Nodes are indexed in the order `flattenTree` lists them.
+ */
+export interface TreeLayout {
+  /** Id of the node at the center */
+  rootId: string;
+  radius: number;
+  maxDepth: number;
+  /** Side length of the square canvas, in layout units */
+  canvasSize: number;
+  /** Angle of every node, in radians */
+  angles: Float64Array;
+  /** Distance of every node from the center */
+  radii: Float64Array;
+  /** Index of every node's parent, -1 for the root */
+  parents: Int32Array;
+  /** The visible links in draw order, each given by the index of the node it leads to */
+  linkTargets: Int32Array;
+  strokeWidths: Float64Array;
+  /** Index of each link's color in `palette` */
+  strokeColors: Uint32Array;
+  palette: string[];
+  /** Whether links are highlighted by diff change or working tree status */
+  highlightKind: 'change' | 'status' | null;
+  /** Index of each link's change or status, in the order of `DIFF_COLORS` or `FILE_STATUS_COLORS` */
+  linkHighlights: Uint8Array;
+  /** Legend for the color mode */
+  legend: LegendItem[];
+}
+
+/**
+ * Lists `root` and every node below it depth first, parents before their children. This is the
+ * order `TreeLayout` indexes nodes in.
+ */
+export const flattenTree = (root: TreeNode): TreeNode[] => {
+  const nodes: TreeNode[] = [];
+  const stack = [root];
+  while (stack.length > 0) {
+    const node = stack.pop() as TreeNode;
+    nodes.push(node);
+    const children = node.children ?? [];
+    for (let index = children.length - 1; index >= 0; index -= 1) {
+      stack.push(children[index]);
+    }
+  }
+  return nodes;
+};
+
+/** The change or status `linkIndex` is highlighted with, or null */
+export const highlightOf = (layout: TreeLayout, linkIndex: number): ChangeStatus | FileStatus | null => {
+  if (layout.highlightKind === 'change') {
+    return CHANGE_STATUSES[layout.linkHighlights[linkIndex]];
+  }
+  if (layout.highlightKind === 'status') {
+    return FILE_STATUSES[layout.linkHighlights[linkIndex]];
+  }
+  return null;
+};
+
+/** The buffers to transfer along with `layout` */
+export const layoutTransferables = (layout: TreeLayout): ArrayBuffer[] => {
+  return [
+    layout.angles,
+    layout.radii,
+    layout.parents,
+    layout.linkTargets,
+    layout.strokeWidths,
+    layout.strokeColors,
+    layout.linkHighlights
+  ].map((array) => array.buffer as ArrayBuffer);
+};
+
+/**
+ * Lays `root` out radially and styles every visible link: widths scale with the files below the
+ * link, colors follow `colorBy` unless diff or status highlighting takes over. `onProgress` is
+ * called with the fraction done after each step.
+ */
+export const computeTreeLayout = (
+  root: TreeNode,
+  { level, colorBy, diff, status }: TreeLayoutOptions,
+  onProgress?: (progress: number) => void
+): TreeLayout => {
+  const { root: layoutRoot, radius, maxDepth, canvasSize } = computeRadialLayout(root, level);
+  onProgress?.(0.4);
+
+  const colorScale = createLinkColorScale(root, colorBy);
+  onProgress?.(0.6);
+
+  const nodeCount = layoutRoot.descendants().length;
+  const angles = new Float64Array(nodeCount);
+  const radii = new Float64Array(nodeCount);
+  const parents = new Int32Array(nodeCount);
+  const indexOf = new Map<HierarchyPointNode<TreeNode>, number>();
+  // d3 visits children in order, matching flattenTree
+  layoutRoot.eachBefore((node) => {
+    const index = indexOf.size;
+    indexOf.set(node, index);
+    angles[index] = node.x;
+    radii[index] = node.y;
+    parents[index] = node.parent ? (indexOf.get(node.parent) ?? -1) : -1;
+  });
+
+  let maxFiles = 0;
+  const visible: Array<HierarchyPointNode<TreeNode>> = [];
+  layoutRoot.each((node) => {
+    if (node.depth > maxDepth) {
+      return;
+    }
+    maxFiles = Math.max(maxFiles, node.value ?? (node.data.type === 'file' ? 1 : 0));
+    if (node.parent) {
+      visible.push(node);
+    }
+  });
+
+  const highlightKind = diff ? 'change' : status ? 'status' : null;
+  const linkCount = visible.length;
+  const widths = new Float64Array(linkCount);
+  const colorOrders = new Float64Array(linkCount);
+  const drawOrders = new Uint8Array(linkCount);
+  const highlights = new Uint8Array(linkCount);
+  const colors = new Uint32Array(linkCount);
+  const palette: string[] = [];
+  const paletteIndex = new Map<string, number>();
+
+  visible.forEach((node, linkIndex) => {
+    const fileCount = node.value ?? (node.data.type === 'file' ? 1 : 0);
+    widths[linkIndex] = BASE_STROKE_WIDTH + (maxFiles > 0 ? fileCount / maxFiles : 0) * STROKE_WIDTH_RANGE;
+
+    const scaled = colorScale.colorOf(node.data);
+    let color = scaled.color;
+    colorOrders[linkIndex] = scaled.order;
+    // Diff mode takes precedence; working tree status only colors plain trees
+    if (highlightKind === 'change') {
+      const change = node.data.change?.status ?? 'unchanged';
+      color = DIFF_COLORS[change];
+      drawOrders[linkIndex] = DIFF_DRAW_ORDER[change];
+      highlights[linkIndex] = CHANGE_STATUSES.indexOf(change);
+    } else if (highlightKind === 'status') {
+      const fileStatus = node.data.status ?? 'clean';
+      color = FILE_STATUS_COLORS[fileStatus];
+      drawOrders[linkIndex] = FILE_STATUS_DRAW_ORDER[fileStatus];
+      highlights[linkIndex] = FILE_STATUSES.indexOf(fileStatus);
+    }
+
+    let colorIndex = paletteIndex.get(color);
+    if (colorIndex == null) {
+      colorIndex = palette.length;
+      palette.push(color);
+      paletteIndex.set(color, colorIndex);
+    }
+    colors[linkIndex] = colorIndex;
+  });
+  onProgress?.(0.8);
+
+  const order = Array.from({ length: linkCount }, (_, index) => index).sort(
+    (a, b) => drawOrders[a] - drawOrders[b] || colorOrders[a] - colorOrders[b] || a - b
+  );
+  const linkTargets = new Int32Array(linkCount);
+  const strokeWidths = new Float64Array(linkCount);
+  const strokeColors = new Uint32Array(linkCount);
+  const linkHighlights = new Uint8Array(linkCount);
+  order.forEach((linkIndex, drawIndex) => {
+    linkTargets[drawIndex] = indexOf.get(visible[linkIndex]) ?? 0;
+    strokeWidths[drawIndex] = widths[linkIndex];
+    strokeColors[drawIndex] = colors[linkIndex];
+    linkHighlights[drawIndex] = highlights[linkIndex];
+  });
+  onProgress?.(1);
+
+  return {
+    rootId: root.id,
+    radius,
+    maxDepth,
+    canvasSize,
+    angles,
+    radii,
+    parents,
+    linkTargets,
+    strokeWidths,
+    strokeColors,
+    palette,
+    highlightKind,
+    linkHighlights,
+    legend: colorScale.legend
+  };
+};
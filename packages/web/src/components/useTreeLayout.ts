@@ -0,0 +1,223 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { TreeNode } from '@octotree/core';
+import { computeTreeLayout, flattenTree, type TreeLayout, type TreeLayoutOptions } from './treeLayout';
+
+export interface LayoutRequest {
+  id: string;
+  root: TreeNode;
+  options: TreeLayoutOptions;
+}
+
+export type LayoutResponse =
+  | { id: string; type: 'progress'; progress: number }
+  | { id: string; type: 'layout'; layout: TreeLayout };
+
+/** A layout along with the nodes its indices refer to */
+export interface LaidOutTree {
+  layout: TreeLayout;
+  nodes: TreeNode[];
+}
+
+interface LayoutListener {
+  onProgress: (progress: number) => void;
+  onLayout: (layout: TreeLayout) => void;
+}
+
+interface PendingLayout {
+  root: TreeNode;
+  options: TreeLayoutOptions;
+  listeners: Set<LayoutListener>;
+}
+
+// Enough to flip between a handful of refs, focuses and color modes without laying out again
+const CACHE_SIZE = 8;
+const cache = new Map<string, TreeLayout>();
+const pending = new Map<string, PendingLayout>();
+let worker: Worker | null = null;
+let workerFailed = false;
+
+const readCache = (key: string): TreeLayout | null => {
+  const layout = cache.get(key);
+  if (!layout) {
+    return null;
+  }
+  cache.delete(key);
+  cache.set(key, layout);
+  return layout;
+};
+
+const storeInCache = (key: string, layout: TreeLayout): void => {
+  cache.delete(key);
+  cache.set(key, layout);
+  for (const oldest of cache.keys()) {
+    if (cache.size <= CACHE_SIZE) {
+      break;
+    }
+    cache.delete(oldest);
+  }
+};
+
+/**
+ * Hashes the shape of a flattened tree and everything the layout reads from its nodes. Every ref
+ * is fetched as a new tree, so the hash rather than object identity tells the cache two trees
+ * apart; trees with the same hash share node indices, so a cached layout fits either.
+ */
+export const fingerprintTree = (nodes: TreeNode[]): string => {
+  let fnv = 0x811c9dc5;
+  let djb = 5381;
+  const add = (value: string) => {
+    for (let index = 0; index < value.length; index += 1) {
+      const code = value.charCodeAt(index);
+      fnv = Math.imul(fnv ^ code, 0x01000193);
+      djb = Math.imul(djb, 33) ^ code;
+    }
+  };
+  for (const node of nodes) {
+    const author = node.authorship?.topAuthors[0];
+    add(node.id);
+    add(
+      [
+        node.children?.length ?? 0,
+        node.size,
+        node.mtimeMs,
+        node.language,
+        node.change?.status,
+        node.status,
+        node.churn?.commits,
+        node.churn?.lastCommit?.timestamp,
+        author?.email,
+        author?.name
+      ].join('\0')
+    );
+  }
+  return `${(fnv >>> 0).toString(36)}-${(djb >>> 0).toString(36)}`;
+};
+
+const finishLayout = (key: string, layout: TreeLayout): void => {
+  const request = pending.get(key);
+  if (!request) {
+    return;
+  }
+  pending.delete(key);
+  // Cached even when nobody waits any more, so switching back is instant
+  storeInCache(key, layout);
+  request.listeners.forEach((listener) => listener.onLayout(layout));
+};
+
+// A worker that fails to load leaves the layout to the main thread
+const abandonWorker = (): void => {
+  workerFailed = true;
+  worker?.terminate();
+  worker = null;
+  for (const [key, { root, options }] of pending) {
+    finishLayout(key, computeTreeLayout(root, options));
+  }
+};
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./layout.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = ({ data }: MessageEvent<LayoutResponse>) => {
+      if (data.type === 'progress') {
+        pending.get(data.id)?.listeners.forEach((listener) => listener.onProgress(data.progress));
+      } else {
+        finishLayout(data.id, data.layout);
+      }
+    };
+    worker.onerror = abandonWorker;
+  }
+  return worker;
+};
+
+const canUseWorker = (): boolean => !workerFailed && typeof Worker !== 'undefined';
+
+// Requests for a layout already being computed share its result
+const requestLayout = (
+  key: string,
+  root: TreeNode,
+  options: TreeLayoutOptions,
+  listener: LayoutListener
+): (() => void) => {
+  const existing = pending.get(key);
+  if (existing) {
+    existing.listeners.add(listener);
+  } else if (canUseWorker()) {
+    pending.set(key, { root, options, listeners: new Set([listener]) });
+    const request: LayoutRequest = { id: key, root, options };
+    getWorker().postMessage(request);
+  } else {
+    pending.set(key, { root, options, listeners: new Set([listener]) });
+    finishLayout(key, computeTreeLayout(root, options));
+  }
+  return () => {
+    pending.get(key)?.listeners.delete(listener);
+  };
+};
+
+const NO_NODES: TreeNode[] = [];
+
+/**
+ * Lays `root` out in a worker, reusing the layout of an identical tree laid out with the same
+ * options. Until the layout is ready, returns the previous one with `progress` between 0 and 1,
+ * or no layout at all on the first render. Without worker support the layout is computed while
+ * rendering. A null `root` lays nothing out.
+ */
+export const useTreeLayout = (
+  root: TreeNode | null,
+  { level, colorBy, diff, status }: TreeLayoutOptions
+): { laidOut: LaidOutTree | null; progress: number | null } => {
+  const nodes = useMemo(() => (root ? flattenTree(root) : NO_NODES), [root]);
+  const key = useMemo(
+    () =>
+      root
+        ? [fingerprintTree(nodes), root.id, level ?? 'all', colorBy, diff ? 'diff' : status ? 'status' : 'plain'].join('|')
+        : null,
+    [nodes, root, level, colorBy, diff, status]
+  );
+
+  const cached = useMemo(() => {
+    if (!root || !key) {
+      return null;
+    }
+    const hit = readCache(key);
+    if (hit || canUseWorker()) {
+      return hit;
+    }
+    const layout = computeTreeLayout(root, { level, colorBy, diff, status });
+    storeInCache(key, layout);
+    return layout;
+  }, [key, root, level, colorBy, diff, status]);
+
+  const [received, setReceived] = useState<{ key: string; layout: TreeLayout } | null>(null);
+  const [progress, setProgress] = useState<{ key: string; value: number } | null>(null);
+  const layout = cached ?? (received?.key === key ? received.layout : null);
+  const current = useMemo(() => (layout ? { layout, nodes } : null), [layout, nodes]);
+
+  useEffect(() => {
+    if (cached || !root || !key) {
+      return undefined;
+    }
+    return requestLayout(
+      key,
+      root,
+      { level, colorBy, diff, status },
+      {
+        onProgress: (value) => setProgress({ key, value }),
+        onLayout: (next) => setReceived({ key, layout: next })
+      }
+    );
+  }, [cached, key, root, level, colorBy, diff, status]);
+
+  const [shown, setShown] = useState(current);
+  if (current && current !== shown) {
+    setShown(current);
+  }
+
+  if (!root) {
+    return { laidOut: null, progress: null };
+  }
+  return {
+    laidOut: current ?? shown,
+    progress: current ? null : progress?.key === key ? progress.value : 0
+  };
+};
@@ -0,0 +1,37 @@
+import type { TreeNode } from '@octotree/core';
+
+/**
+ * Normalizes a `?focus=` value to a repository-relative directory path, or null for the root.
+ */
+export const normalizeFocusPath = (value: string | null | undefined): string | null => {
+  const normalized = value?.trim().replace(/^\.?\/+/, '').replace(/\/+$/, '');
+  return normalized && normalized !== '.' ? normalized : null;
+};
+
+const isWithin = (relativePath: string, directory: string): boolean => {
+  return relativePath === directory || relativePath.startsWith(`${directory}/`);
+};
+
+/**
+ * Walks from `root` towards the directory at `focusPath` and returns the directories passed on
+ * the way, starting with `root`. The last entry is the focused directory, or its deepest
+ * existing ancestor when the path is no longer in the tree.
+ */
+export const resolveFocusTrail = (root: TreeNode, focusPath: string | null): TreeNode[] => {
+  const trail = [root];
+  if (!focusPath) {
+    return trail;
+  }
+  let current = root;
+  while (current.relativePath !== focusPath) {
+    const next = current.children?.find(
+      (child) => child.type === 'directory' && isWithin(focusPath, child.relativePath)
+    );
+    if (!next) {
+      break;
+    }
+    trail.push(next);
+    current = next;
+  }
+  return trail;
+};
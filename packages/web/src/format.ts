@@ -0,0 +1,18 @@
+/** Local calendar date of a timestamp in milliseconds, as `YYYY-MM-DD` */
+export const formatTimestamp = (timestamp: number | null): string => {
+  if (!timestamp) {
+    return 'Never';
+  }
+  const date = new Date(timestamp);
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+export const formatCount = (value: number | null | undefined, label: string): string => {
+  if (value == null) {
+    return '—';
+  }
+  return `${value.toLocaleString()} ${label}`;
+};
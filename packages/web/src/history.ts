@@ -0,0 +1,57 @@
+const COMMIT_HASH = /^[0-9a-f]{40}$/i;
+
+/** Full commit hashes name one tree forever, so their responses can be kept */
+export const isCommitHash = (ref: string | null | undefined): ref is string => COMMIT_HASH.test(ref ?? '');
+
+export interface RequestCache<T> {
+  /** Returns the cached or in-flight response for `key`, starting `request` when there is none */
+  load: (key: string, request: () => Promise<T>) => Promise<T>;
+}
+
+/**
+ * Keeps the `limit` most recently used responses. Failed requests are dropped so they can be
+ * retried.
+ */
+export const createRequestCache = <T,>(limit: number): RequestCache<T> => {
+  const entries = new Map<string, Promise<T>>();
+  return {
+    load: (key, request) => {
+      let promise = entries.get(key);
+      if (promise) {
+        entries.delete(key);
+      } else {
+        promise = request();
+        promise.catch(() => {
+          if (entries.get(key) === promise) {
+            entries.delete(key);
+          }
+        });
+      }
+      entries.set(key, promise);
+      for (const oldest of entries.keys()) {
+        if (entries.size <= limit) {
+          break;
+        }
+        entries.delete(oldest);
+      }
+      return promise;
+    }
+  };
+};
+
+/**
+ * Indices of the commits around `index` worth loading ahead, nearest first. Playback only looks
+ * forward; scrubbing may go either way.
+ */
+export const neighborIndices = (index: number, length: number, radius: number, forwardOnly = false): number[] => {
+  const indices: number[] = [];
+  for (let distance = 1; distance <= radius; distance += 1) {
+    if (index + distance < length) {
+      indices.push(index + distance);
+    }
+    if (!forwardOnly && index - distance >= 0) {
+      indices.push(index - distance);
+    }
+  }
+  return indices;
+};
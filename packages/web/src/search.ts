@@ -0,0 +1,79 @@
+import type { TreeNode } from '@octotree/core';
+// Imported from source: the package entry point pulls in Node.js modules the browser cannot load
+import { globToRegExp } from '@octotree/core/src/glob';
+
+export type SearchKind = 'substring' | 'glob' | 'regex';
+
+export interface SearchQuery {
+  kind: SearchKind;
+  matches: (node: TreeNode) => boolean;
+}
+
+export interface SearchResults {
+  /** Matching nodes below the root, parents before their children */
+  matches: TreeNode[];
+  files: number;
+  directories: number;
+}
+
+const REGEX_LITERAL = /^\/(.+)\/([a-z]*)$/;
+
+/**
+ * Parses a search box or `?highlight=` value. `/pattern/flags` is a regular expression tested
+ * against paths, a value with `*` or `?` is a glob (matched against names, or against paths when
+ * it contains a slash), and anything else matches paths by case-insensitive substring.
+ * Returns no query for blank values and an error for invalid regular expressions.
+ */
+export const parseSearchQuery = (value: string | null | undefined): { query: SearchQuery | null; error: string | null } => {
+  const trimmed = value?.trim() ?? '';
+  if (!trimmed) {
+    return { query: null, error: null };
+  }
+
+  const literal = REGEX_LITERAL.exec(trimmed);
+  if (literal) {
+    try {
+      // Global and sticky flags would make `test` stateful across nodes
+      const expression = new RegExp(literal[1], literal[2].replace(/[gy]/g, ''));
+      return { query: { kind: 'regex', matches: (node) => expression.test(node.relativePath) }, error: null };
+    } catch (error) {
+      return { query: null, error: error instanceof Error ? error.message : 'Invalid regular expression' };
+    }
+  }
+
+  if (/[*?]/.test(trimmed)) {
+    const anchored = trimmed.includes('/');
+    const expression = globToRegExp(trimmed.replace(/^\/+/, '').replace(/\/+$/, ''));
+    return {
+      query: {
+        kind: 'glob',
+        matches: (node) => expression.test(anchored ? node.relativePath : node.name)
+      },
+      error: null
+    };
+  }
+
+  const needle = trimmed.toLowerCase();
+  return {
+    query: { kind: 'substring', matches: (node) => node.relativePath.toLowerCase().includes(needle) },
+    error: null
+  };
+};
+
+/** Lists the nodes below `root` that `query` matches */
+export const searchTree = (root: TreeNode, query: SearchQuery): SearchResults => {
+  const results: SearchResults = { matches: [], files: 0, directories: 0 };
+  const visit = (node: TreeNode) => {
+    if (node !== root && query.matches(node)) {
+      results.matches.push(node);
+      if (node.type === 'directory') {
+        results.directories += 1;
+      } else {
+        results.files += 1;
+      }
+    }
+    node.children?.forEach(visit);
+  };
+  visit(root);
+  return results;
+};
@@ -15,3 +15,11 @@ export const RADIAL_TREE_LEVELS_CLASS = 'radial-tree__levels';
 export const RADIAL_TREE_LINKS_CLASS = 'radial-tree__links';
 export const RADIAL_TREE_TOOLTIP_CLASS = 'radial-tree__tooltip';
 
+
+// Selectors for use in Puppeteer/DOM queries
+export const RADIAL_TREE_SVG_SELECTOR = '.radial-tree svg';
+export const RADIAL_TREE_LINK_SELECTOR = '.radial-tree__link';
+// The canvas renderer draws links without elements; either surface is marked once links are drawn
+export const RADIAL_TREE_RENDERED_ATTRIBUTE = 'data-rendered';
+export const RADIAL_TREE_CANVAS_SELECTOR = '.radial-tree canvas';
+export const RADIAL_TREE_RENDERED_SELECTOR = `.radial-tree [${RADIAL_TREE_RENDERED_ATTRIBUTE}="true"]`;
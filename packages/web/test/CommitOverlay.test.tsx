@@ -0,0 +1,31 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import '@testing-library/jest-dom/vitest';
+import type { CommitSummary } from '@octotree/core';
+import { CommitOverlay } from '../src/components/CommitOverlay';
+
+const commit: CommitSummary = {
+  hash: 'a'.repeat(40),
+  shortHash: 'aaaaaaa',
+  subject: 'Add the radial layout',
+  author: 'Mona Lisa',
+  timestamp: new Date(2019, 2, 1, 12).getTime()
+};
+
+describe('CommitOverlay', () => {
+  it('captions the commit on screen', () => {
+    render(<CommitOverlay commit={commit} files={1234} />);
+
+    const overlay = screen.getByRole('figure', { name: 'Commit details' });
+    expect(overlay).toHaveTextContent('aaaaaaa · 2019-03-01');
+    expect(overlay).toHaveTextContent('Add the radial layout');
+    expect(overlay).toHaveTextContent(`Mona Lisa · ${(1234).toLocaleString()} files`);
+  });
+
+  it('shows a placeholder while the file count is unknown', () => {
+    render(<CommitOverlay commit={commit} files={null} />);
+
+    expect(screen.getByText('Mona Lisa · —')).toBeInTheDocument();
+  });
+});
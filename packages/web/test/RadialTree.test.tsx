@@ -1,8 +1,11 @@
 import React from 'react';
 import { fireEvent, render, screen } from '@testing-library/react';
-import { describe, expect, it } from 'vitest';
+import { afterEach, describe, expect, it, vi } from 'vitest';
 import '@testing-library/jest-dom/vitest';
-import { RadialTree, formatBytes } from '../src/components/RadialTree';
+import { RadialTree, formatBytes, zoomViewAt } from '../src/components/RadialTree';
+import { CANVAS_LINK_THRESHOLD, resolveRenderer } from '../src/components/canvasRenderer';
+import { computeRadialLayout, createLinkHitIndex } from '../src/components/layout';
+import { RADIAL_TREE_CANVAS_SELECTOR, RADIAL_TREE_RENDERED_SELECTOR, RADIAL_TREE_SVG_SELECTOR } from '../src/selectors';
 import type { TreeNode } from '@octotree/core';
 
 const buildTree = (): TreeNode => ({
@@ -91,6 +94,334 @@ describe('RadialTree', () => {
   });
 });
 
+const buildDiffTree = (): TreeNode => {
+  const tree = buildTree();
+  tree.change = { status: 'modified', baseSize: 20, sizeDelta: 6 };
+  tree.children[0].change = { status: 'added', baseSize: 0, sizeDelta: 12 };
+  tree.children[0].children[0].change = { status: 'added', baseSize: 0, sizeDelta: 12 };
+  tree.children[1].change = { status: 'removed', baseSize: 20, sizeDelta: -20 };
+  return tree;
+};
+
+describe('RadialTree diff mode', () => {
+  it('styles links by change status and shows a legend', () => {
+    const { container } = render(<RadialTree data={buildDiffTree()} diff />);
+
+    const addedLink = container.querySelector('[data-node-id="directory:src"]');
+    expect(addedLink).toHaveAttribute('data-change', 'added');
+    expect(addedLink).toHaveClass('radial-tree__link--added');
+
+    const removedLink = container.querySelector('[data-node-id="file:README.md"]');
+    expect(removedLink).toHaveAttribute('data-change', 'removed');
+    expect(removedLink).toHaveAttribute('stroke-dasharray', '6 6');
+
+    const legend = screen.getByRole('list', { name: /diff legend/i });
+    expect(legend).toHaveTextContent('Added');
+    expect(legend).toHaveTextContent('Removed');
+  });
+
+  it('shows change details in the tooltip', () => {
+    const { container } = render(<RadialTree data={buildDiffTree()} diff />);
+
+    const removedLink = container.querySelector('[data-node-id="file:README.md"]');
+    fireEvent.mouseEnter(removedLink as Element, { clientX: 5, clientY: 5 });
+
+    const tooltip = screen.getByRole('status');
+    expect(tooltip).toHaveTextContent('removed');
+    expect(tooltip).toHaveTextContent('−20 B');
+  });
+
+  it('ignores change data when diff mode is off', () => {
+    const { container } = render(<RadialTree data={buildDiffTree()} />);
+
+    expect(container.querySelector('[data-change]')).toBeNull();
+    expect(screen.queryByRole('list', { name: /diff legend/i })).toBeNull();
+  });
+});
+
+const buildStatusTree = (): TreeNode => {
+  const tree = buildTree();
+  tree.status = 'modified';
+  tree.children[0].status = 'untracked';
+  tree.children[0].children[0].status = 'untracked';
+  tree.children[1].status = 'deleted';
+  return tree;
+};
+
+describe('RadialTree status mode', () => {
+  it('styles links by working tree status and shows a legend', () => {
+    const { container } = render(<RadialTree data={buildStatusTree()} status />);
+
+    const untrackedLink = container.querySelector('[data-node-id="directory:src"]');
+    expect(untrackedLink).toHaveAttribute('data-status', 'untracked');
+    expect(untrackedLink).toHaveClass('radial-tree__link--untracked');
+
+    const deletedLink = container.querySelector('[data-node-id="file:README.md"]');
+    expect(deletedLink).toHaveAttribute('stroke-dasharray', '6 6');
+
+    const legend = screen.getByRole('list', { name: /status legend/i });
+    expect(legend).toHaveTextContent('Untracked');
+    expect(legend).toHaveTextContent('Staged');
+  });
+
+  it('shows the status in the tooltip', () => {
+    const { container } = render(<RadialTree data={buildStatusTree()} status />);
+
+    const deletedLink = container.querySelector('[data-node-id="file:README.md"]');
+    fireEvent.mouseEnter(deletedLink as Element, { clientX: 5, clientY: 5 });
+
+    expect(screen.getByRole('status')).toHaveTextContent('deleted');
+  });
+
+  it('ignores status data when status mode is off', () => {
+    const { container } = render(<RadialTree data={buildStatusTree()} />);
+
+    expect(container.querySelector('[data-status]')).toBeNull();
+    expect(screen.queryByRole('list', { name: /status legend/i })).toBeNull();
+  });
+});
+
+const buildLanguageTree = (): TreeNode => {
+  const tree = buildTree();
+  tree.children[0].children[0].language = 'TypeScript';
+  tree.children[1].language = 'Markdown';
+  return tree;
+};
+
+describe('RadialTree color modes', () => {
+  it('keeps the size gradient without a legend by default', () => {
+    const { container } = render(<RadialTree data={buildLanguageTree()} />);
+
+    expect(container.firstChild).toHaveAttribute('data-color-mode', 'size');
+    expect(screen.queryByRole('list', { name: /color legend/i })).toBeNull();
+  });
+
+  it('colors links by language and lists the languages in a legend', () => {
+    const { container } = render(<RadialTree data={buildLanguageTree()} colorBy="language" />);
+
+    expect(container.firstChild).toHaveAttribute('data-color-mode', 'language');
+    expect(container.querySelector('[data-node-id="directory:src"]')).toHaveAttribute('stroke', '#3178c6');
+    expect(container.querySelector('[data-node-id="file:README.md"]')).toHaveAttribute('stroke', '#083fa1');
+
+    const legend = screen.getByRole('list', { name: /color legend/i });
+    expect(legend).toHaveTextContent('TypeScript');
+    expect(legend).toHaveTextContent('Markdown');
+
+    fireEvent.mouseEnter(container.querySelector('[data-node-id="file:README.md"]') as Element, {
+      clientX: 5,
+      clientY: 5
+    });
+    expect(screen.getByRole('status')).toHaveTextContent('Markdown');
+  });
+
+  it('leaves the color legend to diff mode', () => {
+    render(<RadialTree data={buildDiffTree()} diff colorBy="language" />);
+
+    expect(screen.getByRole('list', { name: /diff legend/i })).toBeInTheDocument();
+    expect(screen.queryByRole('list', { name: /color legend/i })).toBeNull();
+  });
+});
+
+describe('RadialTree highlight', () => {
+  it('dims every branch that does not lead to a highlighted node', () => {
+    const { container } = render(<RadialTree data={buildTree()} highlighted={new Set(['file:src/index.ts'])} />);
+
+    const match = container.querySelector('[data-node-id="file:src/index.ts"]');
+    expect(match).toHaveAttribute('data-highlighted', 'true');
+    expect(match).not.toHaveClass('radial-tree__link--dimmed');
+    expect(container.querySelector('[data-node-id="directory:src"]')).not.toHaveClass('radial-tree__link--dimmed');
+    expect(container.querySelector('[data-node-id="file:README.md"]')).toHaveClass('radial-tree__link--dimmed');
+  });
+
+  it('keeps everything below a highlighted directory lit', () => {
+    const { container } = render(<RadialTree data={buildTree()} highlighted={new Set(['directory:src'])} />);
+
+    expect(container.querySelector('[data-node-id="file:src/index.ts"]')).not.toHaveClass('radial-tree__link--dimmed');
+    expect(container.querySelector('[data-node-id="file:src/index.ts"]')).not.toHaveAttribute('data-highlighted');
+    expect(container.querySelector('[data-node-id="file:README.md"]')).toHaveClass('radial-tree__link--dimmed');
+  });
+
+  it('dims nothing without a highlight', () => {
+    const { container } = render(<RadialTree data={buildTree()} />);
+
+    expect(container.querySelector('.radial-tree__link--dimmed')).toBeNull();
+  });
+});
+
+describe('RadialTree focus', () => {
+  it('re-roots the layout at the focused directory with a breadcrumb back up', () => {
+    const onFocusChange = vi.fn();
+    const { container } = render(<RadialTree data={buildTree()} focus="src" onFocusChange={onFocusChange} />);
+
+    expect(container.firstChild).toHaveAttribute('data-focus', 'src');
+    const links = container.querySelectorAll('.radial-tree__link');
+    expect(links).toHaveLength(1);
+    expect(links[0]).toHaveAttribute('data-node-id', 'file:src/index.ts');
+
+    const breadcrumb = screen.getByRole('navigation', { name: /focused directory/i });
+    expect(breadcrumb).toHaveTextContent('repo/src');
+    fireEvent.click(screen.getByRole('button', { name: 'repo' }));
+    expect(onFocusChange).toHaveBeenCalledWith(null);
+  });
+
+  it('falls back to the deepest existing directory when the focus is missing', () => {
+    const { container } = render(<RadialTree data={buildTree()} focus="src/missing" />);
+
+    expect(container.firstChild).toHaveAttribute('data-focus', 'src');
+    expect(render(<RadialTree data={buildTree()} focus="docs" />).container.firstChild).not.toHaveAttribute(
+      'data-focus'
+    );
+  });
+
+  it('focuses directories when their branch is clicked', () => {
+    const onFocusChange = vi.fn();
+    const { container } = render(<RadialTree data={buildTree()} onFocusChange={onFocusChange} />);
+
+    fireEvent.click(container.querySelector('[data-node-id="file:README.md"]') as Element);
+    expect(onFocusChange).not.toHaveBeenCalled();
+
+    const directoryLink = container.querySelector('[data-node-id="directory:src"]');
+    expect(directoryLink).toHaveAttribute('data-focusable');
+    fireEvent.click(directoryLink as Element);
+    expect(onFocusChange).toHaveBeenCalledWith('src');
+  });
+
+  it('does not focus a branch at the end of a drag', () => {
+    // jsdom has no PointerEvent; mouse events carry the same coordinates
+    vi.stubGlobal('PointerEvent', window.PointerEvent ?? MouseEvent);
+    const onFocusChange = vi.fn();
+    const { container } = render(<RadialTree data={buildTree()} onFocusChange={onFocusChange} />);
+    const svg = screen.getByRole('img', { name: /radial file tree/i });
+
+    fireEvent.pointerDown(svg, { button: 0, clientX: 10, clientY: 10 });
+    fireEvent.pointerMove(svg, { clientX: 60, clientY: 40 });
+    fireEvent.pointerUp(svg);
+    fireEvent.click(container.querySelector('[data-node-id="directory:src"]') as Element);
+
+    expect(onFocusChange).not.toHaveBeenCalled();
+    expect(screen.getByRole('button', { name: /reset view/i })).toBeInTheDocument();
+    vi.unstubAllGlobals();
+  });
+});
+
+describe('RadialTree zoom', () => {
+  it('zooms with the mouse wheel and resets the view', () => {
+    render(<RadialTree data={buildTree()} />);
+    const svg = screen.getByRole('img', { name: /radial file tree/i });
+    expect(svg.firstElementChild).toHaveAttribute('transform', expect.stringContaining('scale(1)'));
+
+    fireEvent.wheel(svg, { deltaY: -500 });
+    expect(svg.firstElementChild?.getAttribute('transform')).not.toContain('scale(1)');
+
+    fireEvent.click(screen.getByRole('button', { name: /reset view/i }));
+    expect(svg.firstElementChild).toHaveAttribute('transform', expect.stringContaining('scale(1)'));
+    expect(screen.queryByRole('button', { name: /reset view/i })).toBeNull();
+  });
+
+  it('keeps the point under the cursor in place and never zooms out past the whole tree', () => {
+    const zoomed = zoomViewAt({ scale: 1, x: 0, y: 0 }, { x: 100, y: -50 }, 2);
+    expect(zoomed).toEqual({ scale: 2, x: -100, y: 50 });
+    expect(zoomViewAt(zoomed, { x: 0, y: 0 }, 0.1)).toEqual({ scale: 1, x: 0, y: 0 });
+  });
+});
+
+const createFakeContext = () => {
+  const canvas = { width: 0, height: 0 };
+  return {
+    canvas,
+    setTransform: vi.fn(),
+    clearRect: vi.fn(),
+    setLineDash: vi.fn(),
+    beginPath: vi.fn(),
+    arc: vi.fn(),
+    moveTo: vi.fn(),
+    bezierCurveTo: vi.fn(),
+    stroke: vi.fn()
+  };
+};
+
+// A point just inside where a link ends, on a canvas that is unscaled and centered at the origin
+const nearLinkEnd = (relativePath: string): { clientX: number; clientY: number } => {
+  const { root } = computeRadialLayout(buildTree(), null);
+  const node = root.descendants().find((candidate) => candidate.data.relativePath === relativePath);
+  if (!node) {
+    throw new Error(`No node at ${relativePath}`);
+  }
+  const radius = node.y - 10;
+  return { clientX: radius * Math.sin(node.x), clientY: -radius * Math.cos(node.x) };
+};
+
+describe('RadialTree canvas renderer', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('draws every link on a canvas and marks it as rendered', () => {
+    const context = createFakeContext();
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(
+      context as unknown as CanvasRenderingContext2D
+    );
+
+    const { container } = render(<RadialTree data={buildTree()} renderer="canvas" />);
+
+    expect(container.firstChild).toHaveAttribute('data-renderer', 'canvas');
+    expect(container.querySelector('svg')).toBeNull();
+    expect(container.querySelectorAll('.radial-tree__link')).toHaveLength(0);
+    const canvas = screen.getByRole('img', { name: /radial file tree/i });
+    expect(container.querySelector(RADIAL_TREE_CANVAS_SELECTOR)).toBe(canvas);
+    expect(container.querySelector(RADIAL_TREE_RENDERED_SELECTOR)).toBe(canvas);
+    // Three level rings, the center included, plus three links
+    expect(context.stroke).toHaveBeenCalledTimes(6);
+  });
+
+  it('hit-tests links for tooltips and focus', () => {
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(
+      createFakeContext() as unknown as CanvasRenderingContext2D
+    );
+    vi.stubGlobal('PointerEvent', window.PointerEvent ?? MouseEvent);
+    const onFocusChange = vi.fn();
+    render(<RadialTree data={buildTree()} renderer="canvas" onFocusChange={onFocusChange} />);
+    const canvas = screen.getByRole('img', { name: /radial file tree/i });
+
+    fireEvent.pointerMove(canvas, nearLinkEnd('README.md'));
+    expect(screen.getByRole('status')).toHaveTextContent('README.md');
+
+    fireEvent.pointerMove(canvas, { clientX: 5000, clientY: 5000 });
+    expect(screen.queryByRole('status')).toBeNull();
+
+    fireEvent.click(canvas, nearLinkEnd('src'));
+    expect(onFocusChange).toHaveBeenCalledWith('src');
+  });
+
+  it('switches to canvas automatically for very large trees', () => {
+    expect(resolveRenderer('auto', 10)).toBe('svg');
+    expect(resolveRenderer('auto', CANVAS_LINK_THRESHOLD + 1)).toBe('canvas');
+    expect(resolveRenderer('svg', CANVAS_LINK_THRESHOLD + 1)).toBe('svg');
+
+    const { container } = render(<RadialTree data={buildTree()} />);
+    expect(container.firstChild).toHaveAttribute('data-renderer', 'svg');
+    expect(container.querySelector(RADIAL_TREE_RENDERED_SELECTOR)).toBe(container.querySelector(RADIAL_TREE_SVG_SELECTOR));
+  });
+});
+
+describe('createLinkHitIndex', () => {
+  const links = [
+    { source: { x: 0, y: 0 }, target: { x: 0, y: 100 }, strokeWidth: 4 },
+    { source: { x: 0, y: 0 }, target: { x: Math.PI / 2, y: 100 }, strokeWidth: 4 },
+    { source: { x: 0, y: 50 }, target: { x: 0, y: 100 }, strokeWidth: 2 }
+  ];
+
+  it('finds the link under a point, preferring links drawn later', () => {
+    const index = createLinkHitIndex(links);
+
+    expect(index.find([0, -20])).toBe(0);
+    expect(index.find([100, 0])).toBe(1);
+    expect(index.find([0, -80])).toBe(2);
+    expect(index.find([-60, 60])).toBeNull();
+  });
+});
+
 describe('formatBytes', () => {
   it('formats byte counts with sensible units', () => {
     expect(formatBytes(0)).toBe('0 B');
@@ -99,3 +430,35 @@ describe('formatBytes', () => {
     expect(formatBytes(5 * 1024 * 1024)).toBe('5.0 MB');
   });
 });
+
+describe('RadialTree blend', () => {
+  it('draws removed branches fading out and new ones fading in', () => {
+    const after = buildTree();
+    const before: TreeNode = {
+      ...after,
+      children: [
+        after.children[1],
+        {
+          id: 'file:LICENSE',
+          name: 'LICENSE',
+          relativePath: 'LICENSE',
+          type: 'file',
+          size: 4,
+          mtimeMs: 0,
+          depth: 1,
+          children: []
+        }
+      ]
+    };
+
+    const { container } = render(<RadialTree data={after} blendFrom={before} blend={0.4} />);
+
+    const fading = container.querySelectorAll('.radial-tree__fading-links path');
+    expect(fading).toHaveLength(1);
+    expect(fading[0]).toHaveAttribute('opacity', '0.6');
+    expect(container.querySelector('[data-node-id="directory:src"]')).toHaveAttribute('opacity', '0.4');
+    expect(container.querySelector('[data-node-id="file:README.md"]')).not.toHaveAttribute('opacity');
+    expect(container.querySelector('svg')).toHaveAttribute('data-rendered', 'true');
+  });
+});
+
@@ -0,0 +1,49 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import '@testing-library/jest-dom/vitest';
+import { RefPicker } from '../src/components/RefPicker';
+import type { RepositoryRefs } from '@octotree/core';
+
+const refs: RepositoryRefs = {
+  head: 'main',
+  branches: [
+    { name: 'main', hash: 'a'.repeat(40), timestamp: 1700000000000 },
+    { name: 'feature', hash: 'b'.repeat(40), timestamp: 1690000000000 }
+  ],
+  tags: [{ name: 'v1.0.0', hash: 'b'.repeat(40), timestamp: 1690000000000 }],
+  commits: [
+    { hash: 'a'.repeat(40), shortHash: 'aaaaaaa', subject: 'Add search', author: 'Octo', timestamp: 1700000000000 }
+  ]
+};
+
+describe('RefPicker', () => {
+  it('groups branches, tags and recent commits after the default', () => {
+    render(<RefPicker refs={refs} value={null} onChange={vi.fn()} />);
+
+    const select = screen.getByRole('combobox', { name: /ref/i });
+    expect(select).toHaveValue('');
+    expect(screen.getByRole('option', { name: 'Default (main)' })).toBeInTheDocument();
+    expect(screen.getByRole('group', { name: 'Branches' })).toHaveTextContent('mainfeature');
+    expect(screen.getByRole('group', { name: 'Tags' })).toHaveTextContent('v1.0.0');
+    expect(screen.getByRole('option', { name: 'aaaaaaa Add search (Octo)' })).toHaveValue('a'.repeat(40));
+  });
+
+  it('reports the picked ref, or null for the default', () => {
+    const onChange = vi.fn();
+    render(<RefPicker refs={refs} value="main" onChange={onChange} />);
+
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'v1.0.0' } });
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: '' } });
+
+    expect(onChange.mock.calls).toEqual([['v1.0.0'], [null]]);
+  });
+
+  it('keeps an unlisted ref selectable and shows errors inline', () => {
+    render(<RefPicker refs={refs} value="nope" onChange={vi.fn()} error="Git command failed: unknown revision nope" />);
+
+    expect(screen.getByRole('combobox')).toHaveValue('nope');
+    expect(screen.getByRole('combobox')).toHaveAttribute('aria-invalid', 'true');
+    expect(screen.getByRole('alert')).toHaveTextContent('unknown revision nope');
+  });
+});
@@ -0,0 +1,40 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import '@testing-library/jest-dom/vitest';
+import { Timeline } from '../src/components/Timeline';
+
+const commits = ['a', 'b', 'c'].map((letter) => letter.repeat(40));
+
+describe('Timeline', () => {
+  it('shows the position of the commit on screen', () => {
+    render(<Timeline commits={commits} index={1} onIndexChange={vi.fn()} playing={false} onPlayingChange={vi.fn()} />);
+
+    const slider = screen.getByRole('slider', { name: 'Commit' });
+    expect(slider).toHaveValue('1');
+    expect(slider).toHaveAttribute('max', '2');
+    expect(screen.getByText('bbbbbbb · 2 / 3')).toBeInTheDocument();
+  });
+
+  it('stops playback when scrubbed', () => {
+    const onIndexChange = vi.fn();
+    const onPlayingChange = vi.fn();
+    render(<Timeline commits={commits} index={0} onIndexChange={onIndexChange} playing onPlayingChange={onPlayingChange} />);
+
+    fireEvent.change(screen.getByRole('slider'), { target: { value: '2' } });
+
+    expect(onPlayingChange).toHaveBeenCalledWith(false);
+    expect(onIndexChange).toHaveBeenCalledWith(2);
+  });
+
+  it('plays from the first commit when at the latest', () => {
+    const onIndexChange = vi.fn();
+    const onPlayingChange = vi.fn();
+    render(<Timeline commits={commits} index={2} onIndexChange={onIndexChange} playing={false} onPlayingChange={onPlayingChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Play history' }));
+
+    expect(onIndexChange).toHaveBeenCalledWith(0);
+    expect(onPlayingChange).toHaveBeenCalledWith(true);
+  });
+});
@@ -0,0 +1,27 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import '@testing-library/jest-dom/vitest';
+import { TitleCard } from '../src/components/TitleCard';
+
+describe('TitleCard', () => {
+  it('shows the title with the repository and commit date', () => {
+    const timestamp = new Date(2021, 11, 24, 12).getTime();
+    render(
+      <TitleCard
+        title="Ten years of octo-tree"
+        repository="octo-tree"
+        commit={{ hash: 'b'.repeat(40), shortHash: 'bbbbbbb', subject: 'Release', author: 'Mona', timestamp }}
+      />
+    );
+
+    expect(screen.getByRole('heading', { name: 'Ten years of octo-tree' })).toBeInTheDocument();
+    expect(screen.getByText('octo-tree · 2021-12-24')).toBeInTheDocument();
+  });
+
+  it('leaves out the subtitle when there is nothing to show', () => {
+    const { container } = render(<TitleCard title="Intro" repository={null} commit={null} />);
+
+    expect(container.querySelector('.title-card__subtitle')).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { TreeNode } from '@octotree/core';
+import { blendLayouts } from '../src/components/blend';
+import { computeTreeLayout, flattenTree } from '../src/components/treeLayout';
+import type { LaidOutTree } from '../src/components/useTreeLayout';
+
+const file = (relativePath: string, size: number, depth = 1): TreeNode => ({
+  id: `file:${relativePath}`,
+  name: relativePath.split('/').pop() ?? relativePath,
+  relativePath,
+  type: 'file',
+  size,
+  mtimeMs: 0,
+  depth,
+  children: []
+});
+
+const root = (children: TreeNode[]): TreeNode => ({
+  id: 'directory:.',
+  name: 'repo',
+  relativePath: '.',
+  type: 'directory',
+  size: children.reduce((sum, child) => sum + child.size, 0),
+  mtimeMs: 0,
+  depth: 0,
+  children
+});
+
+const layOut = (tree: TreeNode): LaidOutTree => ({
+  layout: computeTreeLayout(tree, { level: null, colorBy: 'size', diff: false, status: false }),
+  nodes: flattenTree(tree)
+});
+
+const before = layOut(root([file('kept.ts', 10), file('removed.ts', 10)]));
+const after = layOut(root([file('kept.ts', 10), file('added.ts', 10)]));
+
+const linkIndexOf = ({ layout, nodes }: LaidOutTree, id: string): number =>
+  Array.from(layout.linkTargets).findIndex((nodeIndex) => nodes[nodeIndex].id === id);
+
+describe('blendLayouts', () => {
+  it('fades new branches in and removed branches out', () => {
+    const blend = blendLayouts(before, after, 0.25);
+
+    expect(blend.opacities[linkIndexOf(after, 'file:added.ts')]).toBe(0.25);
+    expect(blend.opacities[linkIndexOf(after, 'file:kept.ts')]).toBe(1);
+    expect(blend.fadingLinks).toEqual([
+      expect.objectContaining({ id: 'file:removed.ts', opacity: 0.75 })
+    ]);
+  });
+
+  it('grows new branches from nothing and shrinks removed ones away', () => {
+    const addedIndex = linkIndexOf(after, 'file:added.ts');
+    const addedWidth = after.layout.strokeWidths[addedIndex];
+
+    expect(blendLayouts(before, after, 0).strokeWidths[addedIndex]).toBe(0);
+    expect(blendLayouts(before, after, 0.5).strokeWidths[addedIndex]).toBeCloseTo(addedWidth / 2);
+    expect(blendLayouts(before, after, 1).fadingLinks[0].strokeWidth).toBe(0);
+  });
+
+  it('starts from the source positions and clamps the amount', () => {
+    const blend = blendLayouts(before, after, 2);
+
+    expect(blend.amount).toBe(1);
+    expect(blend.from.get('file:removed.ts')).toEqual({
+      x: before.layout.angles[before.nodes.findIndex(({ id }) => id === 'file:removed.ts')],
+      y: before.layout.radii[before.nodes.findIndex(({ id }) => id === 'file:removed.ts')]
+    });
+  });
+});
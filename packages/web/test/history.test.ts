@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createRequestCache, isCommitHash, neighborIndices } from '../src/history';
+
+describe('isCommitHash', () => {
+  it('accepts only full commit hashes', () => {
+    expect(isCommitHash('a'.repeat(40))).toBe(true);
+    expect(isCommitHash('abc1234')).toBe(false);
+    expect(isCommitHash('main')).toBe(false);
+    expect(isCommitHash(null)).toBe(false);
+  });
+});
+
+describe('createRequestCache', () => {
+  it('shares responses and evicts the least recently used', async () => {
+    const cache = createRequestCache<string>(2);
+    const request = vi.fn((key: string) => Promise.resolve(key.toUpperCase()));
+
+    await cache.load('a', () => request('a'));
+    await cache.load('b', () => request('b'));
+    expect(await cache.load('a', () => request('a'))).toBe('A');
+    await cache.load('c', () => request('c'));
+    await cache.load('b', () => request('b'));
+
+    expect(request.mock.calls.map(([key]) => key)).toEqual(['a', 'b', 'c', 'b']);
+  });
+
+  it('retries failed requests', async () => {
+    const cache = createRequestCache<string>(2);
+    const request = vi.fn().mockRejectedValueOnce(new Error('offline')).mockResolvedValue('tree');
+
+    await expect(cache.load('a', request)).rejects.toThrow('offline');
+    expect(await cache.load('a', request)).toBe('tree');
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('neighborIndices', () => {
+  it('lists the nearest commits first within the history', () => {
+    expect(neighborIndices(1, 5, 2)).toEqual([2, 0, 3]);
+    expect(neighborIndices(3, 5, 2, true)).toEqual([4]);
+  });
+});
@@ -0,0 +1,174 @@
+import React from 'react';
+import { act, render, screen } from '@testing-library/react';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import '@testing-library/jest-dom/vitest';
+import { RadialTree } from '../src/components/RadialTree';
+import { computeTreeLayout, flattenTree } from '../src/components/treeLayout';
+import type { LayoutRequest, LayoutResponse } from '../src/components/useTreeLayout';
+import type { TreeNode } from '@octotree/core';
+
+// Trees that differ in size lay out differently, so tests do not share cached layouts
+const buildTree = (readmeSize: number): TreeNode => ({
+  id: 'directory:.',
+  name: 'repo',
+  relativePath: '.',
+  type: 'directory',
+  size: 12 + readmeSize,
+  mtimeMs: 0,
+  depth: 0,
+  children: [
+    {
+      id: 'directory:src',
+      name: 'src',
+      relativePath: 'src',
+      type: 'directory',
+      size: 12,
+      mtimeMs: 0,
+      depth: 1,
+      children: [
+        {
+          id: 'file:src/index.ts',
+          name: 'index.ts',
+          relativePath: 'src/index.ts',
+          type: 'file',
+          size: 12,
+          mtimeMs: 0,
+          depth: 2,
+          children: []
+        }
+      ]
+    },
+    {
+      id: 'file:README.md',
+      name: 'README.md',
+      relativePath: 'README.md',
+      type: 'file',
+      size: readmeSize,
+      mtimeMs: 0,
+      depth: 1,
+      children: []
+    }
+  ]
+});
+
+// Stands in for the layout worker, answering only when a test says so
+class FakeWorker {
+  static instance: FakeWorker | null = null;
+  onmessage: ((event: MessageEvent<LayoutResponse>) => void) | null = null;
+  onerror: (() => void) | null = null;
+  requests: LayoutRequest[] = [];
+
+  constructor() {
+    FakeWorker.instance = this;
+  }
+
+  postMessage(request: LayoutRequest) {
+    this.requests.push(request);
+  }
+
+  terminate() {}
+
+  progress(progress: number) {
+    const { id } = this.requests[this.requests.length - 1];
+    this.onmessage?.({ data: { id, type: 'progress', progress } } as MessageEvent<LayoutResponse>);
+  }
+
+  finish() {
+    const { id, root, options } = this.requests[this.requests.length - 1];
+    const layout = computeTreeLayout(root, options);
+    this.onmessage?.({ data: { id, type: 'layout', layout } } as MessageEvent<LayoutResponse>);
+  }
+}
+
+const worker = (): FakeWorker => {
+  if (!FakeWorker.instance) {
+    throw new Error('No layout worker was started');
+  }
+  return FakeWorker.instance;
+};
+
+describe('RadialTree layout worker', () => {
+  beforeAll(() => {
+    vi.stubGlobal('Worker', FakeWorker);
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('shows progress until the worker has laid the tree out', () => {
+    const { container } = render(<RadialTree data={buildTree(14)} />);
+
+    expect(container.querySelector('svg')).toBeNull();
+    expect(screen.getByRole('progressbar', { name: /laying out tree/i })).toHaveAttribute('aria-valuenow', '0');
+
+    act(() => worker().progress(0.6));
+    expect(screen.getByRole('progressbar')).toHaveAttribute('aria-valuenow', '60');
+
+    act(() => worker().finish());
+    expect(screen.queryByRole('progressbar')).toBeNull();
+    expect(container.querySelectorAll('.radial-tree__link')).toHaveLength(3);
+    expect(container.querySelector('svg')).toHaveAttribute('data-rendered', 'true');
+  });
+
+  it('reuses the layout of an identical tree and keeps the old one up while laying out', () => {
+    const { container, rerender } = render(<RadialTree data={buildTree(15)} />);
+    act(() => worker().finish());
+    const requests = worker().requests.length;
+
+    // A refetched tree is a new object with the same contents
+    rerender(<RadialTree data={buildTree(15)} />);
+    expect(worker().requests).toHaveLength(requests);
+    expect(container.querySelectorAll('.radial-tree__link')).toHaveLength(3);
+
+    rerender(<RadialTree data={buildTree(400)} />);
+    expect(worker().requests).toHaveLength(requests + 1);
+    expect(screen.getByRole('progressbar')).toBeInTheDocument();
+    expect(container.querySelectorAll('.radial-tree__link')).toHaveLength(3);
+    expect(container.querySelector('svg')).not.toHaveAttribute('data-rendered');
+
+    act(() => worker().finish());
+    rerender(<RadialTree data={buildTree(15)} />);
+    expect(worker().requests).toHaveLength(requests + 1);
+    expect(screen.queryByRole('progressbar')).toBeNull();
+  });
+
+  it('lays out on the main thread when the worker fails to load', () => {
+    const { container } = render(<RadialTree data={buildTree(16)} />);
+    expect(container.querySelector('svg')).toBeNull();
+
+    act(() => worker().onerror?.());
+
+    expect(container.querySelectorAll('.radial-tree__link')).toHaveLength(3);
+  });
+});
+
+describe('layout worker', () => {
+  it('posts progress and transfers the packed layout', async () => {
+    const postMessage = vi.spyOn(self, 'postMessage').mockImplementation(() => undefined);
+    await import('../src/components/layout.worker');
+    const root = buildTree(17);
+
+    self.onmessage?.(
+      new MessageEvent('message', {
+        data: { id: 'tree', root, options: { level: null, colorBy: 'size', diff: false, status: false } }
+      })
+    );
+
+    const messages = postMessage.mock.calls.map(([message]) => message as LayoutResponse);
+    expect(messages.filter(({ type }) => type === 'progress').length).toBeGreaterThan(0);
+    const last = postMessage.mock.calls[postMessage.mock.calls.length - 1];
+    const response = last[0] as LayoutResponse;
+    if (response.type !== 'layout') {
+      throw new Error('Expected a layout');
+    }
+    expect(response.layout.linkTargets).toBeInstanceOf(Int32Array);
+    expect(Array.from(response.layout.linkTargets, (index) => flattenTree(root)[index].id)).toEqual([
+      'directory:src',
+      'file:src/index.ts',
+      'file:README.md'
+    ]);
+    expect(last[1]).toEqual({ transfer: expect.arrayContaining([response.layout.angles.buffer]) });
+    postMessage.mockRestore();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { parseSearchQuery, searchTree } from '../src/search';
+import type { TreeNode } from '@octotree/core';
+
+const node = (relativePath: string, children?: TreeNode[]): TreeNode => ({
+  id: `${children ? 'directory' : 'file'}:${relativePath}`,
+  name: relativePath.split('/').pop() ?? relativePath,
+  relativePath,
+  type: children ? 'directory' : 'file',
+  size: 1,
+  mtimeMs: 0,
+  depth: relativePath === '.' ? 0 : relativePath.split('/').length,
+  children: children ?? []
+});
+
+const tree = node('.', [
+  node('src', [node('src/App.tsx'), node('src/search.ts'), node('src/components', [node('src/components/Tree.tsx')])]),
+  node('test', [node('test/search.test.ts')]),
+  node('README.md')
+]);
+
+const matchPaths = (value: string): string[] => {
+  const { query } = parseSearchQuery(value);
+  return query ? searchTree(tree, query).matches.map((match) => match.relativePath) : [];
+};
+
+describe('parseSearchQuery', () => {
+  it('matches names and paths by case-insensitive substring', () => {
+    expect(parseSearchQuery('search').query?.kind).toBe('substring');
+    expect(matchPaths('SEARCH')).toEqual(['src/search.ts', 'test/search.test.ts']);
+    expect(matchPaths('src/comp')).toEqual(['src/components', 'src/components/Tree.tsx']);
+  });
+
+  it('matches globs against names, or against paths when they contain a slash', () => {
+    expect(parseSearchQuery('*.tsx').query?.kind).toBe('glob');
+    expect(matchPaths('*.tsx')).toEqual(['src/App.tsx', 'src/components/Tree.tsx']);
+    expect(matchPaths('src/*.ts?')).toEqual(['src/App.tsx']);
+    expect(matchPaths('src/**/*.tsx')).toEqual(['src/App.tsx', 'src/components/Tree.tsx']);
+  });
+
+  it('tests /regex/flags against paths and reports invalid expressions', () => {
+    expect(parseSearchQuery('/^src\\/.*\\.ts$/').query?.kind).toBe('regex');
+    expect(matchPaths('/^src\\/.*\\.ts$/')).toEqual(['src/search.ts']);
+    expect(matchPaths('/readme/i')).toEqual(['README.md']);
+    expect(matchPaths('/search/g')).toEqual(['src/search.ts', 'test/search.test.ts']);
+
+    const invalid = parseSearchQuery('/([/');
+    expect(invalid.query).toBeNull();
+    expect(invalid.error).toBeTruthy();
+  });
+
+  it('ignores blank values', () => {
+    expect(parseSearchQuery('  ')).toEqual({ query: null, error: null });
+    expect(parseSearchQuery(null)).toEqual({ query: null, error: null });
+  });
+});
+
+describe('searchTree', () => {
+  it('counts matching files and directories, leaving out the root', () => {
+    const { query } = parseSearchQuery('s');
+    if (!query) {
+      throw new Error('Expected a query');
+    }
+    const results = searchTree(tree, query);
+
+    expect(results.files).toBe(4);
+    expect(results.directories).toBe(3);
+    expect(results.matches.map((match) => match.relativePath)).not.toContain('.');
+  });
+});